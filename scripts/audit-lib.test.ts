@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+
+import { ExtensionManifest, GitHubRelease } from "./types";
+import { auditGallery, formatAuditMarkdown } from "./audit-lib";
+import { buildExtensions } from "./generate-gallery-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeManifest(overrides: Partial<ExtensionManifest["extension"]> = {}): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2024.01.0",
+      tags: [],
+      ...overrides,
+    },
+  };
+}
+
+function makeRelease(tagName: string, overrides: Partial<GitHubRelease> = {}): GitHubRelease {
+  const name = tagName.split("@")[0];
+  return {
+    tagName,
+    publishedAt: "2024-06-01T00:00:00Z",
+    assets: [{ name: `${name}.tar.gz`, url: `https://example.com/${name}.tar.gz` }],
+    body: "",
+    ...overrides,
+  };
+}
+
+function audit(manifests: ExtensionManifest[], releases: GitHubRelease[]) {
+  const byDir = new Map(manifests.map((m) => [m.extension.name, m]));
+  return auditGallery(byDir, releases, buildExtensions(byDir, releases));
+}
+
+// ---------------------------------------------------------------------------
+// auditGallery
+// ---------------------------------------------------------------------------
+
+describe("auditGallery", () => {
+  it("finds nothing when every release is published", () => {
+    expect(audit([makeManifest()], [makeRelease("my-ext@v1.0.0"), makeRelease("v2.0.0")])).toEqual({
+      skippedReleases: 0,
+      skippedExtensions: 0,
+      diagnostics: [],
+    });
+  });
+
+  it("explains releases that are left out", () => {
+    const result = audit(
+      [makeManifest()],
+      [
+        makeRelease("my-ext@v1.0.0"),
+        makeRelease("my-ext@v1.1", { assets: [] }),
+        makeRelease("my-ext@v1.2.0", { assets: [{ name: "notes.txt", url: "https://example.com/notes.txt" }] }),
+        makeRelease("removed@v1.0.0"),
+      ]
+    );
+
+    expect(result.skippedReleases).toBe(3);
+    expect(result.diagnostics).toEqual([
+      {
+        kind: "invalid-version",
+        extension: "my-ext",
+        tag: "my-ext@v1.1",
+        message: "'1.1' is not a valid semantic version",
+        skipped: true,
+      },
+      {
+        kind: "missing-asset",
+        extension: "my-ext",
+        tag: "my-ext@v1.2.0",
+        message: "The release has no my-ext.tar.gz asset (found: notes.txt)",
+        skipped: true,
+      },
+      {
+        kind: "orphaned-tag",
+        extension: "removed",
+        tag: "removed@v1.0.0",
+        message: "There is no extension named 'removed' in this repository",
+        skipped: true,
+      },
+    ]);
+  });
+
+  it("explains tags of known extensions that are not of the expected form", () => {
+    const result = audit(
+      [makeManifest({ name: "a" }), makeManifest({ name: "a-b" })],
+      [
+        makeRelease("a@v1.0.0"),
+        makeRelease("a-b@v1.0.0"),
+        makeRelease("a@1.1.0"),
+        makeRelease("a-1.2.0"),
+        makeRelease("a@V1.3.0"),
+        makeRelease("a-b-2.0.0"),
+        makeRelease("abc-1.0.0"),
+        makeRelease("v2.0.0"),
+      ]
+    );
+
+    expect(result.skippedReleases).toBe(4);
+    expect(result.diagnostics.map((d) => [d.kind, d.extension, d.tag])).toEqual([
+      ["malformed-tag", "a", "a-1.2.0"],
+      ["malformed-tag", "a", "a@1.1.0"],
+      ["malformed-tag", "a", "a@V1.3.0"],
+      ["malformed-tag", "a-b", "a-b-2.0.0"],
+    ]);
+    expect(result.diagnostics[1].message).toBe(
+      "The tag is not of the form 'a@v<version>', so it is not read as a release of 'a'"
+    );
+  });
+
+  it("flags published releases that may not look as expected", () => {
+    const result = audit(
+      [makeManifest()],
+      [
+        makeRelease("my-ext@v1.0.0", { body: "<!-- connect-gallery-metadata\n{bad\n-->" }),
+        makeRelease("my-ext@v1.1.0+build.1"),
+        makeRelease("my-ext@v1.1.0+build.2"),
+      ]
+    );
+
+    expect(result.skippedReleases).toBe(0);
+    expect(result.diagnostics.map((d) => [d.kind, d.tag, d.message])).toEqual([
+      [
+        "invalid-metadata",
+        "my-ext@v1.0.0",
+        "The metadata in the release body is not valid JSON, so the current manifest's requirements are published instead",
+      ],
+      [
+        "duplicate-version",
+        "my-ext@v1.1.0+build.1",
+        "Version 1.1.0 is released by 2 tags (my-ext@v1.1.0+build.1, my-ext@v1.1.0+build.2), which are all listed",
+      ],
+    ]);
+  });
+
+  it("lists versions the retention policy drops", () => {
+    const manifests = new Map([["my-ext", makeManifest({ retention: { keepNewest: 1 } })]]);
+    const releases = [makeRelease("my-ext@v1.0.0"), makeRelease("my-ext@v1.1.0")];
+
+    expect(auditGallery(manifests, releases, buildExtensions(manifests, releases))).toEqual({
+      skippedReleases: 1,
+      skippedExtensions: 0,
+      diagnostics: [
+        {
+          kind: "retention",
+          extension: "my-ext",
+          tag: "my-ext@v1.0.0",
+          message: "Version 1.0.0 is not kept by the retention policy in the manifest",
+          skipped: true,
+        },
+      ],
+    });
+  });
+
+  it("explains extensions that are left out", () => {
+    const result = audit(
+      [
+        makeManifest({ name: "draft", version: "0.0.0" }),
+        makeManifest({ name: "new-ext" }),
+        makeManifest({ name: "beta-ext" }),
+      ],
+      [makeRelease("beta-ext@v1.0.0-beta.1"), makeRelease("new-ext@v1.0", { assets: [] })]
+    );
+
+    expect(result.skippedExtensions).toBe(3);
+    expect(result.diagnostics.filter((d) => !d.tag)).toEqual([
+      {
+        kind: "no-stable-release",
+        extension: "beta-ext",
+        message: "Every release is a prerelease, so there is no latest version",
+        skipped: true,
+      },
+      { kind: "unreleased", extension: "draft", message: "Version 0.0.0 is never published", skipped: true },
+      {
+        kind: "no-releases",
+        extension: "new-ext",
+        message: "The extension has no release with a semver tag and a tarball",
+        skipped: true,
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatAuditMarkdown
+// ---------------------------------------------------------------------------
+
+describe("formatAuditMarkdown", () => {
+  it("reports a clean audit", () => {
+    expect(formatAuditMarkdown({ skippedReleases: 0, skippedExtensions: 0, diagnostics: [] })).toBe(
+      "# Gallery audit\n\n✅ Every release and extension is in extensions.json"
+    );
+  });
+
+  it("lists every finding in a table", () => {
+    const markdown = formatAuditMarkdown(
+      audit([makeManifest()], [makeRelease("my-ext@v1.0.0"), makeRelease("my-ext@v1.1.0", { assets: [] })])
+    );
+
+    expect(markdown.split("\n")).toEqual([
+      "# Gallery audit",
+      "",
+      "1 release(s) and 0 extension(s) were left out of extensions.json.",
+      "",
+      "| | Extension | Release | Problem |",
+      "|---|---|---|---|",
+      "| ⏭️ | my-ext | `my-ext@v1.1.0` | The release has no my-ext.tar.gz asset |",
+      "",
+      "⏭️ left out · ⚠️ published, but check it",
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import semverValid from "semver/functions/valid";
+
+import {
+  AuditDiagnostic,
+  Extension,
+  ExtensionManifest,
+  GalleryAudit,
+  GitHubRelease,
+} from "./types";
+import {
+  releaseChannel,
+  releaseMetadataProblem,
+  releaseSkipReason,
+} from "./generate-gallery-lib";
+
+// Tags of extension releases, e.g. `my-ext@v1.2.0`. Other tags, such as
+// those of the repository itself, are not audited
+const RELEASE_TAG = /^(.+?)@v(.*)$/;
+
+// What follows an extension name in a tag that was meant to release it but
+// is not of the form `{name}@v{version}`, e.g. `@1.2.0`, `-1.2.0` or `@V1.2.0`
+const MISTAKEN_TAG_SUFFIX = /^[@\-_/]?[vV]?\d/;
+
+const ICONS = { skipped: "⏭️", kept: "⚠️" };
+
+/**
+ * Explain every release and extension of this repository that
+ * `buildExtensions()` left out of `extensions`, and every release that is in
+ * it but may not look as expected: releases without a usable asset or semver
+ * tag, tags that name an extension but not in the `{name}@v{version}` form,
+ * tags of extensions whose directory is gone, versions released by more
+ * than one tag, unusable release metadata, versions the retention policy
+ * drops, and extensions without a release to publish.
+ */
+export function auditGallery(
+  manifests: Map<string, ExtensionManifest>,
+  releases: GitHubRelease[],
+  extensions: Extension[]
+): GalleryAudit {
+  const diagnostics: AuditDiagnostic[] = [];
+  const names = [...manifests.values()].map((m) => m.extension.name);
+  // Usable tags of each extension, by version without build metadata
+  const usable = new Map<string, Map<string, string[]>>(
+    names.map((name) => [name, new Map()])
+  );
+
+  for (const release of releases) {
+    const tag = release.tagName;
+    const match = tag.match(RELEASE_TAG);
+    if (!match) {
+      const mistaken = names
+        .filter((n) => tag.startsWith(n) && MISTAKEN_TAG_SUFFIX.test(tag.slice(n.length)))
+        .sort((a, b) => b.length - a.length)[0];
+      if (mistaken !== undefined) {
+        diagnostics.push({
+          kind: "malformed-tag",
+          extension: mistaken,
+          tag,
+          message: `The tag is not of the form '${mistaken}@v<version>', so it is not read as a release of '${mistaken}'`,
+          skipped: true,
+        });
+      }
+      continue;
+    }
+
+    const name = names.find((n) => tag.startsWith(`${n}@v`));
+    if (name === undefined) {
+      diagnostics.push({
+        kind: "orphaned-tag",
+        extension: match[1],
+        tag,
+        message: `There is no extension named '${match[1]}' in this repository`,
+        skipped: true,
+      });
+      continue;
+    }
+
+    const skip = releaseSkipReason(release, name);
+    if (skip) {
+      diagnostics.push({ ...skip, extension: name, tag, skipped: true });
+      continue;
+    }
+
+    const metadataProblem = releaseMetadataProblem(release.body);
+    if (metadataProblem) {
+      diagnostics.push({
+        kind: "invalid-metadata",
+        extension: name,
+        tag,
+        message: `${metadataProblem}, so the current manifest's requirements are published instead`,
+        skipped: false,
+      });
+    }
+
+    const version = tag.slice(`${name}@v`.length);
+    const extension = extensions.find((e) => e.name === name);
+    if (extension && !extension.versions.some((v) => v.version === version)) {
+      const manifest = [...manifests.values()].find((m) => m.extension.name === name);
+      diagnostics.push({
+        kind: "retention",
+        extension: name,
+        tag,
+        message: `Version ${version} is not kept by the retention policy in ${manifest.extension.retention ? "the manifest" : "gallery.json"}`,
+        skipped: true,
+      });
+    }
+
+    const tags = usable.get(name);
+    const withoutBuild = version.split("+")[0];
+    tags.set(withoutBuild, [...(tags.get(withoutBuild) || []), tag]);
+  }
+
+  const published = new Set(extensions.map((e) => e.name));
+  for (const [name, tags] of usable) {
+    for (const [version, duplicates] of tags) {
+      if (duplicates.length < 2) continue;
+      diagnostics.push({
+        kind: "duplicate-version",
+        extension: name,
+        tag: duplicates[0],
+        message: `Version ${version} is released by ${duplicates.length} tags (${duplicates.join(", ")}), which are all listed`,
+        skipped: false,
+      });
+    }
+
+    if (published.has(name)) continue;
+    const manifest = [...manifests.values()].find((m) => m.extension.name === name);
+    const stable = [...tags.keys()].some(
+      (v) => semverValid(v) && releaseChannel(v) === null
+    );
+    diagnostics.push(
+      manifest.extension.version === "0.0.0"
+        ? {
+            kind: "unreleased",
+            extension: name,
+            message: "Version 0.0.0 is never published",
+            skipped: true,
+          }
+        : tags.size === 0
+          ? {
+              kind: "no-releases",
+              extension: name,
+              message: "The extension has no release with a semver tag and a tarball",
+              skipped: true,
+            }
+          : {
+              kind: "no-stable-release",
+              extension: name,
+              message: stable
+                ? "Every stable release is yanked or marked as a prerelease, so there is no latest version"
+                : "Every release is a prerelease, so there is no latest version",
+              skipped: true,
+            }
+    );
+  }
+
+  diagnostics.sort(
+    (a, b) =>
+      a.extension.localeCompare(b.extension) ||
+      (a.tag ?? "").localeCompare(b.tag ?? "")
+  );
+  return {
+    skippedReleases: diagnostics.filter((d) => d.skipped && d.tag).length,
+    skippedExtensions: diagnostics.filter((d) => d.skipped && !d.tag).length,
+    diagnostics,
+  };
+}
+
+/**
+ * Render an audit as markdown for the job summary.
+ */
+export function formatAuditMarkdown(audit: GalleryAudit): string {
+  const lines = ["# Gallery audit", ""];
+  if (audit.diagnostics.length === 0) {
+    lines.push("✅ Every release and extension is in extensions.json");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `${audit.skippedReleases} release(s) and ${audit.skippedExtensions} extension(s) were left out of extensions.json.`,
+    "",
+    "| | Extension | Release | Problem |",
+    "|---|---|---|---|",
+    ...audit.diagnostics.map(
+      (d) =>
+        `| ${d.skipped ? ICONS.skipped : ICONS.kept} | ${d.extension} | ${d.tag ? `\`${d.tag}\`` : ""} | ${d.message.replace(/\|/g, "\\|")} |`
+    ),
+    "",
+    `${ICONS.skipped} left out · ${ICONS.kept} published, but check it`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+
+import { ExtensionManifest } from "./types";
+import { checkBump, isShipped, manifestChanges } from "./bump-lib";
+import { DEFAULT_IGNORES, parseIgnorePatterns } from "./package-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeManifest(
+  overrides: Partial<ExtensionManifest["extension"]> = {},
+  environment?: ExtensionManifest["environment"]
+): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      requiredFeatures: ["API Publishing"],
+      tags: ["python"],
+      ...overrides,
+    },
+    ...(environment ? { environment } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// isShipped
+// ---------------------------------------------------------------------------
+
+describe("isShipped", () => {
+  const rules = parseIgnorePatterns([...DEFAULT_IGNORES, "tests/", "*.md", "!README.md"]);
+
+  it("skips files the packager ignores, including under ignored directories", () => {
+    expect(isShipped("app.py", rules)).toBe(true);
+    expect(isShipped("README.md", rules)).toBe(true);
+    expect(isShipped("NOTES.md", rules)).toBe(false);
+    expect(isShipped("tests/test_app.py", rules)).toBe(false);
+    expect(isShipped("src/__pycache__/app.cpython-311.pyc", rules)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// manifestChanges
+// ---------------------------------------------------------------------------
+
+describe("manifestChanges", () => {
+  it("ignores the version and formatting of requirements", () => {
+    const base = makeManifest({}, { python: { requires: ">=3.9, <3.13" } });
+    const manifest = makeManifest({ version: "2.0.0" }, { python: { requires: ">=3.9,<3.13" } });
+
+    expect(manifestChanges(base, manifest)).toEqual([]);
+  });
+
+  it("calls for a major bump when fewer servers can install the extension", () => {
+    const base = makeManifest({}, { python: { requires: "~=3.8" } });
+    const manifest = makeManifest(
+      { minimumConnectVersion: "2025.10.0", requiredFeatures: ["API Publishing", "OAuth Integrations"] },
+      { python: { requires: "~=3.10" }, r: { requires: "~=4.2" } }
+    );
+
+    expect(manifestChanges(base, manifest)).toEqual([
+      { field: "extension.minimumConnectVersion", description: "raised from 2025.04.0 to 2025.10.0", level: "major" },
+      { field: "extension.requiredFeatures", description: "now requires 'OAuth Integrations'", level: "major" },
+      { field: "environment.python", description: "changed from ~=3.8 to ~=3.10", level: "major" },
+      { field: "environment.r", description: "now requires ~=4.2", level: "major" },
+    ]);
+  });
+
+  it("calls for a minor bump for relaxed requirements and a patch for listing changes", () => {
+    const base = makeManifest({ minimumConnectVersion: "2025.10.0" }, { python: { requires: "~=3.8" } });
+    const manifest = makeManifest({ requiredFeatures: [], title: "Renamed", tags: ["python", "ai"] });
+
+    expect(manifestChanges(base, manifest)).toEqual([
+      { field: "extension.minimumConnectVersion", description: "lowered from 2025.10.0 to 2025.04.0", level: "minor" },
+      { field: "extension.requiredFeatures", description: "no longer requires 'API Publishing'", level: "minor" },
+      { field: "environment.python", description: "no longer requires ~=3.8", level: "minor" },
+      { field: "extension.title", description: "changed", level: "patch" },
+      { field: "extension.tags", description: "changed", level: "patch" },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkBump
+// ---------------------------------------------------------------------------
+
+describe("checkBump", () => {
+  it("accepts a bump that matches the changes", () => {
+    const result = checkBump({
+      manifest: makeManifest({ version: "1.1.0", requiredFeatures: [] }),
+      baseManifest: makeManifest(),
+      files: ["app.py", "manifest.json"],
+      latestVersion: "1.0.0",
+    });
+
+    expect(result).toMatchObject({
+      extension: "my-ext",
+      baseVersion: "1.0.0",
+      version: "1.1.0",
+      latestVersion: "1.0.0",
+      suggested: "minor",
+      suggestedVersion: "1.1.0",
+      issues: [],
+    });
+  });
+
+  it("suggests a patch when only other files changed", () => {
+    const result = checkBump({ manifest: makeManifest(), baseManifest: makeManifest(), files: ["app.py"] });
+
+    expect(result.suggested).toBe("patch");
+    expect(result.issues).toEqual([
+      {
+        path: "extension.version",
+        message:
+          "1 file(s) changed but version 1.0.0 is unchanged, so the change will never be released; bump it to 1.0.1 (patch)",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("only warns about a missing bump with warnOnly", () => {
+    const result = checkBump({
+      manifest: makeManifest(),
+      baseManifest: makeManifest(),
+      files: ["app.py"],
+      warnOnly: true,
+    });
+
+    expect(result.issues.map((i) => i.severity)).toEqual(["warning"]);
+  });
+
+  it("rejects a version that is already released", () => {
+    const result = checkBump({
+      manifest: makeManifest({ version: "1.1.0" }),
+      baseManifest: makeManifest(),
+      files: ["app.py", "manifest.json"],
+      latestVersion: "1.1.0",
+    });
+
+    expect(result.suggestedVersion).toBe("1.1.1");
+    expect(result.issues[0].message).toBe(
+      "2 file(s) changed but version 1.1.0 is already released, so the change will never be released; bump it to 1.1.1 (patch)"
+    );
+  });
+
+  it("rejects version regressions", () => {
+    expect(
+      checkBump({ manifest: makeManifest({ version: "0.9.0" }), baseManifest: makeManifest(), files: [] }).issues
+    ).toEqual([
+      { path: "extension.version", message: "Version 0.9.0 is lower than 1.0.0 at the base ref", severity: "error" },
+    ]);
+    expect(
+      checkBump({ manifest: makeManifest(), baseManifest: null, files: ["app.py"], latestVersion: "1.2.0" }).issues[0]
+        .message
+    ).toBe("Version 1.0.0 is lower than the released version 1.2.0");
+  });
+
+  it("warns about a smaller bump than the changes call for", () => {
+    const result = checkBump({
+      manifest: makeManifest({ version: "1.0.1", minimumConnectVersion: "2025.10.0" }),
+      baseManifest: makeManifest(),
+      files: ["manifest.json"],
+    });
+
+    expect(result.issues).toEqual([
+      {
+        path: "extension.version",
+        message: "The changes call for a major bump to 2.0.0, but 1.0.0 to 1.0.1 is a patch bump",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("accepts a minor bump for breaking changes before 1.0.0", () => {
+    const result = checkBump({
+      manifest: makeManifest({ version: "0.3.0", minimumConnectVersion: "2025.10.0" }),
+      baseManifest: makeManifest({ version: "0.2.0" }),
+      files: ["manifest.json"],
+    });
+
+    expect(result.suggested).toBe("major");
+    expect(result.issues).toEqual([]);
+  });
+
+  it("does not ask new or unchanged extensions for a bump", () => {
+    expect(checkBump({ manifest: makeManifest(), baseManifest: null, files: ["app.py"] })).toMatchObject({
+      suggested: null,
+      suggestedVersion: null,
+      issues: [],
+    });
+    expect(checkBump({ manifest: makeManifest(), baseManifest: makeManifest(), files: [] }).issues).toEqual([]);
+  });
+});
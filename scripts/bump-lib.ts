@@ -0,0 +1,239 @@
+import semverDiff from "semver/functions/diff";
+import semverEq from "semver/functions/eq";
+import semverGt from "semver/functions/gt";
+import semverInc from "semver/functions/inc";
+import semverLt from "semver/functions/lt";
+import semverMajor from "semver/functions/major";
+import semverValid from "semver/functions/valid";
+
+import {
+  BumpCheck,
+  BumpLevel,
+  ExtensionManifest,
+  ManifestChange,
+  ValidationIssue,
+  ValidationSeverity,
+} from "./types";
+import { isIgnored, IgnoreRule } from "./package-lib";
+import {
+  compareSegments,
+  normalizeRequirement,
+  releaseSegments,
+} from "./requirements";
+
+export interface BumpInput {
+  manifest: ExtensionManifest;
+  /** Manifest at the base ref, or null when the extension is new. */
+  baseManifest: ExtensionManifest | null;
+  /** Files that ship in the bundle and changed since the base ref. */
+  files: string[];
+  /** Highest released version, or null if never released or not checked. */
+  latestVersion?: string | null;
+  /** Report a missing bump as a warning instead of an error. */
+  warnOnly?: boolean;
+}
+
+const LEVELS: BumpLevel[] = ["patch", "minor", "major"];
+
+// Fields that only change how the extension is listed in the gallery
+const LISTING_FIELDS = [
+  "title",
+  "description",
+  "homepage",
+  "category",
+  "tags",
+  "translations",
+  "icon",
+  "screenshots",
+  "readme",
+] as const;
+
+function highest(levels: BumpLevel[]): BumpLevel | null {
+  return levels.reduce<BumpLevel | null>(
+    (max, level) =>
+      max === null || LEVELS.indexOf(level) > LEVELS.indexOf(max) ? level : max,
+    null
+  );
+}
+
+/**
+ * Whether a changed path, relative to the extension directory, ends up in the
+ * bundle. A file under an ignored directory is ignored too.
+ */
+export function isShipped(file: string, rules: IgnoreRule[]): boolean {
+  const parts = file.split("/");
+  for (let i = 1; i < parts.length; i++) {
+    if (isIgnored(parts.slice(0, i).join("/"), true, rules)) return false;
+  }
+  return !isIgnored(file, false, rules);
+}
+
+/**
+ * Every change between two manifests other than the version, with the bump it
+ * calls for: `major` for anything that can stop a server that installed the
+ * previous version from installing this one (a higher minimum Connect
+ * version, a new required feature, a new or changed environment constraint,
+ * a new name), `minor` for requirements that were relaxed, and `patch` for
+ * how the extension is listed.
+ */
+export function manifestChanges(
+  base: ExtensionManifest,
+  manifest: ExtensionManifest
+): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const change = (field: string, description: string, level: BumpLevel) =>
+    changes.push({ field, description, level });
+  const before = base.extension;
+  const after = manifest.extension;
+
+  if (before.name !== after.name) {
+    change("extension.name", `renamed from '${before.name}' to '${after.name}'`, "major");
+  }
+
+  const oldMinimum = releaseSegments(before.minimumConnectVersion);
+  const newMinimum = releaseSegments(after.minimumConnectVersion);
+  const cmp =
+    oldMinimum && newMinimum
+      ? compareSegments(newMinimum, oldMinimum)
+      : before.minimumConnectVersion === after.minimumConnectVersion
+        ? 0
+        : 1;
+  if (cmp !== 0) {
+    change(
+      "extension.minimumConnectVersion",
+      `${cmp > 0 ? "raised" : "lowered"} from ${before.minimumConnectVersion} to ${after.minimumConnectVersion}`,
+      cmp > 0 ? "major" : "minor"
+    );
+  }
+
+  const oldFeatures = before.requiredFeatures || [];
+  const newFeatures = after.requiredFeatures || [];
+  for (const feature of newFeatures.filter((f) => !oldFeatures.includes(f))) {
+    change("extension.requiredFeatures", `now requires '${feature}'`, "major");
+  }
+  for (const feature of oldFeatures.filter((f) => !newFeatures.includes(f))) {
+    change("extension.requiredFeatures", `no longer requires '${feature}'`, "minor");
+  }
+
+  const languages = new Set([
+    ...Object.keys(base.environment || {}),
+    ...Object.keys(manifest.environment || {}),
+  ]);
+  for (const language of languages) {
+    const oldRequires = base.environment?.[language]?.requires;
+    const newRequires = manifest.environment?.[language]?.requires;
+    const field = `environment.${language}`;
+    if (oldRequires === undefined) {
+      change(field, `now requires ${newRequires}`, "major");
+    } else if (newRequires === undefined) {
+      change(field, `no longer requires ${oldRequires}`, "minor");
+    } else if (normalizeRequirement(oldRequires) !== normalizeRequirement(newRequires)) {
+      change(field, `changed from ${oldRequires} to ${newRequires}`, "major");
+    }
+  }
+
+  for (const key of LISTING_FIELDS) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      change(`extension.${key}`, "changed", "patch");
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check that the version in a pull request's manifest is bumped when the
+ * extension changed: a version lower than at the base ref or than the latest
+ * release is an error, as is an unchanged or already released version when
+ * shipped files changed (a warning with `warnOnly`). The bump to make is
+ * suggested from the manifest changes, or `patch` when only other files
+ * changed, and a smaller bump than suggested is a warning.
+ */
+export function checkBump(input: BumpInput): BumpCheck {
+  const { manifest, baseManifest, files, warnOnly } = input;
+  const version = manifest.extension.version;
+  const baseVersion = baseManifest?.extension.version ?? null;
+  const latestVersion = input.latestVersion ?? null;
+
+  const issues: ValidationIssue[] = [];
+  const report = (severity: ValidationSeverity, message: string) =>
+    issues.push({ path: "extension.version", message, severity });
+
+  const changes = baseManifest ? manifestChanges(baseManifest, manifest) : [];
+  const changed = files.length > 0 || changes.length > 0;
+  const suggested =
+    baseManifest && changed
+      ? highest(changes.map((c) => c.level)) ?? "patch"
+      : null;
+
+  // Bumps are made from whichever of the base and released versions is higher
+  const previous = [baseVersion, latestVersion]
+    .filter((v) => v !== null && semverValid(v) !== null)
+    .sort((a, b) => (semverGt(a, b) ? -1 : 1))[0];
+  const suggestedVersion =
+    suggested && previous ? semverInc(previous, suggested) : null;
+
+  const result = (): BumpCheck => ({
+    extension: manifest.extension.name,
+    baseVersion,
+    version,
+    latestVersion,
+    files,
+    changes,
+    suggested,
+    suggestedVersion,
+    issues,
+  });
+
+  if (semverValid(version) === null) {
+    report("error", `'${version}' is not a valid semantic version`);
+    return result();
+  }
+
+  if (baseVersion && semverValid(baseVersion) && semverLt(version, baseVersion)) {
+    report("error", `Version ${version} is lower than ${baseVersion} at the base ref`);
+    return result();
+  }
+  if (latestVersion && semverLt(version, latestVersion)) {
+    report("error", `Version ${version} is lower than the released version ${latestVersion}`);
+    return result();
+  }
+
+  if (!suggested) return result();
+
+  const unchanged = baseVersion !== null && baseVersion === version;
+  const released = latestVersion !== null && semverEq(version, latestVersion);
+  if (unchanged || released) {
+    const what = [
+      files.length > 0 ? `${files.length} file(s)` : "",
+      changes.length > 0 ? "the manifest" : "",
+    ]
+      .filter(Boolean)
+      .join(" and ");
+    report(
+      warnOnly ? "warning" : "error",
+      `${what} changed but version ${version} is ${released ? "already released" : "unchanged"}, so the change will never be released; bump it to ${suggestedVersion} (${suggested})`
+    );
+    return result();
+  }
+
+  // Breaking changes only need a minor bump before 1.0.0
+  const made = previous ? semverDiff(previous, version) : null;
+  const madeLevel = made ? (made.replace(/^pre/, "") as BumpLevel) : null;
+  const needed =
+    suggested === "major" && previous && semverMajor(previous) === 0
+      ? "minor"
+      : suggested;
+  if (
+    madeLevel &&
+    LEVELS.includes(madeLevel) &&
+    LEVELS.indexOf(madeLevel) < LEVELS.indexOf(needed)
+  ) {
+    report(
+      "warning",
+      `The changes call for a ${suggested} bump to ${suggestedVersion}, but ${previous} to ${version} is a ${madeLevel} bump`
+    );
+  }
+
+  return result();
+}
@@ -0,0 +1,129 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { ReleasePlan } from "./types";
+import { changedFiles, detectChanges, readFileAtBase } from "./changes-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makePlan(overrides: Partial<ReleasePlan> = {}): ReleasePlan {
+  return {
+    action: "skip",
+    version: "1.0.0",
+    latestVersion: "1.0.0",
+    tag: "my-ext@v1.0.0",
+    reason: "",
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// changedFiles
+// ---------------------------------------------------------------------------
+
+describe("changedFiles", () => {
+  let repo: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      cwd: repo,
+      stdio: "pipe",
+    });
+  const write = (file: string, content = "") => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), content);
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "changes-"));
+    git("init", "-q", "-b", "main");
+    write("extensions/a/manifest.json", "{}");
+    write("extensions/b/manifest.json", "{}");
+    write("README.md");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Initial commit");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("lists committed, uncommitted and untracked changes under the directory", () => {
+    git("checkout", "-q", "-b", "feature");
+    write("extensions/a/app.py", "print()");
+    write("README.md", "changed");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Change a");
+    write("extensions/b/manifest.json", '{"changed": true}');
+    write("extensions/c/manifest.json", "{}");
+
+    expect(changedFiles(path.join(repo, "extensions"), "main")).toEqual([
+      "a/app.py",
+      "b/manifest.json",
+      "c/manifest.json",
+    ]);
+  });
+
+  it("ignores changes made on the base since the branch point", () => {
+    git("checkout", "-q", "-b", "feature");
+    git("checkout", "-q", "main");
+    write("extensions/b/app.R");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Change b on main");
+    git("checkout", "-q", "feature");
+
+    expect(changedFiles(path.join(repo, "extensions"), "main")).toEqual([]);
+  });
+
+  it("reads a file as it was at the merge base", () => {
+    git("checkout", "-q", "-b", "feature");
+    write("extensions/a/manifest.json", '{"changed": true}');
+    git("commit", "-q", "-am", "Change a");
+
+    expect(readFileAtBase(path.join(repo, "extensions", "a"), "main", "manifest.json")).toBe("{}");
+    expect(readFileAtBase(path.join(repo, "extensions", "a"), "main", "app.py")).toBeNull();
+  });
+
+  it("throws when the base ref does not exist", () => {
+    expect(() => changedFiles(path.join(repo, "extensions"), "missing")).toThrow("unknown revision 'missing'");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// detectChanges
+// ---------------------------------------------------------------------------
+
+describe("detectChanges", () => {
+  it("groups changed files by extension", () => {
+    const files = ["b/app.py", "a/manifest.json", "a/www/style.css", "ab/app.py", "deleted/app.py"];
+
+    expect(detectChanges(["b", "a", "ab", "c"], files)).toEqual([
+      { extension: "a", files: ["manifest.json", "www/style.css"] },
+      { extension: "ab", files: ["app.py"] },
+      { extension: "b", files: ["app.py"] },
+    ]);
+  });
+
+  it("includes extensions with an unreleased manifest version", () => {
+    const plans = new Map([
+      ["a", makePlan({ action: "release", version: "1.1.0", latestVersion: "1.0.0" })],
+      ["b", makePlan()],
+    ]);
+
+    expect(detectChanges(["a", "b"], [], plans)).toEqual([
+      { extension: "a", files: [], unreleased: { version: "1.1.0", latestVersion: "1.0.0" } },
+    ]);
+  });
+
+  it("counts every extension as changed without a base ref", () => {
+    expect(detectChanges(["b", "a"], null)).toEqual([
+      { extension: "a", files: [] },
+      { extension: "b", files: [] },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { execFileSync } from "child_process";
+
+import { ExtensionChange, ReleasePlan } from "./types";
+
+function git(dir: string, args: string[]): string[] {
+  return execFileSync("git", args, {
+    cwd: dir,
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+    .split("\0")
+    .filter(Boolean);
+}
+
+/**
+ * Files under `dir` that differ from `base`, relative to `dir`: everything
+ * changed since the merge base of `base` and HEAD, committed or not, plus
+ * untracked files. Throws with git's message when `dir` is not in a git
+ * repository or `base` cannot be resolved.
+ */
+export function changedFiles(dir: string, base: string): string[] {
+  // Outside a repository `git diff` silently compares files instead
+  git(dir, ["rev-parse", "--show-toplevel"]);
+  try {
+    git(dir, ["rev-parse", "--verify", "--quiet", `${base}^{commit}`]);
+  } catch {
+    throw new Error(`unknown revision '${base}'`);
+  }
+
+  const files = [
+    ...git(dir, ["diff", "-z", "--name-only", "--relative", "--merge-base", base, "--", "."]),
+    ...git(dir, ["ls-files", "-z", "--others", "--exclude-standard", "--", "."]),
+  ];
+  return [...new Set(files)].sort();
+}
+
+/**
+ * Contents of `file`, relative to `dir`, at the merge base of `base` and HEAD,
+ * or null if it did not exist there. Throws like `changedFiles` for an
+ * unknown repository or ref.
+ */
+export function readFileAtBase(
+  dir: string,
+  base: string,
+  file: string
+): string | null {
+  const [mergeBase] = git(dir, ["merge-base", base, "HEAD"]);
+  try {
+    return execFileSync("git", ["show", `${mergeBase.trim()}:./${file}`], {
+      cwd: dir,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every extension that needs to be built, by name: those with a file in
+ * `files` under their directory, and those whose release plan is to release
+ * the manifest version. Pass null for `files` to count every extension as
+ * changed. Changes outside every extension's directory, including in
+ * directories that were deleted, are ignored.
+ */
+export function detectChanges(
+  names: string[],
+  files: string[] | null,
+  plans: Map<string, ReleasePlan> = new Map()
+): ExtensionChange[] {
+  const changes: ExtensionChange[] = [];
+
+  for (const name of [...names].sort()) {
+    const changed = files
+      ? files
+          .filter((file) => file.startsWith(`${name}/`))
+          .map((file) => file.slice(name.length + 1))
+      : [];
+    const plan = plans.get(name);
+    const unreleased =
+      plan?.action === "release"
+        ? { version: plan.version, latestVersion: plan.latestVersion }
+        : undefined;
+
+    if (files === null || changed.length > 0 || unreleased) {
+      changes.push({
+        extension: name,
+        files: changed,
+        ...(unreleased ? { unreleased } : {}),
+      });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,290 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { formatUsage, main, parseCommandLine, UsageError } from "./cli";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+let dir: string;
+let stdout: string[];
+let stderr: string[];
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+  stdout = [];
+  stderr = [];
+  vi.spyOn(console, "log").mockImplementation((line) => void stdout.push(String(line)));
+  vi.spyOn(console, "error").mockImplementation((line) => void stderr.push(String(line)));
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    stdout.push(String(chunk));
+    return true;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// A gallery of one extension with one version in a mirror, so it can be
+// generated without network access
+function writeGallery() {
+  const write = (file: string, value: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(value));
+  };
+  write("extensions/my-ext/manifest.json", {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+    },
+  });
+  write("gallery.json", { categories: [] });
+  write("mirror/my-ext/1.0.0/metadata.json", {
+    released: "2024-06-01T00:00:00Z",
+    minimumConnectVersion: "2025.04.0",
+  });
+  fs.writeFileSync(path.join(dir, "mirror/my-ext/1.0.0/my-ext.tar.gz"), "tarball");
+}
+
+const GENERATE_ENV = {
+  EXTENSIONS_DIR: "extensions",
+  GALLERY_CONFIG: "gallery.json",
+  RELEASE_URL_TEMPLATE: "https://mirror.internal/{name}/{version}/{file}",
+};
+
+function generateArgs(output: string): string[] {
+  return [
+    "generate",
+    "--extensions-dir", path.join(dir, "extensions"),
+    "--gallery-config", path.join(dir, "gallery.json"),
+    "--releases-dir", path.join(dir, "mirror"),
+    "--release-url-template", GENERATE_ENV.RELEASE_URL_TEMPLATE,
+    "--output", output,
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// parseCommandLine
+// ---------------------------------------------------------------------------
+
+describe("parseCommandLine", () => {
+  it("reads flags, falling back to environment variables", () => {
+    const { command, flags } = parseCommandLine(
+      ["generate", "--output", "-", "--dry-run"],
+      { ...GENERATE_ENV, EXTENSIONS_JSON: "extensions.json", RELEASES_DIR: "" }
+    );
+
+    expect(command).toBe("generate");
+    expect(flags).toMatchObject({
+      "extensions-dir": "extensions",
+      "gallery-config": "gallery.json",
+      output: "-",
+      "dry-run": true,
+      "releases-dir": undefined,
+      "release-url-template": GENERATE_ENV.RELEASE_URL_TEMPLATE,
+    });
+  });
+
+  it("reports missing required flags with their environment variable", () => {
+    expect(() => parseCommandLine(["lint", "--extensions-dir", "extensions"], {})).toThrow(
+      new UsageError("--extension-name or EXTENSION_NAME is required")
+    );
+  });
+
+  it("rejects unknown commands and flags", () => {
+    expect(() => parseCommandLine(["publish"], {})).toThrow("Unknown command 'publish'");
+    expect(() => parseCommandLine(["verify", "--bogus"], {})).toThrow(UsageError);
+  });
+
+  it("asks for help without checking required flags", () => {
+    expect(parseCommandLine([], {}).command).toBe("help");
+    expect(parseCommandLine(["lint", "--help"], {})).toEqual({
+      command: "help",
+      flags: { command: "lint" },
+    });
+  });
+});
+
+describe("formatUsage", () => {
+  it("lists each flag with its environment variable", () => {
+    const usage = formatUsage("verify");
+
+    expect(usage).toContain("Usage: connect-gallery verify [options]");
+    expect(usage).toMatch(/--extensions-json <value> +extensions.json to verify \[env: EXTENSIONS_JSON\] \(required\)/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// main
+// ---------------------------------------------------------------------------
+
+describe("main", () => {
+  it("exits with 2 and the usage on a bad command line", async () => {
+    await expect(main(["lint"], {})).resolves.toBe(2);
+    expect(stderr[0]).toContain("--extensions-dir or EXTENSIONS_DIR is required");
+    expect(stderr[0]).toContain("Usage: connect-gallery lint [options]");
+  });
+
+  it("needs a repository or mirror to generate", async () => {
+    await expect(main(["generate", "--output", "-"], GENERATE_ENV)).resolves.toBe(2);
+    expect(stderr[0]).toContain("--repo or GITHUB_REPOSITORY is required unless --releases-dir is set");
+  });
+
+  it("writes extensions.json", async () => {
+    writeGallery();
+    const output = path.join(dir, "extensions.json");
+
+    await expect(main(generateArgs(output), {})).resolves.toBe(0);
+
+    expect(JSON.parse(fs.readFileSync(output, "utf8")).extensions[0].name).toBe("my-ext");
+    expect(stdout).toContain("  Added extension my-ext (v1.0.0)");
+  });
+
+  it("writes nothing with --dry-run", async () => {
+    writeGallery();
+    const output = path.join(dir, "extensions.json");
+    const summary = path.join(dir, "summary.md");
+    vi.stubEnv("GITHUB_STEP_SUMMARY", summary);
+
+    await expect(main([...generateArgs(output), "--dry-run"], {})).resolves.toBe(0);
+
+    expect(fs.existsSync(output)).toBe(false);
+    expect(fs.existsSync(summary)).toBe(false);
+    expect(stdout).toContain(`Dry run: would update ${output}`);
+  });
+
+  it("renders the site of a generated extensions.json", async () => {
+    writeGallery();
+    const output = path.join(dir, "extensions.json");
+    await main(generateArgs(output), {});
+    stdout = [];
+
+    const code = await main(["render-site", "--site-dir", path.join(dir, "site")], { EXTENSIONS_JSON: output });
+
+    expect(code).toBe(0);
+    expect(stdout).toEqual([`Rendered 3 files to ${path.join(dir, "site")}`]);
+    expect(fs.existsSync(path.join(dir, "site", "index.html"))).toBe(true);
+  });
+
+  it("prints extensions.json to stdout with --output -", async () => {
+    writeGallery();
+
+    await expect(main(generateArgs("-"), {})).resolves.toBe(0);
+
+    expect(stdout).toHaveLength(1);
+    expect(JSON.parse(stdout[0]).extensions[0].name).toBe("my-ext");
+  });
+
+  it("reports compatible versions and writes them as JSON with --output -", async () => {
+    writeGallery();
+    const output = path.join(dir, "extensions.json");
+    await main(generateArgs(output), {});
+    stdout = [];
+
+    const code = await main(
+      ["compat", "--extensions-json", output, "--connect-version", "2025.01.0", "--output", "-"],
+      {}
+    );
+
+    expect(code).toBe(0);
+    expect(stderr).toEqual([
+      "my-ext: no compatible version",
+      "  1.0.0 requires Connect 2025.04.0 or later",
+      "0 of 1 extensions can be installed",
+    ]);
+    expect(JSON.parse(stdout[0])[0]).toMatchObject({ extension: "my-ext", installable: null });
+  });
+
+  it("rejects installed versions that are not versions", async () => {
+    const code = await main(
+      ["compat", "--extensions-json", "extensions.json", "--connect-version", "2025.01.0", "--python", "3.8,latest"],
+      {}
+    );
+
+    expect(code).toBe(2);
+    expect(stderr[0]).toContain("'latest' is not a valid Python version");
+  });
+
+  it("prints the suggested environment with --output -", async () => {
+    writeGallery();
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/renv.lock"), JSON.stringify({ R: { Version: "4.3.1" } }));
+
+    const code = await main(["suggest-environment", "--extension-name", "my-ext", "--output", "-"], {
+      EXTENSIONS_DIR: path.join(dir, "extensions"),
+    });
+
+    expect(code).toBe(0);
+    expect(stderr).toEqual(["r: ~=4.3", "  used by renv.lock", "  4.3.1 recorded in renv.lock R.Version"]);
+    expect(JSON.parse(stdout[0])).toEqual({ r: { requires: "~=4.3" } });
+  });
+
+  it("requires a release source to check releases", async () => {
+    await expect(main(["detect-changes", "--check-releases"], { EXTENSIONS_DIR: "extensions" })).resolves.toBe(2);
+    expect(stderr[0]).toContain("--check-releases needs --repo, GITHUB_REPOSITORY or --releases-dir");
+  });
+
+  it("writes the build matrix as a step output", async () => {
+    writeGallery();
+    const outputFile = path.join(dir, "github-output");
+    fs.writeFileSync(outputFile, "");
+    vi.stubEnv("GITHUB_OUTPUT", outputFile);
+
+    const code = await main(["detect-changes", "--extensions-dir", path.join(dir, "extensions")], {});
+    vi.unstubAllEnvs();
+
+    expect(code).toBe(0);
+    expect(stdout).toEqual(["my-ext: no base ref", "1 extension(s) to build"]);
+    expect(fs.readFileSync(outputFile, "utf8")).toBe(
+      'matrix={"extension":["my-ext"]}\nextensions=["my-ext"]\nhas-changes=true\n'
+    );
+  });
+
+  it("exits with 1 when a changed extension was not bumped", async () => {
+    writeGallery();
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+        cwd: dir,
+        stdio: "pipe",
+      });
+    git("init", "-q", "-b", "main");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Initial commit");
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/app.py"), "print()");
+
+    const code = await main(["check-bump", "--extension-name", "my-ext", "--base", "main"], {
+      EXTENSIONS_DIR: path.join(dir, "extensions"),
+      GITHUB_WORKSPACE: dir,
+    });
+
+    expect(code).toBe(1);
+    expect(stdout).toEqual([
+      "my-ext: 1 shipped file(s) changed since main",
+      "  version 1.0.0 (base: 1.0.0, released: not checked)",
+      "  suggested: patch bump to 1.0.1",
+      "::error file=extensions/my-ext/manifest.json,title=extension.version::1 file(s) changed but version 1.0.0 is unchanged, so the change will never be released; bump it to 1.0.1 (patch)",
+    ]);
+  });
+
+  it("exits with 1 when linting finds errors", async () => {
+    writeGallery();
+
+    const code = await main(["lint", "--extension-name", "missing"], {
+      EXTENSIONS_DIR: path.join(dir, "extensions"),
+      GITHUB_WORKSPACE: dir,
+    });
+
+    expect(code).toBe(1);
+    expect(stdout).toContain("::error file=extensions/missing/manifest.json,title=manifest.json::manifest.json not found");
+  });
+});
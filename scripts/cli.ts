@@ -0,0 +1,1021 @@
+#!/usr/bin/env node
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+
+import { appendSummary, setOutput } from "./env";
+import { GalleryOutput } from "./types";
+import { releaseChannel } from "./generate-gallery-lib";
+import { resolveCompatible } from "./compat-lib";
+import { LANGUAGE_NAMES, releaseSegments } from "./requirements";
+import {
+  checkExtensionBump,
+  CommandError,
+  detectExtensionChanges,
+  generateGallery,
+  inspectTarball,
+  lintExtension,
+  mirrorExtensions,
+  planExtensionRelease,
+  prepareReleaseNotes,
+  renderGallerySite,
+  suggestEnvironment,
+} from "./commands";
+import {
+  describeDiff,
+  formatCommitMessage,
+  formatDiffMarkdown,
+} from "./diff-gallery";
+import {
+  DEFAULT_MAX_SIZE,
+  formatSize,
+  packageExtension,
+  parseSize,
+} from "./package-lib";
+import { verifyGallery } from "./verify-lib";
+import { formatAuditMarkdown } from "./audit-lib";
+import {
+  formatAnnotation,
+  formatWorkflowCommand,
+  hasErrors,
+} from "./validate-manifest";
+
+export type FlagValues = Record<string, string | boolean | undefined>;
+
+interface Flag {
+  type: "string" | "boolean";
+  /** Environment variable read when the flag is not given. */
+  env?: string;
+  description: string;
+}
+
+interface Command {
+  description: string;
+  flags: Record<string, Flag>;
+  /** Flags that must be set, either on the command line or through `env`. */
+  required: string[];
+  run(flags: FlagValues, env: NodeJS.ProcessEnv): Promise<number>;
+}
+
+/** A command line that cannot be run; reported together with the usage. */
+export class UsageError extends Error {}
+
+const SUMMARY_ICONS = { release: "🚀", skip: "😴", error: "❌" };
+
+// Written to stdout instead of a file, in which case everything else is
+// logged to stderr
+const STDOUT = "-";
+
+const EXTENSION_FLAGS: Record<string, Flag> = {
+  "extensions-dir": {
+    type: "string",
+    env: "EXTENSIONS_DIR",
+    description: "Directory containing one directory per extension",
+  },
+  "extension-name": {
+    type: "string",
+    env: "EXTENSION_NAME",
+    description: "Name of the extension's directory",
+  },
+};
+
+const GITHUB_FLAGS: Record<string, Flag> = {
+  repo: {
+    type: "string",
+    env: "GITHUB_REPOSITORY",
+    description: "Repository to read releases from, as owner/name",
+  },
+  "api-url": {
+    type: "string",
+    env: "GITHUB_API_URL",
+    description: "GitHub REST API URL, for GitHub Enterprise Server",
+  },
+};
+
+const MIRROR_FLAGS: Record<string, Flag> = {
+  "releases-dir": {
+    type: "string",
+    env: "RELEASES_DIR",
+    description: "Read releases from this mirror directory instead of GitHub",
+  },
+  "release-url-template": {
+    type: "string",
+    env: "RELEASE_URL_TEMPLATE",
+    description: "Download URL of mirrored releases, e.g. https://host/{name}/{version}/{file}",
+  },
+};
+
+const DRY_RUN_FLAG: Flag = {
+  type: "boolean",
+  description: "Report what would be written without writing anything",
+};
+
+// Tokens are only read from the environment, so they never end up in shell
+// history or process listings
+function token(env: NodeJS.ProcessEnv): string | undefined {
+  return env.GH_TOKEN || env.GITHUB_TOKEN;
+}
+
+function workspace(env: NodeJS.ProcessEnv): string {
+  return env.GITHUB_WORKSPACE || process.cwd();
+}
+
+// Comma-separated values, where an empty value is an empty list
+function list(value: string | boolean | undefined): string[] | undefined {
+  if (typeof value !== "string") return undefined;
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+export const COMMANDS: Record<string, Command> = {
+  lint: {
+    description: "Check an extension's manifest.json",
+    flags: {
+      ...EXTENSION_FLAGS,
+      "gallery-config": {
+        type: "string",
+        env: "GALLERY_CONFIG",
+        description: "gallery.json to check the category against",
+      },
+    },
+    required: ["extensions-dir", "extension-name"],
+    async run(flags, env) {
+      const name = flags["extension-name"] as string;
+      const result = lintExtension({
+        extensionsDir: flags["extensions-dir"] as string,
+        extensionName: name,
+        galleryConfig: flags["gallery-config"] as string,
+      });
+
+      // Annotations need a path relative to the repository root to link to
+      // the file
+      const annotationPath = path.relative(workspace(env), result.manifestPath);
+      for (const issue of result.issues) {
+        console.log(formatAnnotation(issue, annotationPath));
+      }
+
+      const errorCount = result.issues.filter((i) => i.severity === "error").length;
+      const warningCount = result.issues.length - errorCount;
+      console.log(
+        `Linted ${name}: ${errorCount} error(s), ${warningCount} warning(s)`
+      );
+      return hasErrors(result.issues) ? 1 : 0;
+    },
+  },
+
+  "suggest-environment": {
+    description: "Infer an extension's environment section from its bundle files",
+    flags: {
+      ...EXTENSION_FLAGS,
+      output: {
+        type: "string",
+        description: "Also write the suggested environment as JSON to this file, or - for stdout",
+      },
+    },
+    required: ["extensions-dir", "extension-name"],
+    async run(flags) {
+      const name = flags["extension-name"] as string;
+      const outputPath = flags.output as string | undefined;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const { languages, suggested } = suggestEnvironment({
+        extensionsDir: flags["extensions-dir"] as string,
+        extensionName: name,
+      });
+
+      if (Object.keys(languages).length === 0) {
+        log(`${name}: no Python, R or Quarto files found`);
+      }
+      for (const [language, evidence] of Object.entries(languages)) {
+        log(`${language}: ${suggested[language]?.requires ?? "no version recorded"}`);
+        log(`  used by ${evidence.files.join(", ")}`);
+        for (const { version, source } of evidence.recorded) {
+          log(`  ${version} recorded in ${source}`);
+        }
+      }
+
+      if (outputPath === STDOUT) {
+        process.stdout.write(JSON.stringify(suggested, null, 2) + "\n");
+      } else if (outputPath) {
+        fs.writeFileSync(outputPath, JSON.stringify(suggested, null, 2) + "\n");
+      }
+      return 0;
+    },
+  },
+
+  "detect-changes": {
+    description: "List the extensions that changed or have an unreleased version, as a build matrix",
+    flags: {
+      "extensions-dir": EXTENSION_FLAGS["extensions-dir"],
+      base: {
+        type: "string",
+        env: "BASE_REF",
+        description: "Git ref to diff against (every extension counts as changed when omitted)",
+      },
+      "check-releases": {
+        type: "boolean",
+        env: "CHECK_RELEASES",
+        description: "Also list extensions whose manifest version has not been released",
+      },
+      ...GITHUB_FLAGS,
+      ...MIRROR_FLAGS,
+      output: {
+        type: "string",
+        description: "Also write the changes as JSON to this file, or - for stdout",
+      },
+    },
+    required: ["extensions-dir"],
+    async run(flags, env) {
+      const outputPath = flags.output as string | undefined;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const checkReleases = flags["check-releases"] === true;
+      if (checkReleases && !flags["releases-dir"] && !flags.repo) {
+        throw new UsageError(
+          "--check-releases needs --repo, GITHUB_REPOSITORY or --releases-dir"
+        );
+      }
+
+      const result = await detectExtensionChanges({
+        extensionsDir: flags["extensions-dir"] as string,
+        base: flags.base as string,
+        checkReleases,
+        repo: flags.repo as string,
+        token: token(env),
+        apiUrl: flags["api-url"] as string,
+        releasesDir: flags["releases-dir"] as string,
+        releaseUrlTemplate: flags["release-url-template"] as string,
+      });
+
+      for (const change of result.changes) {
+        const reasons = [
+          result.base === null
+            ? "no base ref"
+            : change.files.length > 0
+              ? `${change.files.length} file(s) changed since ${result.base}`
+              : "",
+          change.unreleased
+            ? `version ${change.unreleased.version} is not released (latest: ${change.unreleased.latestVersion ?? "none"})`
+            : "",
+        ].filter(Boolean);
+        log(`${change.extension}: ${reasons.join("; ")}`);
+      }
+      log(`${result.changes.length} extension(s) to build`);
+
+      setOutput("matrix", JSON.stringify(result.matrix));
+      setOutput("extensions", JSON.stringify(result.matrix.extension));
+      setOutput("has-changes", String(result.changes.length > 0));
+
+      if (outputPath === STDOUT) {
+        process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+      } else if (outputPath) {
+        fs.writeFileSync(outputPath, JSON.stringify(result, null, 2) + "\n");
+      }
+      return 0;
+    },
+  },
+
+  "check-bump": {
+    description: "Check that a changed extension's manifest version was bumped",
+    flags: {
+      ...EXTENSION_FLAGS,
+      base: {
+        type: "string",
+        env: "BASE_REF",
+        description: "Git ref to compare against, e.g. the pull request base",
+      },
+      "check-releases": {
+        type: "boolean",
+        env: "CHECK_RELEASES",
+        description: "Also compare against the latest release",
+      },
+      "warn-only": {
+        type: "boolean",
+        env: "WARN_ONLY",
+        description: "Report a missing bump as a warning instead of failing",
+      },
+      ...GITHUB_FLAGS,
+      ...MIRROR_FLAGS,
+      output: {
+        type: "string",
+        description: "Also write the result as JSON to this file, or - for stdout",
+      },
+    },
+    required: ["extensions-dir", "extension-name", "base"],
+    async run(flags, env) {
+      const name = flags["extension-name"] as string;
+      const outputPath = flags.output as string | undefined;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const checkReleases = flags["check-releases"] === true;
+      if (checkReleases && !flags["releases-dir"] && !flags.repo) {
+        throw new UsageError(
+          "--check-releases needs --repo, GITHUB_REPOSITORY or --releases-dir"
+        );
+      }
+
+      const extensionsDir = flags["extensions-dir"] as string;
+      const result = await checkExtensionBump({
+        extensionsDir,
+        extensionName: name,
+        base: flags.base as string,
+        checkReleases,
+        warnOnly: flags["warn-only"] === true,
+        repo: flags.repo as string,
+        token: token(env),
+        apiUrl: flags["api-url"] as string,
+        releasesDir: flags["releases-dir"] as string,
+        releaseUrlTemplate: flags["release-url-template"] as string,
+      });
+
+      log(
+        `${name}: ${result.files.length} shipped file(s) changed since ${flags.base}`
+      );
+      log(
+        `  version ${result.version} (base: ${result.baseVersion ?? "none"}, released: ${result.latestVersion ?? (checkReleases ? "none" : "not checked")})`
+      );
+      for (const change of result.changes) {
+        log(`  ${change.field} ${change.description} (${change.level})`);
+      }
+      if (result.suggested) {
+        log(
+          `  suggested: ${result.suggested} bump${result.suggestedVersion ? ` to ${result.suggestedVersion}` : ""}`
+        );
+      }
+      const annotationPath = path.relative(
+        workspace(env),
+        path.join(extensionsDir, name, "manifest.json")
+      );
+      for (const issue of result.issues) {
+        log(formatAnnotation(issue, annotationPath));
+      }
+
+      setOutput("suggested-bump", result.suggested ?? "");
+      setOutput("suggested-version", result.suggestedVersion ?? "");
+      if (result.issues.length > 0) {
+        appendSummary(
+          [
+            `# Version bump: ${name}`,
+            "",
+            ...result.issues.map(
+              (i) => `- ${i.severity === "error" ? "❌" : "⚠️"} ${i.message}`
+            ),
+          ].join("\n")
+        );
+      }
+
+      if (outputPath === STDOUT) {
+        process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+      } else if (outputPath) {
+        fs.writeFileSync(outputPath, JSON.stringify(result, null, 2) + "\n");
+      }
+      return hasErrors(result.issues) ? 1 : 0;
+    },
+  },
+
+  "plan-release": {
+    description: "Decide whether an extension's manifest version should be released",
+    flags: { ...EXTENSION_FLAGS, ...GITHUB_FLAGS },
+    required: ["extensions-dir", "extension-name", "repo"],
+    async run(flags, env) {
+      const name = flags["extension-name"] as string;
+      const plan = await planExtensionRelease({
+        extensionsDir: flags["extensions-dir"] as string,
+        extensionName: name,
+        repo: flags.repo as string,
+        token: token(env),
+        apiUrl: flags["api-url"] as string,
+      });
+
+      console.log(plan.reason);
+      appendSummary(
+        [
+          `# Extension: ${name}`,
+          "",
+          `The manifest version is '${plan.version}' and the released version is '${plan.latestVersion ?? "none"}'`,
+          "",
+          `${SUMMARY_ICONS[plan.action]} ${plan.reason}`,
+        ].join("\n")
+      );
+
+      setOutput("should_release", String(plan.action === "release"));
+      setOutput("version", plan.version);
+      setOutput("latest_version", plan.latestVersion ?? "");
+      setOutput("tag", plan.tag);
+      setOutput("prerelease", String(releaseChannel(plan.version) !== null));
+
+      if (plan.action === "error") {
+        console.log(formatWorkflowCommand("error", plan.reason, { title: name }));
+        return 1;
+      }
+      return 0;
+    },
+  },
+
+  package: {
+    description: "Package an extension directory into a reproducible tarball",
+    flags: {
+      "source-dir": {
+        type: "string",
+        env: "SOURCE_DIR",
+        description: "Directory to package",
+      },
+      output: {
+        type: "string",
+        env: "TARBALL",
+        description: "Tarball to write, or - for stdout",
+      },
+      "max-size": {
+        type: "string",
+        env: "MAX_SIZE",
+        description: "Largest allowed tarball, e.g. 50MB (default 100MB)",
+      },
+      "dry-run": DRY_RUN_FLAG,
+    },
+    required: ["source-dir", "output"],
+    async run(flags, env) {
+      const output = flags.output as string;
+      const log = output === STDOUT ? console.error : console.log;
+
+      let result: ReturnType<typeof packageExtension>;
+      try {
+        result = packageExtension(flags["source-dir"] as string, {
+          maxSize: flags["max-size"]
+            ? parseSize(flags["max-size"] as string)
+            : DEFAULT_MAX_SIZE,
+          // Honors the reproducible-builds convention when set
+          mtime: env.SOURCE_DATE_EPOCH ? Number(env.SOURCE_DATE_EPOCH) : 0,
+        });
+      } catch (err) {
+        log(formatWorkflowCommand("error", (err as Error).message));
+        return 1;
+      }
+
+      log(`Packaged ${result.files.length} files from ${result.root}:`);
+      for (const file of result.files) {
+        log(`  ${formatSize(file.size).padStart(10)}  ${file.path}`);
+      }
+
+      const size = formatSize(result.archive.length);
+      if (flags["dry-run"]) {
+        log(`Dry run: would write ${output === STDOUT ? "stdout" : output} (${size})`);
+      } else if (output === STDOUT) {
+        process.stdout.write(result.archive);
+      } else {
+        fs.writeFileSync(output, result.archive);
+        log(`Wrote ${output} (${size})`);
+      }
+      return 0;
+    },
+  },
+
+  inspect: {
+    description: "Check a packaged tarball against the manifest it was built from",
+    flags: {
+      tarball: {
+        type: "string",
+        env: "TARBALL",
+        description: "Tarball to inspect",
+      },
+      ...EXTENSION_FLAGS,
+      tag: {
+        type: "string",
+        env: "RELEASE_TAG",
+        description: "Tag the tarball is released under, e.g. my-ext@v1.2.0",
+      },
+    },
+    required: ["tarball", "extensions-dir", "extension-name"],
+    async run(flags) {
+      const tarball = flags.tarball as string;
+      const tag = flags.tag as string | undefined;
+      const { files, issues } = inspectTarball({
+        tarball,
+        extensionsDir: flags["extensions-dir"] as string,
+        extensionName: flags["extension-name"] as string,
+        tag,
+      });
+
+      console.log(`${path.basename(tarball)} contains ${files.length} files:`);
+      for (const file of files) {
+        console.log(`  ${formatSize(file.data.length).padStart(10)}  ${file.path}`);
+      }
+      for (const issue of issues) {
+        console.log(formatAnnotation({ ...issue, path: issue.path || path.basename(tarball) }));
+      }
+
+      const errors = issues.filter((i) => i.severity === "error");
+      appendSummary(
+        [
+          `# Tarball: ${path.basename(tarball)}`,
+          "",
+          errors.length === 0
+            ? `✅ Contains ${files.length} files and matches the source manifest${tag ? ` and tag '${tag}'` : ""}`
+            : ["❌ The tarball cannot be released:", "", ...errors.map((i) => `- ${i.message}`)].join("\n"),
+        ].join("\n")
+      );
+      return hasErrors(issues) ? 1 : 0;
+    },
+  },
+
+  "release-notes": {
+    description: "Write the release body of an extension's manifest version",
+    flags: {
+      tarball: {
+        type: "string",
+        env: "TARBALL",
+        description: "Tarball about to be released",
+      },
+      ...EXTENSION_FLAGS,
+      output: {
+        type: "string",
+        env: "RELEASE_NOTES_FILE",
+        description: "File to write the release body to, or - for stdout",
+      },
+      "assets-dir": {
+        type: "string",
+        env: "RELEASE_ASSETS_DIR",
+        description: "Copy the icon and screenshots here to attach them to the release",
+      },
+    },
+    required: ["tarball", "extensions-dir", "extension-name", "output"],
+    async run(flags, env) {
+      const outputPath = flags.output as string;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const { body, assets } = prepareReleaseNotes({
+        tarball: flags.tarball as string,
+        extensionsDir: flags["extensions-dir"] as string,
+        extensionName: flags["extension-name"] as string,
+        assetsDir: flags["assets-dir"] as string,
+        workspace: workspace(env),
+        log,
+      });
+
+      for (const file of assets) {
+        log(`Staged ${path.basename(file)} for the release`);
+      }
+      if (outputPath === STDOUT) {
+        process.stdout.write(body);
+      } else {
+        fs.writeFileSync(outputPath, body);
+        log(body);
+      }
+      return 0;
+    },
+  },
+
+  generate: {
+    description: "Generate extensions.json from manifests and releases",
+    flags: {
+      "extensions-dir": EXTENSION_FLAGS["extensions-dir"],
+      "gallery-config": {
+        type: "string",
+        env: "GALLERY_CONFIG",
+        description: "gallery.json with categories and sources",
+      },
+      output: {
+        type: "string",
+        env: "EXTENSIONS_JSON",
+        description: "extensions.json to update, or - for stdout",
+      },
+      ...GITHUB_FLAGS,
+      ...MIRROR_FLAGS,
+      cache: {
+        type: "string",
+        env: "GITHUB_RELEASES_CACHE",
+        description: "File to cache GitHub API responses in between runs",
+      },
+      "diff-file": {
+        type: "string",
+        env: "GALLERY_DIFF_JSON",
+        description: "Write the changes to extensions.json to this file as JSON",
+      },
+      "audit-file": {
+        type: "string",
+        env: "GALLERY_AUDIT_JSON",
+        description: "Write the releases and extensions that were left out to this file as JSON",
+      },
+      "dry-run": DRY_RUN_FLAG,
+    },
+    required: ["extensions-dir", "gallery-config", "output"],
+    async run(flags, env) {
+      const outputPath = flags.output as string;
+      const toStdout = outputPath === STDOUT;
+      const dryRun = flags["dry-run"] === true;
+      const log = toStdout ? console.error : console.log;
+
+      if (!flags["releases-dir"] && !flags.repo) {
+        throw new UsageError(
+          "--repo or GITHUB_REPOSITORY is required unless --releases-dir is set"
+        );
+      }
+
+      const result = await generateGallery({
+        extensionsDir: flags["extensions-dir"] as string,
+        galleryConfig: flags["gallery-config"] as string,
+        previous:
+          !toStdout && fs.existsSync(outputPath)
+            ? fs.readFileSync(outputPath, "utf8")
+            : null,
+        repo: flags.repo as string,
+        token: token(env),
+        apiUrl: flags["api-url"] as string,
+        releasesDir: flags["releases-dir"] as string,
+        releaseUrlTemplate: flags["release-url-template"] as string,
+        cachePath: flags.cache as string,
+        workspace: workspace(env),
+        log,
+      });
+      const { output, text, diff, audit } = result;
+
+      if (!dryRun) {
+        appendSummary(formatDiffMarkdown(diff));
+        appendSummary(formatAuditMarkdown(audit));
+      }
+      if (flags["diff-file"] && !dryRun) {
+        fs.writeFileSync(
+          flags["diff-file"] as string,
+          JSON.stringify(diff, null, 2) + "\n"
+        );
+      }
+      if (flags["audit-file"] && !dryRun) {
+        fs.writeFileSync(
+          flags["audit-file"] as string,
+          JSON.stringify(audit, null, 2) + "\n"
+        );
+      }
+      if (audit.diagnostics.length > 0) {
+        log(
+          `Audit: ${audit.skippedReleases} release(s) and ${audit.skippedExtensions} extension(s) left out, ${audit.diagnostics.length} finding(s) in total`
+        );
+      }
+
+      if (toStdout) {
+        if (!dryRun) process.stdout.write(text);
+        return 0;
+      }
+
+      if (!result.changed) {
+        if (!dryRun) setOutput("has-updates", "false");
+        log("extensions.json is already up to date");
+        return 0;
+      }
+
+      if (dryRun) {
+        log(`Dry run: would update ${outputPath}`);
+      } else {
+        fs.writeFileSync(outputPath, text);
+        setOutput("has-updates", "true");
+        setOutput("commit-message", formatCommitMessage(diff));
+      }
+
+      log(
+        `Generated extensions.json with ${output.extensions.length} extensions and ${output.extensions.reduce((sum, e) => sum + e.versions.length, 0)} total versions`
+      );
+      for (const line of describeDiff(diff)) {
+        log(`  ${line.replace(/`/g, "")}`);
+      }
+      return 0;
+    },
+  },
+
+  "render-site": {
+    description: "Render extensions.json as a static HTML site",
+    flags: {
+      "extensions-json": {
+        type: "string",
+        env: "EXTENSIONS_JSON",
+        description: "extensions.json to render",
+      },
+      "site-dir": {
+        type: "string",
+        env: "SITE_DIR",
+        description: "Directory to write the pages to",
+      },
+      title: {
+        type: "string",
+        env: "SITE_TITLE",
+        description: "Title of the site (default Extension Gallery)",
+      },
+    },
+    required: ["extensions-json", "site-dir"],
+    async run(flags) {
+      const siteDir = flags["site-dir"] as string;
+      const files = await renderGallerySite({
+        extensionsJson: flags["extensions-json"] as string,
+        siteDir,
+        title: flags.title as string,
+      });
+
+      console.log(`Rendered ${files.length} files to ${siteDir}`);
+      return 0;
+    },
+  },
+
+  mirror: {
+    description: "Download the releases in extensions.json into a mirror directory",
+    flags: {
+      "extensions-json": {
+        type: "string",
+        env: "EXTENSIONS_JSON",
+        description: "extensions.json whose releases are mirrored",
+      },
+      "mirror-dir": {
+        type: "string",
+        env: "MIRROR_DIR",
+        description: "Directory to download the releases into",
+      },
+      "release-url-template": MIRROR_FLAGS["release-url-template"],
+      output: {
+        type: "string",
+        env: "MIRROR_EXTENSIONS_JSON",
+        description: "Write the rewritten extensions.json here, or - for stdout (default: update --extensions-json)",
+      },
+    },
+    required: ["extensions-json", "mirror-dir", "release-url-template"],
+    async run(flags) {
+      const outputPath = (flags.output ?? flags["extensions-json"]) as string;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const mirrorDir = flags["mirror-dir"] as string;
+      const mirrored = await mirrorExtensions({
+        extensionsJson: flags["extensions-json"] as string,
+        mirrorDir,
+        releaseUrlTemplate: flags["release-url-template"] as string,
+      });
+
+      const text = JSON.stringify(mirrored, null, 2) + "\n";
+      if (outputPath === STDOUT) {
+        process.stdout.write(text);
+      } else {
+        fs.writeFileSync(outputPath, text);
+      }
+      log(
+        `Mirrored ${mirrored.extensions.reduce((sum, e) => sum + e.versions.length, 0)} versions of ${mirrored.extensions.length} extensions into ${mirrorDir}`
+      );
+      return 0;
+    },
+  },
+
+  verify: {
+    description: "Check released tarballs against the digests in extensions.json",
+    flags: {
+      "extensions-json": {
+        type: "string",
+        env: "EXTENSIONS_JSON",
+        description: "extensions.json to verify",
+      },
+      "mirror-dir": {
+        type: "string",
+        env: "MIRROR_DIR",
+        description: "Read tarballs from this mirror instead of downloading them",
+      },
+    },
+    required: ["extensions-json"],
+    async run(flags) {
+      const output: GalleryOutput = JSON.parse(
+        fs.readFileSync(flags["extensions-json"] as string, "utf8")
+      );
+
+      const results = await verifyGallery(output, {
+        mirrorDir: flags["mirror-dir"] as string,
+      });
+
+      for (const r of results) {
+        const label = `${r.extension}@v${r.version}`;
+        if (r.status === "ok") {
+          console.log(`${label}: ok`);
+        } else if (r.status === "unverified") {
+          console.log(formatWorkflowCommand("warning", r.message, { title: label }));
+        } else {
+          console.log(formatWorkflowCommand("error", r.message, { title: label }));
+        }
+      }
+
+      const failed = results.filter(
+        (r) => r.status === "mismatch" || r.status === "missing"
+      );
+      console.log(
+        `Verified ${results.length} versions: ${results.length - failed.length} passed, ${failed.length} failed`
+      );
+      return failed.length > 0 ? 1 : 0;
+    },
+  },
+
+  compat: {
+    description: "Show the newest version of each extension a Connect server can install",
+    flags: {
+      "extensions-json": {
+        type: "string",
+        env: "EXTENSIONS_JSON",
+        description: "extensions.json to check",
+      },
+      "connect-version": {
+        type: "string",
+        description: "Version of the Connect server, e.g. 2025.04.0",
+      },
+      features: {
+        type: "string",
+        description: "Comma-separated features enabled on the server (not checked when omitted)",
+      },
+      python: {
+        type: "string",
+        description: "Comma-separated installed Python versions (not checked when omitted)",
+      },
+      r: {
+        type: "string",
+        description: "Comma-separated installed R versions (not checked when omitted)",
+      },
+      quarto: {
+        type: "string",
+        description: "Comma-separated installed Quarto versions (not checked when omitted)",
+      },
+      prereleases: {
+        type: "boolean",
+        description: "Consider prerelease versions too",
+      },
+      output: {
+        type: "string",
+        description: "Also write the results as JSON to this file, or - for stdout",
+      },
+    },
+    required: ["extensions-json", "connect-version"],
+    async run(flags) {
+      const connectVersion = flags["connect-version"] as string;
+      if (!releaseSegments(connectVersion)) {
+        throw new UsageError(`'${connectVersion}' is not a valid Connect version`);
+      }
+      const installed = {
+        python: list(flags.python),
+        r: list(flags.r),
+        quarto: list(flags.quarto),
+      };
+      for (const [language, name] of Object.entries(LANGUAGE_NAMES)) {
+        for (const version of installed[language] || []) {
+          if (!releaseSegments(version)) {
+            throw new UsageError(`'${version}' is not a valid ${name} version`);
+          }
+        }
+      }
+      const outputPath = flags.output as string | undefined;
+      const log = outputPath === STDOUT ? console.error : console.log;
+      const gallery: GalleryOutput = JSON.parse(
+        fs.readFileSync(flags["extensions-json"] as string, "utf8")
+      );
+
+      const results = resolveCompatible(
+        gallery,
+        {
+          connectVersion,
+          features: list(flags.features),
+          ...installed,
+        },
+        { prereleases: flags.prereleases === true }
+      );
+
+      for (const result of results) {
+        log(`${result.extension}: ${result.installable ?? "no compatible version"}`);
+        for (const excluded of result.excluded) {
+          log(`  ${excluded.version} ${excluded.reasons.join("; ")}`);
+        }
+      }
+      const installable = results.filter((r) => r.installable !== null).length;
+      log(`${installable} of ${results.length} extensions can be installed`);
+
+      if (outputPath === STDOUT) {
+        process.stdout.write(JSON.stringify(results, null, 2) + "\n");
+      } else if (outputPath) {
+        fs.writeFileSync(outputPath, JSON.stringify(results, null, 2) + "\n");
+      }
+      return 0;
+    },
+  },
+};
+
+/**
+ * Usage of a single command, or of the whole CLI when `name` is omitted.
+ */
+export function formatUsage(name?: string): string {
+  const command = name ? COMMANDS[name] : undefined;
+  if (!command) {
+    const width = Math.max(...Object.keys(COMMANDS).map((n) => n.length));
+    return [
+      "Usage: connect-gallery <command> [options]",
+      "",
+      "Commands:",
+      ...Object.entries(COMMANDS).map(
+        ([n, c]) => `  ${n.padEnd(width)}  ${c.description}`
+      ),
+      "",
+      "Run connect-gallery <command> --help for the options of a command.",
+    ].join("\n");
+  }
+
+  const flags = Object.entries(command.flags).map(([flag, spec]) => [
+    `--${flag}${spec.type === "string" ? " <value>" : ""}`,
+    [
+      spec.description,
+      spec.env ? `[env: ${spec.env}]` : "",
+      command.required.includes(flag) ? "(required)" : "",
+    ]
+      .filter(Boolean)
+      .join(" "),
+  ]);
+  const width = Math.max(...flags.map(([f]) => f.length));
+  return [
+    `Usage: connect-gallery ${name} [options]`,
+    "",
+    command.description,
+    "",
+    "Options:",
+    ...flags.map(([f, d]) => `  ${f.padEnd(width)}  ${d}`),
+  ].join("\n");
+}
+
+/**
+ * Parse `argv` (without the node and script paths) into a command and its
+ * flags. Flags that are not given fall back to their environment variable, so
+ * the CLI can be configured entirely through the environment in workflows.
+ * Returns the command `help` when help was asked for.
+ */
+export function parseCommandLine(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): { command: string; flags: FlagValues } {
+  const [name, ...args] = argv;
+  if (name === undefined || name === "help" || name === "--help" || name === "-h") {
+    return { command: "help", flags: {} };
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    throw new UsageError(`Unknown command '${name}'`);
+  }
+
+  let values: FlagValues;
+  try {
+    values = parseArgs({
+      args,
+      options: {
+        ...Object.fromEntries(
+          Object.entries(command.flags).map(([flag, spec]) => [flag, { type: spec.type }])
+        ),
+        help: { type: "boolean", short: "h" },
+      },
+    }).values;
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+  if (values.help) {
+    return { command: "help", flags: { command: name } };
+  }
+
+  const flags: FlagValues = {};
+  for (const [flag, spec] of Object.entries(command.flags)) {
+    // Empty variables count as unset, since workflows pass optional inputs
+    // through as empty strings
+    const fromEnv = spec.env ? env[spec.env] || undefined : undefined;
+    flags[flag] =
+      values[flag] ??
+      (spec.type === "boolean" && fromEnv !== undefined
+        ? fromEnv === "true"
+        : fromEnv);
+  }
+
+  for (const flag of command.required) {
+    if (flags[flag] === undefined) {
+      const env = command.flags[flag].env;
+      throw new UsageError(`--${flag}${env ? ` or ${env}` : ""} is required`);
+    }
+  }
+
+  return { command: name, flags };
+}
+
+/**
+ * Run the CLI and resolve to its exit code.
+ */
+export async function main(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  let usageFor: string | undefined;
+  try {
+    const { command, flags } = parseCommandLine(argv, env);
+    if (command === "help") {
+      console.log(formatUsage(flags.command as string));
+      return 0;
+    }
+    usageFor = command;
+    return await COMMANDS[command].run(flags, env);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`${err.message}\n\n${formatUsage(usageFor ?? argv[0])}`);
+      return 2;
+    }
+    console.error(err instanceof CommandError ? err.message : err);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
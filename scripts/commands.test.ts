@@ -0,0 +1,713 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { ExtensionManifest, GalleryConfig } from "./types";
+import {
+  checkExtensionBump,
+  CommandError,
+  detectExtensionChanges,
+  generateGallery,
+  inspectTarball,
+  lintExtension,
+  mirrorExtensions,
+  planExtensionRelease,
+  prepareReleaseNotes,
+  renderGallerySite,
+  suggestEnvironment,
+} from "./commands";
+import { packageExtension } from "./package-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+const TEMPLATE = "https://mirror.internal/{name}/{version}/{file}";
+
+let dir: string;
+let lines: string[];
+const log = (line: string) => lines.push(line);
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "commands-"));
+  lines = [];
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeManifest(name: string, overrides: Partial<ExtensionManifest["extension"]> = {}): ExtensionManifest {
+  return {
+    extension: {
+      name,
+      title: name,
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      category: "extension",
+      tags: [],
+      ...overrides,
+    },
+  };
+}
+
+function writeJson(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value));
+}
+
+function writeExtension(dirName: string, manifest: ExtensionManifest = makeManifest(dirName)) {
+  writeJson(path.join(dir, "extensions", dirName, "manifest.json"), manifest);
+}
+
+function writeConfig(overrides: Partial<GalleryConfig> = {}) {
+  writeJson(path.join(dir, "gallery.json"), {
+    categories: [{ id: "extension", title: "Extensions", description: "Extensions" }],
+    ...overrides,
+  });
+}
+
+function writeMirroredVersion(name: string, version: string) {
+  const versionDir = path.join(dir, "mirror", name, version);
+  fs.mkdirSync(versionDir, { recursive: true });
+  fs.writeFileSync(path.join(versionDir, `${name}.tar.gz`), "tarball");
+  writeJson(path.join(versionDir, "metadata.json"), {
+    released: "2024-06-01T00:00:00Z",
+    minimumConnectVersion: "2025.04.0",
+  });
+}
+
+// Generates from GitHub releases, serving `feed` to gallery sources
+function generateFromGitHub(feed: unknown) {
+  const asset = { name: "my-ext.tar.gz", browser_download_url: "https://example.com/my-ext.tar.gz" };
+  const fakeFetch = (async (url: string) =>
+    url === "https://example.com/extensions.json"
+      ? Response.json(feed)
+      : Response.json([
+          { tag_name: "my-ext@v1.0.0", published_at: "2024-06-01T00:00:00Z", assets: [asset], body: "" },
+        ])) as typeof fetch;
+  return generateGallery({
+    extensionsDir: path.join(dir, "extensions"),
+    galleryConfig: path.join(dir, "gallery.json"),
+    repo: "org/repo",
+    fetch: fakeFetch,
+    workspace: dir,
+    log,
+  });
+}
+
+// An extension as another gallery publishes it
+async function feedExtension() {
+  const other = fs.mkdtempSync(path.join(os.tmpdir(), "commands-feed-"));
+  try {
+    writeJson(path.join(other, "extensions", "other-ext", "manifest.json"), makeManifest("other-ext"));
+    writeJson(path.join(other, "gallery.json"), {
+      categories: [{ id: "extension", title: "Extensions", description: "Extensions" }],
+    });
+    const versionDir = path.join(other, "mirror", "other-ext", "1.0.0");
+    fs.mkdirSync(versionDir, { recursive: true });
+    fs.writeFileSync(path.join(versionDir, "other-ext.tar.gz"), "tarball");
+    const result = await generateGallery({
+      extensionsDir: path.join(other, "extensions"),
+      galleryConfig: path.join(other, "gallery.json"),
+      releasesDir: path.join(other, "mirror"),
+      releaseUrlTemplate: TEMPLATE,
+      workspace: other,
+      log: () => {},
+    });
+    return result.output.extensions[0];
+  } finally {
+    fs.rmSync(other, { recursive: true, force: true });
+  }
+}
+
+function generate(previous: string | null = null) {
+  return generateGallery({
+    extensionsDir: path.join(dir, "extensions"),
+    galleryConfig: path.join(dir, "gallery.json"),
+    releasesDir: path.join(dir, "mirror"),
+    releaseUrlTemplate: TEMPLATE,
+    previous,
+    workspace: dir,
+    log,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// lintExtension
+// ---------------------------------------------------------------------------
+
+describe("lintExtension", () => {
+  it("validates the manifest against the gallery config", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { category: "unknown" }));
+    writeConfig();
+
+    const result = lintExtension({
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      galleryConfig: path.join(dir, "gallery.json"),
+      log,
+    });
+
+    expect(result.manifestPath).toBe(path.join(dir, "extensions", "my-ext", "manifest.json"));
+    expect(result.issues.map((i) => i.path)).toEqual(["extension.category"]);
+    expect(lines).toEqual([]);
+  });
+
+  it("skips the category check without a gallery config", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { category: "unknown" }));
+
+    const result = lintExtension({ extensionsDir: path.join(dir, "extensions"), extensionName: "my-ext", log });
+
+    expect(result.issues).toEqual([]);
+    expect(lines).toEqual(["::notice::No gallery config found, skipping category check"]);
+  });
+
+  it("cross-checks the environment against the bundle files", () => {
+    writeExtension("my-ext", {
+      ...makeManifest("my-ext"),
+      environment: { python: { requires: ">=3.12" } },
+      python: { version: "3.11.4" },
+    } as ExtensionManifest);
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "renv.lock"), JSON.stringify({ R: { Version: "4.3.1" } }));
+    writeConfig();
+
+    const result = lintExtension({
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      galleryConfig: path.join(dir, "gallery.json"),
+      log,
+    });
+
+    expect(result.issues).toEqual([
+      {
+        path: "environment.python.requires",
+        message: "'>=3.12' excludes Python 3.11.4, recorded in manifest.json python.version",
+        severity: "warning",
+      },
+      {
+        path: "environment.r",
+        message: "R is used (renv.lock) but environment.r is not declared; suggested: ~=4.3",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("checks the media files the manifest references", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { icon: "icon.svg", readme: "README.md" }));
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "README.md"), "# My Extension\n");
+
+    const result = lintExtension({ extensionsDir: path.join(dir, "extensions"), extensionName: "my-ext", log });
+
+    expect(result.issues).toEqual([
+      { path: "extension.icon", message: "'icon.svg' does not exist in the extension directory", severity: "error" },
+    ]);
+  });
+
+  it("reports a missing or unparseable manifest as an error", () => {
+    fs.mkdirSync(path.join(dir, "extensions", "broken"), { recursive: true });
+    const options = { extensionsDir: path.join(dir, "extensions"), extensionName: "broken", log };
+
+    expect(lintExtension(options).issues).toEqual([
+      { path: "", message: "manifest.json not found", severity: "error" },
+    ]);
+
+    fs.writeFileSync(path.join(dir, "extensions", "broken", "manifest.json"), "{");
+    expect(lintExtension(options).issues[0].message).toMatch(/^manifest.json is not valid JSON: /);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// suggestEnvironment
+// ---------------------------------------------------------------------------
+
+describe("suggestEnvironment", () => {
+  it("infers the environment from the extension directory", () => {
+    writeExtension("my-ext", { ...makeManifest("my-ext"), platform: "4.2.3" } as ExtensionManifest);
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "requirements.txt"), "shiny\n");
+
+    const inference = suggestEnvironment({ extensionsDir: path.join(dir, "extensions"), extensionName: "my-ext" });
+
+    expect(inference.suggested).toEqual({ r: { requires: "~=4.2" } });
+    expect(inference.languages.python).toEqual({ files: ["requirements.txt"], recorded: [] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// planExtensionRelease
+// ---------------------------------------------------------------------------
+
+describe("planExtensionRelease", () => {
+  it("plans against the repository's releases", async () => {
+    writeExtension("my-ext", makeManifest("my-ext", { version: "1.1.0" }));
+    const requested: string[] = [];
+    const fakeFetch = (async (url: string) => {
+      requested.push(url);
+      return Response.json([
+        {
+          tag_name: "my-ext@v1.0.0",
+          published_at: "2024-06-01T00:00:00Z",
+          assets: [{ name: "my-ext.tar.gz", browser_download_url: "https://example.com/my-ext.tar.gz" }],
+          body: "",
+        },
+      ]);
+    }) as typeof fetch;
+
+    const plan = await planExtensionRelease({
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      repo: "org/repo",
+      apiUrl: "https://github.example.com/api/v3",
+      fetch: fakeFetch,
+    });
+
+    expect(requested[0]).toMatch(/^https:\/\/github\.example\.com\/api\/v3\/repos\/org\/repo\/releases/);
+    expect(plan).toMatchObject({ action: "release", version: "1.1.0", latestVersion: "1.0.0", tag: "my-ext@v1.1.0" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// detectExtensionChanges
+// ---------------------------------------------------------------------------
+
+describe("detectExtensionChanges", () => {
+  it("lists every extension without a base ref, noting unreleased versions", async () => {
+    writeExtension("released", makeManifest("released"));
+    writeExtension("bumped", makeManifest("bumped", { version: "1.1.0" }));
+    fs.mkdirSync(path.join(dir, "extensions", "not-an-extension"));
+    writeMirroredVersion("released", "1.0.0");
+    writeMirroredVersion("bumped", "1.0.0");
+
+    const result = await detectExtensionChanges({
+      extensionsDir: path.join(dir, "extensions"),
+      checkReleases: true,
+      releasesDir: path.join(dir, "mirror"),
+      releaseUrlTemplate: TEMPLATE,
+    });
+
+    expect(result).toEqual({
+      base: null,
+      changes: [
+        { extension: "bumped", files: [], unreleased: { version: "1.1.0", latestVersion: "1.0.0" } },
+        { extension: "released", files: [] },
+      ],
+      matrix: { extension: ["bumped", "released"] },
+    });
+  });
+
+  it("explains a base ref that cannot be diffed against", async () => {
+    writeExtension("my-ext");
+
+    await expect(
+      detectExtensionChanges({ extensionsDir: path.join(dir, "extensions"), base: "origin/main" })
+    ).rejects.toThrow(/^Could not diff against 'origin\/main': fatal: not a git repository.*fetch-depth: 0/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkExtensionBump
+// ---------------------------------------------------------------------------
+
+describe("checkExtensionBump", () => {
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+      cwd: dir,
+      stdio: "pipe",
+    });
+
+  beforeEach(() => {
+    writeExtension("my-ext");
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", ".connectignore"), "tests/\n");
+    git("init", "-q", "-b", "main");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Initial commit");
+    git("checkout", "-q", "-b", "feature");
+  });
+
+  const check = () =>
+    checkExtensionBump({
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      base: "main",
+      checkReleases: true,
+      releasesDir: path.join(dir, "mirror"),
+      releaseUrlTemplate: TEMPLATE,
+    });
+
+  it("fails when shipped files changed without a bump", async () => {
+    writeMirroredVersion("my-ext", "1.0.0");
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "app.py"), "print()");
+    fs.mkdirSync(path.join(dir, "extensions", "my-ext", "tests"));
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "tests", "test_app.py"), "");
+
+    const result = await check();
+
+    expect(result).toMatchObject({
+      baseVersion: "1.0.0",
+      latestVersion: "1.0.0",
+      files: ["app.py"],
+      suggested: "patch",
+      suggestedVersion: "1.0.1",
+    });
+    expect(result.issues.map((i) => i.severity)).toEqual(["error"]);
+  });
+
+  it("ignores changes that do not ship", async () => {
+    writeMirroredVersion("my-ext", "1.0.0");
+    fs.mkdirSync(path.join(dir, "extensions", "my-ext", "tests"));
+    fs.writeFileSync(path.join(dir, "extensions", "my-ext", "tests", "test_app.py"), "");
+
+    const result = await check();
+
+    expect(result).toMatchObject({ files: [], suggested: null, issues: [] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// generateGallery
+// ---------------------------------------------------------------------------
+
+describe("generateGallery", () => {
+  it("builds the gallery without writing anything", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+
+    const result = await generate();
+
+    expect(result.changed).toBe(true);
+    expect(result.output.extensions.map((e) => e.latestVersion.url)).toEqual([
+      "https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz",
+    ]);
+    expect(JSON.parse(result.text)).toEqual(result.output);
+    expect(result.diff.addedExtensions).toEqual(["my-ext"]);
+    expect(fs.readdirSync(dir).sort()).toEqual(["extensions", "gallery.json", "mirror"]);
+  });
+
+  it("audits extensions that are left out", async () => {
+    writeExtension("my-ext");
+    writeExtension("new-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+
+    const result = await generate();
+
+    expect(result.audit).toEqual({
+      skippedReleases: 0,
+      skippedExtensions: 1,
+      diagnostics: [
+        {
+          kind: "no-releases",
+          extension: "new-ext",
+          message: "The extension has no release with a semver tag and a tarball",
+          skipped: true,
+        },
+      ],
+    });
+  });
+
+  it("leaves out draft releases fetched from GitHub", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    const asset = { name: "my-ext.tar.gz", browser_download_url: "https://example.com/my-ext.tar.gz" };
+    const fakeFetch = (async () =>
+      Response.json([
+        { tag_name: "my-ext@v1.1.0", published_at: null, draft: true, assets: [asset], body: "" },
+        { tag_name: "my-ext@v1.0.0", published_at: "2024-06-01T00:00:00Z", assets: [asset], body: "" },
+      ])) as typeof fetch;
+
+    const result = await generateGallery({
+      extensionsDir: path.join(dir, "extensions"),
+      galleryConfig: path.join(dir, "gallery.json"),
+      repo: "org/repo",
+      fetch: fakeFetch,
+      workspace: dir,
+      log,
+    });
+
+    expect(result.output.extensions[0].latestVersion.version).toBe("1.0.0");
+    expect(result.output.extensions[0].versions.map((v) => v.version)).toEqual(["1.0.0"]);
+  });
+
+  it("fails without a stack trace when a federated feed breaks the output schema", async () => {
+    writeExtension("my-ext");
+    writeConfig({ sources: [{ url: "https://example.com/extensions.json" }] });
+    const feed = {
+      categories: [],
+      tags: [],
+      requiredFeatures: [],
+      extensions: [{ ...(await feedExtension()), title: 5 }],
+    };
+
+    await expect(generateFromGitHub(feed)).rejects.toThrow(
+      new CommandError("The generated extensions.json does not match schemas/extensions.schema.json.")
+    );
+    expect(lines).toContain(
+      "::error title=extensions[1].title::extensions[1].title must be of type string, not integer"
+    );
+  });
+
+  it("merges federated feeds with fields this gallery does not know", async () => {
+    writeExtension("my-ext");
+    writeConfig({ sources: [{ url: "https://example.com/extensions.json" }] });
+    const feed = {
+      schemaVersion: 2,
+      categories: [],
+      tags: [],
+      requiredFeatures: [],
+      extensions: [{ ...(await feedExtension()), rating: 5 }],
+    };
+
+    const result = await generateFromGitHub(feed);
+
+    expect(result.output.extensions.map((e) => e.name)).toEqual(["my-ext", "other-ext"]);
+    expect(result.output.extensions[1]).not.toHaveProperty("rating");
+  });
+
+  it("reports no change against an identical previous document", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+    const first = await generate();
+
+    const second = await generate(first.text);
+
+    expect(second.changed).toBe(false);
+    expect(second.diff.addedExtensions).toEqual([]);
+  });
+
+  it("logs annotations and fails on a config that does not match the schema", async () => {
+    writeConfig({ onConflict: "last" as GalleryConfig["onConflict"] });
+
+    await expect(generate()).rejects.toThrow(CommandError);
+    expect(lines).toEqual([
+      '::error file=gallery.json,title=onConflict::onConflict must be one of "error", "first", "newest"',
+    ]);
+  });
+
+  it("logs annotations against the manifest and fails on gallery errors", async () => {
+    writeExtension("my-ext", makeManifest("other"));
+    writeConfig();
+
+    await expect(generate()).rejects.toThrow("Gallery validation failed.");
+    expect(lines[0]).toMatch(/^::error file=extensions\/my-ext\/manifest\.json,/);
+  });
+
+  it("requires a repository without a mirror", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+
+    await expect(
+      generateGallery({
+        extensionsDir: path.join(dir, "extensions"),
+        galleryConfig: path.join(dir, "gallery.json"),
+        log,
+      })
+    ).rejects.toThrow("A repository is required to read releases from GitHub");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// inspectTarball
+// ---------------------------------------------------------------------------
+
+describe("inspectTarball", () => {
+  function writeTarball() {
+    writeExtension("my-ext");
+    const tarball = path.join(dir, "my-ext.tar.gz");
+    fs.writeFileSync(tarball, packageExtension(path.join(dir, "extensions", "my-ext")).archive);
+    return tarball;
+  }
+
+  it("lists the files of a tarball that matches its source", () => {
+    const inspection = inspectTarball({
+      tarball: writeTarball(),
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      tag: "my-ext@v1.0.0",
+    });
+
+    expect(inspection.files.map((f) => f.path)).toEqual(["manifest.json"]);
+    expect(inspection.issues).toEqual([]);
+  });
+
+  it("reports a tarball released under another version's tag", () => {
+    const inspection = inspectTarball({
+      tarball: writeTarball(),
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      tag: "my-ext@v2.0.0",
+    });
+
+    expect(inspection.issues.map((i) => i.severity)).toEqual(["error"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// prepareReleaseNotes
+// ---------------------------------------------------------------------------
+
+describe("prepareReleaseNotes", () => {
+  function prepare() {
+    const tarball = path.join(dir, "my-ext.tar.gz");
+    fs.writeFileSync(tarball, "tarball");
+    return prepareReleaseNotes({
+      tarball,
+      extensionsDir: path.join(dir, "extensions"),
+      extensionName: "my-ext",
+      assetsDir: path.join(dir, "assets"),
+      workspace: dir,
+      log,
+    });
+  }
+
+  it("puts the changelog section before the metadata", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { icon: "icon.svg" }));
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/icon.svg"), "<svg></svg>");
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/CHANGELOG.md"), "## 1.0.0\n\n- First release\n");
+
+    const result = prepare();
+
+    expect(result.body.split("\n")[0]).toBe("- First release");
+    expect(result.body).toContain(`"size":7`);
+    expect(result.assets).toEqual([path.join(dir, "assets", "my-ext-icon.svg")]);
+    expect(lines).toEqual([]);
+  });
+
+  it("notes a missing changelog", () => {
+    writeExtension("my-ext");
+
+    expect(prepare().body).toMatch(/^<!-- connect-gallery-metadata/);
+    expect(lines).toEqual(["::notice::No CHANGELOG.md found for my-ext, releasing without notes"]);
+  });
+
+  it("leaves out a README that would make the body too long for GitHub", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { readme: "README.md" }));
+    // Within the README limit, but every line break is escaped in the JSON
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/README.md"), "\n".repeat(63 * 1024));
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/CHANGELOG.md"), `## 1.0.0\n\n${"x".repeat(60_000)}\n`);
+
+    const { body } = prepare();
+
+    expect(body).not.toContain('"readme"');
+    expect(body.length).toBeLessThan(125_000);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(
+      /^::warning file=extensions\/my-ext\/manifest.json,title=extension.readme::The README would make the release body \d+ characters, more than GitHub's limit of 125000, so it is left out of this release$/
+    );
+  });
+
+  it("fails when the changelog alone makes the body too long", () => {
+    writeExtension("my-ext");
+    fs.writeFileSync(path.join(dir, "extensions/my-ext/CHANGELOG.md"), `## 1.0.0\n\n${"x".repeat(130_000)}\n`);
+
+    expect(prepare).toThrow(
+      /^The release body is \d+ characters, more than GitHub's limit of 125000. Shorten the CHANGELOG.md section for version 1.0.0.$/
+    );
+  });
+
+  it("logs annotations and fails on media that cannot be released", () => {
+    writeExtension("my-ext", makeManifest("my-ext", { screenshots: ["missing.png"] }));
+
+    expect(prepare).toThrow(CommandError);
+    expect(lines).toEqual([
+      "::error file=extensions/my-ext/manifest.json,title=extension.screenshots[0]::'missing.png' does not exist in the extension directory",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderGallerySite / mirrorExtensions
+// ---------------------------------------------------------------------------
+
+describe("renderGallerySite", () => {
+  it("writes the index, a page per extension and the feed", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+    fs.writeFileSync(path.join(dir, "extensions.json"), (await generate()).text);
+
+    const pages = await renderGallerySite({
+      extensionsJson: path.join(dir, "extensions.json"),
+      siteDir: path.join(dir, "site"),
+    });
+
+    expect(pages.map((p) => path.relative(path.join(dir, "site"), p)).sort()).toEqual([
+      "extensions.json",
+      path.join("extensions", "my-ext.html"),
+      "index.html",
+    ]);
+    expect(fs.readFileSync(path.join(dir, "site", "index.html"), "utf8")).toContain("Extension Gallery");
+  });
+
+  it("copies icons and screenshots into the site and leaves out those it cannot download", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+    const output = (await generate()).output;
+    Object.assign(output.extensions[0], {
+      icon: "https://example.com/my-ext-icon.png",
+      screenshots: ["https://example.com/gone.png"],
+    });
+    fs.writeFileSync(path.join(dir, "extensions.json"), JSON.stringify(output));
+    const fakeFetch = (async (url: string) =>
+      url.endsWith("gone.png")
+        ? new Response("", { status: 404, statusText: "Not Found" })
+        : new Response("icon bytes")) as typeof fetch;
+    lines = [];
+
+    await renderGallerySite({
+      extensionsJson: path.join(dir, "extensions.json"),
+      siteDir: path.join(dir, "site"),
+      fetch: fakeFetch,
+      log,
+    });
+
+    expect(fs.readFileSync(path.join(dir, "site", "assets", "my-ext-icon.png"), "utf8")).toBe("icon bytes");
+    const page = fs.readFileSync(path.join(dir, "site", "extensions", "my-ext.html"), "utf8");
+    expect(page).toContain('src="../assets/my-ext-icon.png"');
+    expect(page).not.toContain("gone.png");
+    expect(lines).toEqual([
+      "::warning title=assets/my-ext-screenshot-1.png::Could not download https://example.com/gone.png, so the site does not show it: 404 Not Found",
+    ]);
+  });
+
+  it("fails on extension names that cannot be used in page paths", async () => {
+    const feed = { categories: [], tags: [], requiredFeatures: [], extensions: [{ name: "a b" }] };
+    fs.writeFileSync(path.join(dir, "extensions.json"), JSON.stringify(feed));
+
+    await expect(
+      renderGallerySite({ extensionsJson: path.join(dir, "extensions.json"), siteDir: path.join(dir, "site") })
+    ).rejects.toThrow(CommandError);
+    expect(fs.existsSync(path.join(dir, "site"))).toBe(false);
+  });
+});
+
+describe("mirrorExtensions", () => {
+  it("downloads each tarball and points the returned document at the mirror", async () => {
+    writeExtension("my-ext");
+    writeConfig();
+    writeMirroredVersion("my-ext", "1.0.0");
+    fs.writeFileSync(path.join(dir, "extensions.json"), (await generate()).text);
+    const requested: string[] = [];
+    const fakeFetch = (async (url: string) => {
+      requested.push(url);
+      return new Response("tarball");
+    }) as typeof fetch;
+
+    const mirrored = await mirrorExtensions({
+      extensionsJson: path.join(dir, "extensions.json"),
+      mirrorDir: path.join(dir, "copy"),
+      releaseUrlTemplate: "https://copy.internal/{name}/{version}/{file}",
+      fetch: fakeFetch,
+    });
+
+    expect(requested).toEqual(["https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz"]);
+    expect(mirrored.extensions[0].latestVersion.url).toBe("https://copy.internal/my-ext/1.0.0/my-ext.tar.gz");
+    expect(fs.readFileSync(path.join(dir, "copy/my-ext/1.0.0/my-ext.tar.gz"), "utf8")).toBe("tarball");
+  });
+});
@@ -0,0 +1,812 @@
+import fs from "fs";
+import path from "path";
+
+import {
+  BumpCheck,
+  ChangeDetection,
+  EnvironmentInference,
+  ExtensionManifest,
+  GalleryAudit,
+  GalleryConfig,
+  GalleryDiff,
+  GalleryOutput,
+  GitHubRelease,
+  ReleasePlan,
+  ValidationIssue,
+} from "./types";
+import {
+  buildExtensions,
+  buildOutput,
+  collectTagsAndFeatures,
+  extractChangelogSection,
+  formatReleaseBody,
+  manifestReleaseMetadata,
+  MAX_RELEASE_BODY_LENGTH,
+  planRelease,
+} from "./generate-gallery-lib";
+import {
+  createGitHubReleaseSource,
+  fetchRepoManifests,
+  loadResponseCache,
+  saveResponseCache,
+} from "./github-releases";
+import {
+  feedExtensions,
+  fetchGalleryFeed,
+  mergeCategories,
+  mergeSources,
+  sourceName,
+  SourceExtensions,
+} from "./federate-gallery";
+import { createMirrorReleaseSource, mirrorGallery } from "./mirror-lib";
+import {
+  changedFiles,
+  detectChanges,
+  readFileAtBase,
+} from "./changes-lib";
+import { checkBump, isShipped } from "./bump-lib";
+import { auditGallery } from "./audit-lib";
+import { loadIgnoreRules } from "./package-lib";
+import {
+  checkEnvironment,
+  inferEnvironment,
+  readBundleFiles,
+} from "./environment-lib";
+import { checkMedia, readReadme, stageMediaAssets } from "./media-lib";
+import { diffGallery } from "./diff-gallery";
+import { BundleInspection, inspectBundle } from "./inspect-lib";
+import { isSiteName, renderSite, siteMediaPaths } from "./site-lib";
+import { sha256 } from "./verify-lib";
+import { loadSchema, validateSchema } from "./schema";
+import { validateGallery } from "./validate-gallery";
+import {
+  formatAnnotation,
+  formatWorkflowCommand,
+  hasErrors,
+  validateManifest,
+} from "./validate-manifest";
+
+/** Receives progress messages and GitHub annotations, one line at a time. */
+export type Log = (line: string) => void;
+
+/**
+ * A failure that has already been explained by the annotations logged before
+ * it, so only its message needs to be shown.
+ */
+export class CommandError extends Error {}
+
+export interface LintOptions {
+  extensionsDir: string;
+  extensionName: string;
+  /** Path to gallery.json. Without it the category is not checked. */
+  galleryConfig?: string;
+  log?: Log;
+}
+
+export interface LintResult {
+  manifestPath: string;
+  issues: ValidationIssue[];
+}
+
+export interface CheckBumpOptions extends ReleaseSourceOptions {
+  extensionsDir: string;
+  extensionName: string;
+  /** Git ref to compare against, e.g. the base branch of a pull request. */
+  base: string;
+  /** Also compare against the latest release. Needs `repo` or `releasesDir`. */
+  checkReleases?: boolean;
+  /** Report a missing bump as a warning instead of an error. */
+  warnOnly?: boolean;
+}
+
+export interface SuggestEnvironmentOptions {
+  extensionsDir: string;
+  extensionName: string;
+}
+
+export interface PlanReleaseOptions {
+  extensionsDir: string;
+  extensionName: string;
+  /** Repository whose releases are compared against, in `owner/name` form. */
+  repo: string;
+  token?: string;
+  apiUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/** Where to read releases from: a mirror directory, or else GitHub. */
+export interface ReleaseSourceOptions {
+  /** Repository to read releases from. Not needed with `releasesDir`. */
+  repo?: string;
+  token?: string;
+  apiUrl?: string;
+  /** Read releases from this mirror directory instead of GitHub. */
+  releasesDir?: string;
+  /** Download URL template for mirrored releases; see `MirrorOptions`. */
+  releaseUrlTemplate?: string;
+  /** File used to cache GitHub API responses between runs. */
+  cachePath?: string;
+  fetch?: typeof fetch;
+}
+
+export interface GenerateOptions extends ReleaseSourceOptions {
+  extensionsDir: string;
+  /** Path to gallery.json. */
+  galleryConfig: string;
+  /** The current extensions.json, if any, to report what changed. */
+  previous?: string | null;
+  /** Annotations link to files relative to this directory. */
+  workspace?: string;
+  log?: Log;
+}
+
+export interface DetectChangesOptions extends ReleaseSourceOptions {
+  extensionsDir: string;
+  /**
+   * Git ref to diff against, e.g. the base branch of a pull request. Without
+   * it every extension counts as changed.
+   */
+  base?: string;
+  /**
+   * Also include extensions whose manifest version has not been released.
+   * Needs `repo` or `releasesDir`.
+   */
+  checkReleases?: boolean;
+}
+
+export interface MirrorCommandOptions {
+  /** extensions.json whose releases are mirrored. */
+  extensionsJson: string;
+  /** Directory to download into, laid out as `{name}/{version}/{file}`. */
+  mirrorDir: string;
+  /** Download URL template of the mirror; see `MirrorOptions`. */
+  releaseUrlTemplate: string;
+  fetch?: typeof fetch;
+}
+
+export interface InspectOptions {
+  /** Tarball to inspect. */
+  tarball: string;
+  extensionsDir: string;
+  /** Directory of the extension the tarball was built from. */
+  extensionName: string;
+  /** Tag the tarball is about to be released under, e.g. `my-ext@v1.2.0`. */
+  tag?: string;
+}
+
+export interface ReleaseNotesOptions {
+  /** Tarball about to be released, whose digest and size are recorded. */
+  tarball: string;
+  extensionsDir: string;
+  extensionName: string;
+  /** Copy the icon and screenshots here, under their release asset names. */
+  assetsDir?: string;
+  /** Annotations link to files relative to this directory. */
+  workspace?: string;
+  log?: Log;
+}
+
+export interface ReleaseNotesResult {
+  /** Release body: the metadata block followed by the changelog section. */
+  body: string;
+  /** Paths of the media files copied into `assetsDir`. */
+  assets: string[];
+}
+
+export interface RenderSiteOptions {
+  /** extensions.json to render. */
+  extensionsJson: string;
+  /** Directory the pages are written to. */
+  siteDir: string;
+  /** Heading and page title of the index. */
+  title?: string;
+  fetch?: typeof fetch;
+  log?: Log;
+}
+
+export interface GenerateResult {
+  output: GalleryOutput;
+  /** The output serialized as it is written to extensions.json. */
+  text: string;
+  diff: GalleryDiff;
+  /** Why releases and extensions of this repository were left out. */
+  audit: GalleryAudit;
+  /** False when `text` is identical to `previous`. */
+  changed: boolean;
+}
+
+function readManifests(extensionsDir: string): Map<string, ExtensionManifest> {
+  const manifests = new Map<string, ExtensionManifest>();
+  for (const dir of fs.readdirSync(extensionsDir)) {
+    const manifestPath = path.join(extensionsDir, dir, "manifest.json");
+    if (
+      fs.statSync(path.join(extensionsDir, dir)).isDirectory() &&
+      fs.existsSync(manifestPath)
+    ) {
+      manifests.set(dir, JSON.parse(fs.readFileSync(manifestPath, "utf8")));
+    }
+  }
+  return manifests;
+}
+
+// Releases from the mirror directory when one is given, otherwise from GitHub
+async function listReleases(
+  options: ReleaseSourceOptions
+): Promise<GitHubRelease[]> {
+  if (options.releasesDir) {
+    if (!options.releaseUrlTemplate) {
+      throw new CommandError(
+        "A release URL template is required to read releases from a mirror"
+      );
+    }
+    return createMirrorReleaseSource({
+      dir: options.releasesDir,
+      urlTemplate: options.releaseUrlTemplate,
+    }).listReleases();
+  }
+
+  if (!options.repo) {
+    throw new CommandError(
+      "A repository is required to read releases from GitHub"
+    );
+  }
+  const cache = options.cachePath
+    ? loadResponseCache(options.cachePath)
+    : undefined;
+  const releases = await createGitHubReleaseSource({
+    repo: options.repo,
+    token: options.token,
+    apiUrl: options.apiUrl,
+    fetch: options.fetch,
+    cache,
+  }).listReleases();
+  if (options.cachePath) saveResponseCache(options.cachePath, cache);
+  return releases;
+}
+
+/**
+ * Lint the manifest of a single extension, optionally checking its category
+ * against gallery.json. A missing or unparseable manifest is reported as an
+ * issue rather than thrown.
+ */
+export function lintExtension(options: LintOptions): LintResult {
+  const log = options.log || console.log;
+  const manifestPath = path.join(
+    options.extensionsDir,
+    options.extensionName,
+    "manifest.json"
+  );
+  const fail = (message: string): LintResult => ({
+    manifestPath,
+    issues: [{ path: "", message, severity: "error" }],
+  });
+
+  if (!fs.existsSync(manifestPath)) {
+    return fail("manifest.json not found");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (err) {
+    return fail(`manifest.json is not valid JSON: ${(err as Error).message}`);
+  }
+
+  // The gallery config is optional for linting; without it the category
+  // cannot be checked against the known ids
+  let config: GalleryConfig | undefined;
+  if (options.galleryConfig && fs.existsSync(options.galleryConfig)) {
+    config = JSON.parse(fs.readFileSync(options.galleryConfig, "utf8"));
+  } else {
+    log(
+      formatWorkflowCommand(
+        "notice",
+        `No gallery config found${options.galleryConfig ? ` at '${options.galleryConfig}'` : ""}, skipping category check`
+      )
+    );
+  }
+
+  const issues = validateManifest(manifest, {
+    directoryName: options.extensionName,
+    config,
+  });
+  // The environment and media files can only be checked once the manifest is
+  // known to have the expected shape
+  if (!hasErrors(issues)) {
+    const inference = inferEnvironment(
+      manifest,
+      readBundleFiles(path.dirname(manifestPath))
+    );
+    issues.push(
+      ...checkEnvironment((manifest as ExtensionManifest).environment, inference),
+      ...checkMedia(path.dirname(manifestPath), manifest as ExtensionManifest)
+    );
+  }
+
+  return { manifestPath, issues };
+}
+
+/**
+ * Infer the environment requirements of an extension from its manifest.json
+ * and the requirements.txt, renv.lock and _quarto.yml next to it.
+ */
+export function suggestEnvironment(
+  options: SuggestEnvironmentOptions
+): EnvironmentInference {
+  const dir = path.join(options.extensionsDir, options.extensionName);
+  const manifest = JSON.parse(
+    fs.readFileSync(path.join(dir, "manifest.json"), "utf8")
+  );
+  return inferEnvironment(manifest, readBundleFiles(dir));
+}
+
+/**
+ * Decide whether the manifest version of an extension should be released,
+ * against the releases of the repository on GitHub.
+ */
+export async function planExtensionRelease(
+  options: PlanReleaseOptions
+): Promise<ReleasePlan> {
+  const manifest: ExtensionManifest = JSON.parse(
+    fs.readFileSync(
+      path.join(options.extensionsDir, options.extensionName, "manifest.json"),
+      "utf8"
+    )
+  );
+
+  const releases = await createGitHubReleaseSource({
+    repo: options.repo,
+    token: options.token,
+    apiUrl: options.apiUrl,
+    fetch: options.fetch,
+  }).listReleases();
+
+  return planRelease(manifest, releases);
+}
+
+// Shallow clones are the usual reason the base ref is missing
+function diffError(base: string, err: unknown): CommandError {
+  const stderr = (err as { stderr?: string }).stderr?.trim();
+  return new CommandError(
+    `Could not diff against '${base}': ${stderr || (err as Error).message}. Check out enough history for the base ref to be available (fetch-depth: 0).`
+  );
+}
+
+/**
+ * Find the extensions that need to be built: those with files that differ
+ * from `base`, and, with `checkReleases`, those whose manifest version is
+ * ahead of their latest release. Extensions are found the same way
+ * `generateGallery` finds them, by the manifest.json in each directory.
+ */
+export async function detectExtensionChanges(
+  options: DetectChangesOptions
+): Promise<ChangeDetection> {
+  const manifests = readManifests(options.extensionsDir);
+
+  let files: string[] | null = null;
+  if (options.base) {
+    try {
+      files = changedFiles(options.extensionsDir, options.base);
+    } catch (err) {
+      throw diffError(options.base, err);
+    }
+  }
+
+  const plans = new Map<string, ReleasePlan>();
+  if (options.checkReleases) {
+    const releases = await listReleases(options);
+    for (const [dir, manifest] of manifests) {
+      plans.set(dir, planRelease(manifest, releases));
+    }
+  }
+
+  const changes = detectChanges([...manifests.keys()], files, plans);
+  return {
+    base: options.base || null,
+    changes,
+    matrix: { extension: changes.map((c) => c.extension) },
+  };
+}
+
+/**
+ * Check that an extension's manifest version was bumped if anything that
+ * ships in its bundle changed since `base`, and suggest the bump to make. See
+ * `checkBump()` for the rules.
+ */
+export async function checkExtensionBump(
+  options: CheckBumpOptions
+): Promise<BumpCheck> {
+  const dir = path.join(options.extensionsDir, options.extensionName);
+  const manifest: ExtensionManifest = JSON.parse(
+    fs.readFileSync(path.join(dir, "manifest.json"), "utf8")
+  );
+
+  let files: string[];
+  let baseManifest: string | null;
+  try {
+    files = changedFiles(options.extensionsDir, options.base);
+    baseManifest = readFileAtBase(dir, options.base, "manifest.json");
+  } catch (err) {
+    throw diffError(options.base, err);
+  }
+  const rules = loadIgnoreRules(dir);
+  const [change] = detectChanges([options.extensionName], files);
+
+  let latestVersion: string | null = null;
+  if (options.checkReleases) {
+    latestVersion = planRelease(manifest, await listReleases(options)).latestVersion;
+  }
+
+  return checkBump({
+    manifest,
+    baseManifest: baseManifest === null ? null : JSON.parse(baseManifest),
+    files: (change?.files || []).filter((file) => isShipped(file, rules)),
+    latestVersion,
+    warnOnly: options.warnOnly,
+  });
+}
+
+/**
+ * Build extensions.json from the manifests in `extensionsDir`, their releases
+ * and the sources listed in gallery.json. Nothing is written: the result holds
+ * the document and how it differs from `previous`. Validation problems are
+ * logged as annotations before a `CommandError` is thrown.
+ */
+export async function generateGallery(
+  options: GenerateOptions
+): Promise<GenerateResult> {
+  const log = options.log || console.log;
+  const workspace = options.workspace || process.cwd();
+  const annotate = (issue: ValidationIssue, file?: string) =>
+    log(formatAnnotation(issue, file && path.relative(workspace, file)));
+
+  // 1. Read category config and check it against the published schema
+  const config: GalleryConfig = JSON.parse(
+    fs.readFileSync(options.galleryConfig, "utf8")
+  );
+  const configIssues = validateSchema(config, loadSchema("gallery"));
+  configIssues.forEach((issue) => annotate(issue, options.galleryConfig));
+  if (hasErrors(configIssues)) {
+    throw new CommandError(
+      "The gallery config does not match schemas/gallery.schema.json."
+    );
+  }
+
+  // 2. Scan all extension manifests
+  const manifests = readManifests(options.extensionsDir);
+
+  // 3. Check the manifests against each other before building anything, since
+  //    duplicate names or unknown categories would silently produce a broken
+  //    feed
+  const galleryIssues = validateGallery(manifests, config);
+
+  // Issue paths that point into the gallery config rather than a manifest
+  const configPaths = ["categories", "yanked", "deprecated"];
+
+  for (const issue of galleryIssues) {
+    annotate(
+      issue,
+      issue.extension
+        ? path.join(options.extensionsDir, issue.extension, "manifest.json")
+        : configPaths.includes(issue.path)
+          ? options.galleryConfig
+          : undefined
+    );
+  }
+
+  if (hasErrors(galleryIssues)) {
+    throw new CommandError(
+      "Gallery validation failed. Fix the errors above or set \"strict\": false in the gallery config to report them as warnings."
+    );
+  }
+
+  const { allTags, allFeatures } = collectTagsAndFeatures(manifests);
+
+  // 4. Query all releases, either from a mirror directory or from GitHub via
+  //    the REST API, following pagination
+  const github = {
+    token: options.token,
+    apiUrl: options.apiUrl,
+    fetch: options.fetch,
+  };
+  const allReleases = await listReleases(options);
+
+  // 5. Build extensions array, keeping track of every release and extension
+  //    that did not make it in
+  const extensions = buildExtensions(manifests, allReleases, config);
+  const audit = auditGallery(manifests, allReleases, extensions);
+
+  // A yanked version that was never released is most likely a typo. Only
+  // this repository's releases are known here, so other sources are skipped
+  const localNames = new Set(
+    [...manifests.values()].map((m) => m.extension.name)
+  );
+  for (const entry of config.yanked || []) {
+    if (!localNames.has(entry.extension)) continue;
+    const tag = `${entry.extension}@v${entry.version}`;
+    if (!allReleases.some((r) => r.tagName === tag)) {
+      log(
+        formatWorkflowCommand(
+          "warning",
+          `Yanked version '${entry.extension}@${entry.version}' has not been released`,
+          { file: path.relative(workspace, options.galleryConfig), title: "yanked" }
+        )
+      );
+    }
+  }
+
+  // 6. Merge in the extensions of other repositories and feeds listed in the
+  //    gallery config. Repositories are built like this one; feeds are copied
+  //    as published
+  const groups: SourceExtensions[] = [{ source: options.repo, extensions }];
+  const feeds: GalleryOutput[] = [];
+  const sources = config.sources || [];
+  if (sources.length > 0 && options.releasesDir) {
+    log(
+      formatWorkflowCommand(
+        "warning",
+        "Gallery sources are fetched from GitHub and are skipped when reading releases from a mirror"
+      )
+    );
+  }
+  for (const source of options.releasesDir ? [] : sources) {
+    if ("repo" in source) {
+      const sourceManifests = await fetchRepoManifests({
+        ...github,
+        repo: source.repo,
+        extensionsDir: source.extensionsDir ?? "extensions",
+        ref: source.ref,
+      });
+      const releases = await createGitHubReleaseSource({
+        ...github,
+        repo: source.repo,
+      }).listReleases();
+      const collected = collectTagsAndFeatures(sourceManifests);
+      collected.allTags.forEach((t) => allTags.add(t));
+      collected.allFeatures.forEach((f) => allFeatures.add(f));
+      groups.push({
+        source: source.repo,
+        extensions: buildExtensions(sourceManifests, releases, config),
+      });
+    } else {
+      const feed = await fetchGalleryFeed(source.url, options.fetch);
+      feed.tags.forEach((t) => allTags.add(t));
+      feed.requiredFeatures.forEach((f) => allFeatures.add(f));
+      feeds.push(feed);
+      groups.push({ source: source.url, extensions: feedExtensions(feed) });
+    }
+    log(
+      `Fetched ${groups[groups.length - 1].extensions.length} extensions from ${sourceName(source)}`
+    );
+  }
+
+  const onConflict = config.onConflict || "error";
+  const merged = mergeSources(groups, onConflict);
+  for (const conflict of merged.conflicts) {
+    log(
+      formatWorkflowCommand(onConflict === "error" ? "error" : "warning", conflict, {
+        title: "Duplicate extension",
+      })
+    );
+  }
+  if (onConflict === "error" && merged.conflicts.length > 0) {
+    throw new CommandError(
+      'Set "onConflict" to "first" or "newest" in the gallery config to choose between duplicate extensions.'
+    );
+  }
+
+  // 7. Assemble the output and compare it against the previous one
+  const output = buildOutput(
+    merged.extensions,
+    { ...config, categories: mergeCategories(config.categories, feeds) },
+    allTags,
+    allFeatures
+  );
+  const text = JSON.stringify(output, null, 2) + "\n";
+
+  // Never publish a document consumers cannot validate
+  const outputIssues = validateSchema(
+    JSON.parse(text),
+    loadSchema("extensions")
+  );
+  if (outputIssues.length > 0) {
+    outputIssues.forEach((issue) => annotate(issue));
+    throw new CommandError(
+      "The generated extensions.json does not match schemas/extensions.schema.json."
+    );
+  }
+
+  const previous = options.previous ?? null;
+  return {
+    output,
+    text,
+    diff: diffGallery(previous ? JSON.parse(previous) : null, output),
+    audit,
+    changed: text !== previous,
+  };
+}
+
+/**
+ * Download every tarball, icon and screenshot referenced by an
+ * extensions.json into a mirror directory. Nothing else is written: the
+ * document with its URLs pointing at the mirror is returned.
+ */
+export async function mirrorExtensions(
+  options: MirrorCommandOptions
+): Promise<GalleryOutput> {
+  const output: GalleryOutput = JSON.parse(
+    fs.readFileSync(options.extensionsJson, "utf8")
+  );
+  return mirrorGallery(output, {
+    dir: options.mirrorDir,
+    urlTemplate: options.releaseUrlTemplate,
+    fetch: options.fetch,
+  });
+}
+
+/**
+ * Inspect a packaged tarball against the manifest.json it was built from and,
+ * when given, the tag it is about to be released under.
+ */
+export function inspectTarball(options: InspectOptions): BundleInspection {
+  const sourceManifest: ExtensionManifest = JSON.parse(
+    fs.readFileSync(
+      path.join(options.extensionsDir, options.extensionName, "manifest.json"),
+      "utf8"
+    )
+  );
+  return inspectBundle(fs.readFileSync(options.tarball), {
+    sourceManifest,
+    tag: options.tag,
+  });
+}
+
+/**
+ * Assemble the release body of an extension's manifest version: the
+ * version's section of CHANGELOG.md, followed by its release metadata,
+ * including the tarball's digest and, if the body stays within GitHub's
+ * limit, the README. With `assetsDir`, the icon and
+ * screenshots are staged there to be attached to the release. Media problems
+ * are logged as annotations before a `CommandError` is thrown.
+ */
+export function prepareReleaseNotes(
+  options: ReleaseNotesOptions
+): ReleaseNotesResult {
+  const log = options.log || console.log;
+  const workspace = options.workspace || process.cwd();
+  const extensionDir = path.join(options.extensionsDir, options.extensionName);
+  const manifestPath = path.join(extensionDir, "manifest.json");
+  const manifest: ExtensionManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+  const version = manifest.extension.version;
+
+  // Media files are checked by lint too, but may have changed since
+  const mediaIssues = checkMedia(extensionDir, manifest);
+  for (const issue of mediaIssues) {
+    log(formatAnnotation(issue, path.relative(workspace, manifestPath)));
+  }
+  if (hasErrors(mediaIssues)) {
+    throw new CommandError(
+      "The icon, screenshots or README of the extension cannot be released."
+    );
+  }
+
+  // The tarball's digest and size are recorded so consumers can verify the
+  // asset they download is the one that was released
+  const tarball = fs.readFileSync(options.tarball);
+  const metadata = {
+    ...manifestReleaseMetadata(manifest),
+    sha256: sha256(tarball),
+    size: tarball.length,
+  };
+
+  const changelogPath = path.join(extensionDir, "CHANGELOG.md");
+  let notes: string | null = null;
+  if (fs.existsSync(changelogPath)) {
+    notes = extractChangelogSection(fs.readFileSync(changelogPath, "utf8"), version);
+    if (!notes) {
+      log(
+        formatWorkflowCommand("warning", `CHANGELOG.md has no section for version ${version}`, {
+          file: path.relative(workspace, changelogPath),
+        })
+      );
+    }
+  } else {
+    log(
+      formatWorkflowCommand(
+        "notice",
+        `No CHANGELOG.md found for ${options.extensionName}, releasing without notes`
+      )
+    );
+  }
+
+  // The README is escaped into the metadata JSON, so even one within its
+  // size limit can take the body past GitHub's limit together with the
+  // notes. It is then left out rather than failing the release
+  let body = formatReleaseBody(metadata, notes);
+  const readme = readReadme(extensionDir, manifest);
+  if (readme) {
+    const withReadme = formatReleaseBody({ ...metadata, readme }, notes);
+    if (withReadme.length <= MAX_RELEASE_BODY_LENGTH) {
+      body = withReadme;
+    } else {
+      log(
+        formatAnnotation(
+          {
+            path: "extension.readme",
+            message: `The README would make the release body ${withReadme.length} characters, more than GitHub's limit of ${MAX_RELEASE_BODY_LENGTH}, so it is left out of this release`,
+            severity: "warning",
+          },
+          path.relative(workspace, manifestPath)
+        )
+      );
+    }
+  }
+  if (body.length > MAX_RELEASE_BODY_LENGTH) {
+    throw new CommandError(
+      `The release body is ${body.length} characters, more than GitHub's limit of ${MAX_RELEASE_BODY_LENGTH}. Shorten the CHANGELOG.md section for version ${version}.`
+    );
+  }
+
+  // The icon and screenshots are attached to the release next to the tarball
+  const assets = options.assetsDir
+    ? stageMediaAssets(extensionDir, manifest, options.assetsDir)
+    : [];
+
+  return { body, assets };
+}
+
+/**
+ * Render the static HTML gallery site of an extensions.json into `siteDir`,
+ * with copies of the icons and screenshots it shows, and return the paths of
+ * the files written. Images that cannot be downloaded are left out of the
+ * site with a warning.
+ */
+export async function renderGallerySite(
+  options: RenderSiteOptions
+): Promise<string[]> {
+  const log = options.log || console.log;
+  const doFetch = options.fetch || fetch;
+  const output: GalleryOutput = JSON.parse(
+    fs.readFileSync(options.extensionsJson, "utf8")
+  );
+  const unusable = output.extensions.map((e) => e.name).filter((name) => !isSiteName(name));
+  if (unusable.length > 0) {
+    throw new CommandError(
+      `Extension names ${unusable.map((name) => `'${name}'`).join(", ")} cannot be used in page paths. Site pages need names made of letters, digits, '-', '_', '.' and '~'.`
+    );
+  }
+
+  const written: string[] = [];
+  const media = new Map<string, string>();
+  for (const [url, file] of siteMediaPaths(output)) {
+    try {
+      const response = await doFetch(url);
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      const fullPath = path.join(options.siteDir, file);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, Buffer.from(await response.arrayBuffer()));
+      written.push(fullPath);
+      media.set(url, file);
+    } catch (err) {
+      log(
+        formatAnnotation({
+          path: file,
+          message: `Could not download ${url}, so the site does not show it: ${(err as Error).message}`,
+          severity: "warning",
+        })
+      );
+    }
+  }
+
+  for (const [file, content] of renderSite(output, { title: options.title, media })) {
+    const fullPath = path.join(options.siteDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    written.push(fullPath);
+  }
+  return written;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+
+import { Extension, ExtensionVersion, GalleryOutput, ServerProfile } from "./types";
+import { incompatibilities, resolveCompatible } from "./compat-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeVersion(version: string, overrides: Partial<ExtensionVersion> = {}): ExtensionVersion {
+  return {
+    version,
+    released: "2024-06-01T00:00:00Z",
+    url: `https://example.com/my-ext@v${version}/my-ext.tar.gz`,
+    minimumConnectVersion: "2025.01.0",
+    ...overrides,
+  };
+}
+
+function makeOutput(versions: ExtensionVersion[], name = "my-ext"): GalleryOutput {
+  const extension: Extension = {
+    name,
+    title: name,
+    description: "A test extension",
+    homepage: "https://example.com",
+    latestVersion: versions[0],
+    versions,
+    tags: [],
+  };
+  return { categories: [], tags: [], requiredFeatures: [], extensions: [extension] };
+}
+
+const profile: ServerProfile = { connectVersion: "2025.04.0" };
+
+// ---------------------------------------------------------------------------
+// incompatibilities
+// ---------------------------------------------------------------------------
+
+describe("incompatibilities", () => {
+  it("accepts a version the server meets every requirement of", () => {
+    const version = makeVersion("1.0.0", {
+      requiredFeatures: ["API Publishing"],
+      requiredEnvironment: { python: { requires: "~=3.8" } },
+    });
+
+    expect(
+      incompatibilities(version, { ...profile, features: ["API Publishing"], python: ["3.7.9", "3.11.4"] })
+    ).toEqual([]);
+  });
+
+  it("compares Connect versions numerically", () => {
+    expect(incompatibilities(makeVersion("1.0.0", { minimumConnectVersion: "2025.10.0" }), profile)).toEqual([
+      "requires Connect 2025.10.0 or later",
+    ]);
+    expect(incompatibilities(makeVersion("1.0.0", { minimumConnectVersion: "2025.04" }), profile)).toEqual([]);
+  });
+
+  it("reports missing features and interpreters", () => {
+    const version = makeVersion("1.0.0", {
+      requiredFeatures: ["OAuth Integrations"],
+      requiredEnvironment: { python: { requires: ">=3.12" }, r: { requires: "~=4.2" } },
+    });
+
+    expect(incompatibilities(version, { ...profile, features: [], python: ["3.11.4"], r: [] })).toEqual([
+      "requires the 'OAuth Integrations' feature",
+      "requires Python >=3.12 (installed: 3.11.4)",
+      "requires R ~=4.2 (none installed)",
+    ]);
+  });
+
+  it("does not check what the profile leaves out", () => {
+    const version = makeVersion("1.0.0", {
+      requiredFeatures: ["OAuth Integrations"],
+      requiredEnvironment: { quarto: { requires: ">=1.5" } },
+    });
+
+    expect(incompatibilities(version, profile)).toEqual([]);
+  });
+
+  it("excludes yanked versions and prereleases unless asked for", () => {
+    const beta = makeVersion("2.0.0-beta.1", { channel: "beta" });
+
+    expect(incompatibilities(makeVersion("1.0.0", { yanked: true, yankedReason: "Broken" }), profile)).toEqual([
+      "was yanked: Broken",
+    ]);
+    expect(incompatibilities(beta, profile)).toEqual(["is a beta prerelease"]);
+    expect(incompatibilities(beta, profile, { prereleases: true })).toEqual([]);
+  });
+
+  it("reports requirements that cannot be evaluated", () => {
+    const version = makeVersion("1.0.0", { requiredEnvironment: { python: { requires: "3.8" } } });
+
+    expect(incompatibilities(version, { ...profile, python: ["3.8.0"] })).toEqual([
+      "has an unusable Python requirement: '3.8' has no comparison operator (e.g. ~=3.8 or >=3.8)",
+    ]);
+  });
+
+  it("rejects an invalid server version", () => {
+    expect(() => incompatibilities(makeVersion("1.0.0"), { connectVersion: "latest" })).toThrow(
+      "'latest' is not a valid Connect version"
+    );
+  });
+
+  it("rejects an invalid installed version rather than blaming the requirement", () => {
+    const version = makeVersion("1.0.0", { requiredEnvironment: { python: { requires: ">=3.8" } } });
+
+    expect(() => incompatibilities(version, { ...profile, python: ["3.8", "latest"] })).toThrow(
+      "'latest' is not a valid Python version"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveCompatible
+// ---------------------------------------------------------------------------
+
+describe("resolveCompatible", () => {
+  it("picks the newest installable version and explains the newer ones", () => {
+    const output = makeOutput([
+      makeVersion("1.10.0", { minimumConnectVersion: "2025.09.0" }),
+      makeVersion("1.2.0", { requiredEnvironment: { python: { requires: ">=3.12" } } }),
+      makeVersion("1.9.0", { yanked: true, yankedReason: "Broken" }),
+      makeVersion("1.1.0"),
+      makeVersion("1.0.0"),
+    ]);
+
+    expect(resolveCompatible(output, { ...profile, python: ["3.11.4"] })).toEqual([
+      {
+        extension: "my-ext",
+        installable: "1.1.0",
+        excluded: [
+          { version: "1.10.0", reasons: ["requires Connect 2025.09.0 or later"] },
+          { version: "1.9.0", reasons: ["was yanked: Broken"] },
+          { version: "1.2.0", reasons: ["requires Python >=3.12 (installed: 3.11.4)"] },
+        ],
+      },
+    ]);
+  });
+
+  it("reports extensions without any installable version", () => {
+    const output = makeOutput([makeVersion("1.0.0", { minimumConnectVersion: "2026.01.0" })]);
+
+    expect(resolveCompatible(output, profile)[0]).toEqual({
+      extension: "my-ext",
+      installable: null,
+      excluded: [{ version: "1.0.0", reasons: ["requires Connect 2026.01.0 or later"] }],
+    });
+  });
+});
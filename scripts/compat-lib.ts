@@ -0,0 +1,117 @@
+import semverRcompare from "semver/functions/rcompare";
+
+import {
+  CompatibilityResult,
+  ExcludedVersion,
+  ExtensionVersion,
+  GalleryOutput,
+  ServerProfile,
+} from "./types";
+import {
+  compareSegments,
+  LANGUAGE_NAMES,
+  parseRequirement,
+  releaseSegments,
+  satisfiesRequirement,
+} from "./requirements";
+
+export interface ResolveOptions {
+  /** Consider prerelease versions too. Off by default, like Connect. */
+  prereleases?: boolean;
+}
+
+/**
+ * Every reason why a server cannot install a version, or an empty array if it
+ * can.
+ */
+export function incompatibilities(
+  version: ExtensionVersion,
+  profile: ServerProfile,
+  options: ResolveOptions = {}
+): string[] {
+  const reasons: string[] = [];
+
+  if (version.yanked) {
+    reasons.push(
+      `was yanked${version.yankedReason ? `: ${version.yankedReason}` : ""}`
+    );
+  }
+  if (version.channel && !options.prereleases) {
+    reasons.push(`is a ${version.channel} prerelease`);
+  }
+
+  const required = releaseSegments(version.minimumConnectVersion);
+  const server = releaseSegments(profile.connectVersion);
+  if (!server) {
+    throw new Error(`'${profile.connectVersion}' is not a valid Connect version`);
+  }
+  if (!required) {
+    reasons.push(
+      `has an invalid minimum Connect version '${version.minimumConnectVersion}'`
+    );
+  } else if (compareSegments(server, required) < 0) {
+    reasons.push(`requires Connect ${version.minimumConnectVersion} or later`);
+  }
+
+  if (profile.features) {
+    for (const feature of version.requiredFeatures || []) {
+      if (!profile.features.includes(feature)) {
+        reasons.push(`requires the '${feature}' feature`);
+      }
+    }
+  }
+
+  for (const [language, name] of Object.entries(LANGUAGE_NAMES)) {
+    const requires = version.requiredEnvironment?.[language]?.requires;
+    const installed: string[] | undefined = profile[language];
+    if (!requires || !installed) continue;
+
+    for (const v of installed) {
+      if (!releaseSegments(v)) {
+        throw new Error(`'${v}' is not a valid ${name} version`);
+      }
+    }
+    // Only the feed's requirement can be unusable, since installed versions
+    // were checked above
+    const { errors } = parseRequirement(requires);
+    if (errors.length > 0) {
+      reasons.push(`has an unusable ${name} requirement: ${errors[0]}`);
+      continue;
+    }
+    if (!installed.some((v) => satisfiesRequirement(v, requires))) {
+      reasons.push(
+        installed.length > 0
+          ? `requires ${name} ${requires} (installed: ${installed.join(", ")})`
+          : `requires ${name} ${requires} (none installed)`
+      );
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Find the newest version of every extension in a feed that a server can
+ * install, and why each newer version cannot be. Yanked versions and, unless
+ * asked for, prereleases are never chosen.
+ */
+export function resolveCompatible(
+  output: GalleryOutput,
+  profile: ServerProfile,
+  options: ResolveOptions = {}
+): CompatibilityResult[] {
+  return output.extensions.map((extension) => {
+    const versions = [...extension.versions].sort((a, b) =>
+      semverRcompare(a.version, b.version)
+    );
+    const excluded: ExcludedVersion[] = [];
+    for (const version of versions) {
+      const reasons = incompatibilities(version, profile, options);
+      if (reasons.length === 0) {
+        return { extension: extension.name, installable: version.version, excluded };
+      }
+      excluded.push({ version: version.version, reasons });
+    }
+    return { extension: extension.name, installable: null, excluded };
+  });
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+
+import { Extension, ExtensionVersion, GalleryOutput } from "./types";
+import {
+  describeDiff,
+  diffGallery,
+  formatCommitMessage,
+  formatDiffMarkdown,
+  isEmptyDiff,
+} from "./diff-gallery";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeVersion(version: string, overrides: Partial<ExtensionVersion> = {}): ExtensionVersion {
+  return {
+    version,
+    released: "2024-06-01T00:00:00Z",
+    url: `https://example.com/${version}.tar.gz`,
+    minimumConnectVersion: "2024.01.0",
+    ...overrides,
+  };
+}
+
+function makeExtension(name: string, versions: string[], overrides: Partial<Extension> = {}): Extension {
+  const versionEntries = versions.map((v) => makeVersion(v));
+  return {
+    name,
+    title: "My Extension",
+    description: "A test extension",
+    homepage: "https://example.com",
+    latestVersion: versionEntries[0],
+    versions: versionEntries,
+    tags: [],
+    ...overrides,
+  };
+}
+
+function makeOutput(extensions: Extension[], overrides: Partial<GalleryOutput> = {}): GalleryOutput {
+  return {
+    categories: [{ id: "extension", title: "Extensions", description: "Extensions" }],
+    tags: ["python"],
+    requiredFeatures: [],
+    extensions,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// diffGallery
+// ---------------------------------------------------------------------------
+
+describe("diffGallery", () => {
+  it("returns an empty diff for identical outputs", () => {
+    const output = makeOutput([makeExtension("a", ["1.0.0"])]);
+
+    const diff = diffGallery(output, structuredClone(output));
+
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it("treats a missing previous output as everything added", () => {
+    const diff = diffGallery(null, makeOutput([makeExtension("a", ["1.0.0"])]));
+
+    expect(diff.addedExtensions).toEqual(["a"]);
+    expect(diff.addedVersions).toEqual([{ extension: "a", version: "1.0.0" }]);
+    expect(diff.addedCategories).toEqual(["extension"]);
+    expect(diff.addedTags).toEqual(["python"]);
+  });
+
+  it("detects new and removed versions", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0", "0.9.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.1.0", "1.0.0"])]);
+
+    const diff = diffGallery(previous, next);
+
+    expect(diff.addedVersions).toEqual([{ extension: "a", version: "1.1.0" }]);
+    expect(diff.removedVersions).toEqual([{ extension: "a", version: "0.9.0" }]);
+    // latestVersion follows from versions and is not reported separately
+    expect(diff.changedExtensions).toEqual([]);
+  });
+
+  it("detects removed extensions", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"]), makeExtension("b", ["1.0.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.0.0"])]);
+
+    const diff = diffGallery(previous, next);
+
+    expect(diff.removedExtensions).toEqual(["b"]);
+    expect(diff.removedVersions).toEqual([{ extension: "b", version: "1.0.0" }]);
+  });
+
+  it("detects metadata changes on extensions and versions", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"])]);
+    const next = makeOutput([
+      makeExtension("a", [], {
+        title: "Renamed",
+        tags: ["python"],
+        versions: [makeVersion("1.0.0", { minimumConnectVersion: "2025.01.0" })],
+      }),
+    ]);
+
+    const diff = diffGallery(previous, next);
+
+    expect(diff.changedExtensions).toEqual([{ extension: "a", fields: ["tags", "title"] }]);
+    expect(diff.changedVersions).toEqual([{ extension: "a", version: "1.0.0" }]);
+  });
+
+  it("detects category, tag and feature changes", () => {
+    const previous = makeOutput([], { requiredFeatures: ["gpu"] });
+    const next = makeOutput([], {
+      categories: [
+        { id: "extension", title: "Extensions", description: "Changed" },
+        { id: "example", title: "Examples", description: "Examples" },
+      ],
+      tags: ["r"],
+      requiredFeatures: ["API Publishing"],
+    });
+
+    const diff = diffGallery(previous, next);
+
+    expect(diff.addedCategories).toEqual(["example"]);
+    expect(diff.changedCategories).toEqual(["extension"]);
+    expect(diff.addedTags).toEqual(["r"]);
+    expect(diff.removedTags).toEqual(["python"]);
+    expect(diff.addedFeatures).toEqual(["API Publishing"]);
+    expect(diff.removedFeatures).toEqual(["gpu"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// describeDiff / formatDiffMarkdown / formatCommitMessage
+// ---------------------------------------------------------------------------
+
+describe("describeDiff", () => {
+  it("describes new extensions with their versions instead of each version", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.1.0", "1.0.0"]), makeExtension("b", ["2.0.0"])]);
+
+    expect(describeDiff(diffGallery(previous, next))).toEqual([
+      "Added extension `b` (v2.0.0)",
+      "Released `a` v1.1.0",
+    ]);
+  });
+});
+
+describe("formatDiffMarkdown", () => {
+  it("lists every change", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.1.0", "1.0.0"])]);
+
+    expect(formatDiffMarkdown(diffGallery(previous, next))).toBe(
+      "## Gallery changes\n\n- Released `a` v1.1.0\n"
+    );
+  });
+
+  it("says when nothing changed", () => {
+    const output = makeOutput([]);
+
+    expect(formatDiffMarkdown(diffGallery(output, output))).toContain("No changes");
+  });
+});
+
+describe("formatCommitMessage", () => {
+  it("uses a single change as the subject", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.1.0", "1.0.0"])]);
+
+    expect(formatCommitMessage(diffGallery(previous, next))).toBe("Released a v1.1.0");
+  });
+
+  it("summarizes multiple changes in the body", () => {
+    const previous = makeOutput([makeExtension("a", ["1.0.0"])]);
+    const next = makeOutput([makeExtension("a", ["1.1.0", "1.0.0"])], { tags: ["python", "r"] });
+
+    expect(formatCommitMessage(diffGallery(previous, next))).toBe(
+      "Update extension list\n\n- Released a v1.1.0\n- Added tags r"
+    );
+  });
+});
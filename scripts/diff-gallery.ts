@@ -0,0 +1,187 @@
+import {
+  Extension,
+  GalleryDiff,
+  GalleryOutput,
+  VersionRef,
+} from "./types";
+import { canonicalJson } from "./generate-gallery-lib";
+
+const EMPTY_OUTPUT: GalleryOutput = {
+  categories: [],
+  tags: [],
+  requiredFeatures: [],
+  extensions: [],
+};
+
+// Longest commit subject before falling back to a generic one
+const MAX_SUBJECT_LENGTH = 72;
+
+function added(previous: string[], next: string[]): string[] {
+  return next.filter((x) => !previous.includes(x));
+}
+
+function removed(previous: string[], next: string[]): string[] {
+  return previous.filter((x) => !next.includes(x));
+}
+
+/**
+ * Compute the semantic difference between the previous extensions.json (or
+ * null if there was none) and the newly generated one.
+ */
+export function diffGallery(
+  previous: GalleryOutput | null,
+  next: GalleryOutput
+): GalleryDiff {
+  const prev = previous || EMPTY_OUTPUT;
+
+  const prevExtensions = new Map(prev.extensions.map((e) => [e.name, e]));
+  const nextExtensions = new Map(next.extensions.map((e) => [e.name, e]));
+
+  const changedExtensions: GalleryDiff["changedExtensions"] = [];
+  const addedVersions: VersionRef[] = [];
+  const removedVersions: VersionRef[] = [];
+  const changedVersions: VersionRef[] = [];
+
+  for (const [name, ext] of nextExtensions) {
+    const before = prevExtensions.get(name);
+    const prevVersions = new Map(
+      (before?.versions || []).map((v) => [v.version, v])
+    );
+    const nextVersions = new Map(ext.versions.map((v) => [v.version, v]));
+
+    for (const [version, v] of nextVersions) {
+      const old = prevVersions.get(version);
+      if (!old) {
+        addedVersions.push({ extension: name, version });
+      } else if (canonicalJson(old) !== canonicalJson(v)) {
+        changedVersions.push({ extension: name, version });
+      }
+    }
+    for (const version of prevVersions.keys()) {
+      if (!nextVersions.has(version)) {
+        removedVersions.push({ extension: name, version });
+      }
+    }
+
+    if (!before) continue;
+    // The latest versions are derived from `versions`, which is compared
+    // version by version above
+    const keys = new Set([...Object.keys(before), ...Object.keys(ext)]);
+    keys.delete("versions");
+    keys.delete("latestVersion");
+    keys.delete("latestPrerelease");
+    const fields = [...keys].filter(
+      (key) =>
+        canonicalJson(before[key as keyof Extension]) !==
+        canonicalJson(ext[key as keyof Extension])
+    );
+    if (fields.length > 0) {
+      changedExtensions.push({ extension: name, fields: fields.sort() });
+    }
+  }
+
+  for (const [name, ext] of prevExtensions) {
+    if (nextExtensions.has(name)) continue;
+    for (const v of ext.versions) {
+      removedVersions.push({ extension: name, version: v.version });
+    }
+  }
+
+  const prevCategories = new Map(prev.categories.map((c) => [c.id, c]));
+  const nextCategories = new Map(next.categories.map((c) => [c.id, c]));
+
+  return {
+    addedExtensions: added([...prevExtensions.keys()], [...nextExtensions.keys()]),
+    removedExtensions: removed([...prevExtensions.keys()], [...nextExtensions.keys()]),
+    changedExtensions,
+    addedVersions,
+    removedVersions,
+    changedVersions,
+    addedCategories: added([...prevCategories.keys()], [...nextCategories.keys()]),
+    removedCategories: removed([...prevCategories.keys()], [...nextCategories.keys()]),
+    changedCategories: [...nextCategories.keys()].filter(
+      (id) =>
+        prevCategories.has(id) &&
+        canonicalJson(prevCategories.get(id)) !== canonicalJson(nextCategories.get(id))
+    ),
+    addedTags: added(prev.tags, next.tags),
+    removedTags: removed(prev.tags, next.tags),
+    addedFeatures: added(prev.requiredFeatures, next.requiredFeatures),
+    removedFeatures: removed(prev.requiredFeatures, next.requiredFeatures),
+  };
+}
+
+export function isEmptyDiff(diff: GalleryDiff): boolean {
+  return Object.values(diff).every((list) => list.length === 0);
+}
+
+function code(values: string[]): string {
+  return values.map((v) => `\`${v}\``).join(", ");
+}
+
+/**
+ * Describe each change in a diff as a short sentence, in a stable order.
+ */
+export function describeDiff(diff: GalleryDiff): string[] {
+  const lines: string[] = [];
+  const newExtensions = new Set(diff.addedExtensions);
+
+  for (const name of diff.addedExtensions) {
+    const versions = diff.addedVersions
+      .filter((v) => v.extension === name)
+      .map((v) => `v${v.version}`);
+    lines.push(`Added extension \`${name}\` (${versions.join(", ")})`);
+  }
+  for (const name of diff.removedExtensions) {
+    lines.push(`Removed extension \`${name}\``);
+  }
+  for (const v of diff.addedVersions) {
+    if (newExtensions.has(v.extension)) continue;
+    lines.push(`Released \`${v.extension}\` v${v.version}`);
+  }
+  for (const v of diff.removedVersions) {
+    if (diff.removedExtensions.includes(v.extension)) continue;
+    lines.push(`Removed \`${v.extension}\` v${v.version}`);
+  }
+  for (const v of diff.changedVersions) {
+    lines.push(`Updated \`${v.extension}\` v${v.version}`);
+  }
+  for (const { extension, fields } of diff.changedExtensions) {
+    lines.push(`Changed ${fields.join(", ")} of \`${extension}\``);
+  }
+  if (diff.addedCategories.length) lines.push(`Added categories ${code(diff.addedCategories)}`);
+  if (diff.removedCategories.length) lines.push(`Removed categories ${code(diff.removedCategories)}`);
+  if (diff.changedCategories.length) lines.push(`Changed categories ${code(diff.changedCategories)}`);
+  if (diff.addedTags.length) lines.push(`Added tags ${code(diff.addedTags)}`);
+  if (diff.removedTags.length) lines.push(`Removed tags ${code(diff.removedTags)}`);
+  if (diff.addedFeatures.length) lines.push(`Added required features ${code(diff.addedFeatures)}`);
+  if (diff.removedFeatures.length) lines.push(`Removed required features ${code(diff.removedFeatures)}`);
+
+  return lines;
+}
+
+/**
+ * Render a diff as markdown for the job summary.
+ */
+export function formatDiffMarkdown(diff: GalleryDiff): string {
+  const lines = describeDiff(diff);
+  if (lines.length === 0) {
+    return "## Gallery changes\n\nNo changes to extensions.json.\n";
+  }
+  return `## Gallery changes\n\n${lines.map((l) => `- ${l}`).join("\n")}\n`;
+}
+
+/**
+ * Build a commit message for the regenerated extensions.json: the change
+ * itself when there is only one, otherwise a summary listing every change.
+ */
+export function formatCommitMessage(diff: GalleryDiff): string {
+  const lines = describeDiff(diff).map((l) => l.replace(/`/g, ""));
+  if (lines.length === 0) return "Update extension list";
+
+  if (lines.length === 1 && lines[0].length <= MAX_SUBJECT_LENGTH) {
+    return lines[0];
+  }
+
+  return ["Update extension list", "", ...lines.map((l) => `- ${l}`)].join("\n");
+}
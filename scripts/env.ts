@@ -0,0 +1,29 @@
+import crypto from "crypto";
+import fs from "fs";
+
+/**
+ * Set a step output when running in GitHub Actions; a no-op elsewhere.
+ */
+export function setOutput(name: string, value: string): void {
+  if (!process.env.GITHUB_OUTPUT) return;
+  if (value.includes("\n")) {
+    // Multiline values need the heredoc-style syntax
+    const delimiter = `EOF_${crypto.randomUUID()}`;
+    fs.appendFileSync(
+      process.env.GITHUB_OUTPUT,
+      `${name}<<${delimiter}\n${value}\n${delimiter}\n`
+    );
+  } else {
+    fs.appendFileSync(process.env.GITHUB_OUTPUT, `${name}=${value}\n`);
+  }
+}
+
+/**
+ * Append markdown to the job summary when running in GitHub Actions; a no-op
+ * elsewhere.
+ */
+export function appendSummary(markdown: string): void {
+  if (process.env.GITHUB_STEP_SUMMARY) {
+    fs.appendFileSync(process.env.GITHUB_STEP_SUMMARY, markdown + "\n");
+  }
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect } from "vitest";
+
+import { EnvironmentInference } from "./types";
+import { checkEnvironment, inferEnvironment, readBundleFiles } from "./environment-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+// A manifest.json as rsconnect writes it, with the extension section left out
+function makeBundleManifest(overrides: Record<string, unknown> = {}) {
+  return {
+    version: 1,
+    platform: "4.3.1",
+    metadata: { appmode: "python-shiny" },
+    python: { version: "3.11.4", package_manager: { name: "pip", package_file: "requirements.txt" } },
+    quarto: { version: "1.4.550", engines: ["jupyter"] },
+    ...overrides,
+  };
+}
+
+function makeRenvLock(version: string): string {
+  return JSON.stringify({ R: { Version: version, Repositories: [] }, Packages: {} });
+}
+
+// ---------------------------------------------------------------------------
+// readBundleFiles
+// ---------------------------------------------------------------------------
+
+describe("readBundleFiles", () => {
+  it("reads the bundle files that exist", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "environment-"));
+    try {
+      fs.writeFileSync(path.join(dir, "requirements.txt"), "shiny==1.0.0\n");
+      fs.writeFileSync(path.join(dir, "app.py"), "");
+
+      expect(readBundleFiles(dir)).toEqual({ "requirements.txt": "shiny==1.0.0\n" });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// inferEnvironment
+// ---------------------------------------------------------------------------
+
+describe("inferEnvironment", () => {
+  it("reads the interpreter versions recorded by rsconnect and renv", () => {
+    const inference = inferEnvironment(makeBundleManifest(), {
+      "requirements.txt": "shiny\n",
+      "renv.lock": makeRenvLock("4.3.2"),
+    });
+
+    expect(inference.languages).toEqual({
+      python: {
+        files: ["manifest.json", "requirements.txt"],
+        recorded: [{ version: "3.11.4", source: "manifest.json python.version" }],
+      },
+      r: {
+        files: ["manifest.json", "renv.lock"],
+        recorded: [
+          { version: "4.3.1", source: "manifest.json platform" },
+          { version: "4.3.2", source: "renv.lock R.Version" },
+        ],
+      },
+      quarto: {
+        files: ["manifest.json"],
+        recorded: [{ version: "1.4.550", source: "manifest.json quarto.version" }],
+      },
+    });
+    expect(inference.suggested).toEqual({
+      python: { requires: "~=3.11" },
+      r: { requires: "~=4.3" },
+      quarto: { requires: "~=1.4" },
+    });
+  });
+
+  it("prefers quarto-required from _quarto.yml", () => {
+    const inference = inferEnvironment(makeBundleManifest({ python: undefined, platform: undefined }), {
+      "_quarto.yml": 'project:\n  type: website\nquarto-required: ">= 1.5.0"\n',
+    });
+
+    expect(inference.languages.quarto).toEqual({
+      files: ["manifest.json", "_quarto.yml"],
+      recorded: [{ version: "1.4.550", source: "manifest.json quarto.version" }],
+      requires: ">=1.5.0",
+    });
+    expect(inference.suggested).toEqual({ quarto: { requires: ">=1.5.0" } });
+  });
+
+  it("notes languages that are used without a recorded version", () => {
+    const inference = inferEnvironment({ extension: {} }, {
+      "requirements.txt": "",
+      "renv.lock": "not json",
+    });
+
+    expect(inference.languages).toEqual({
+      python: { files: ["requirements.txt"], recorded: [] },
+      r: { files: ["renv.lock"], recorded: [] },
+    });
+    expect(inference.suggested).toEqual({});
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkEnvironment
+// ---------------------------------------------------------------------------
+
+describe("checkEnvironment", () => {
+  const inference: EnvironmentInference = inferEnvironment(makeBundleManifest({ quarto: undefined }), {
+    "renv.lock": makeRenvLock("4.1.0"),
+  });
+
+  it("accepts constraints that allow every recorded version", () => {
+    expect(
+      checkEnvironment({ python: { requires: ">=3.9,<3.13" }, r: { requires: ">=4.1" } }, inference)
+    ).toEqual([]);
+  });
+
+  it("warns about recorded versions a constraint excludes", () => {
+    expect(checkEnvironment({ python: { requires: ">=3.12" }, r: { requires: "~=4.3" } }, inference)).toEqual([
+      {
+        path: "environment.python.requires",
+        message: "'>=3.12' excludes Python 3.11.4, recorded in manifest.json python.version",
+        severity: "warning",
+      },
+      {
+        path: "environment.r.requires",
+        message: "'~=4.3' excludes R 4.1.0, recorded in renv.lock R.Version",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("warns about languages that are used but not declared", () => {
+    expect(checkEnvironment({ python: { requires: "~=3.11" } }, inference)).toEqual([
+      {
+        path: "environment.r",
+        message: "R is used (manifest.json, renv.lock) but environment.r is not declared; suggested: ~=4.3",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("leaves constraints that do not parse to manifest validation", () => {
+    expect(checkEnvironment({ python: { requires: "3.8" }, r: { requires: ">=4" } }, inference)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import fs from "fs";
+import path from "path";
+
+import {
+  EnvironmentInference,
+  ExtensionEnvironment,
+  LanguageEvidence,
+  RecordedVersion,
+  ValidationIssue,
+} from "./types";
+import {
+  LANGUAGE_NAMES,
+  normalizeRequirement,
+  parseRequirement,
+  releaseSegments,
+  satisfiesRequirement,
+} from "./requirements";
+
+/** Files next to manifest.json that say which languages an extension uses. */
+export const BUNDLE_FILES = ["requirements.txt", "renv.lock", "_quarto.yml"];
+
+type Language = keyof ExtensionEnvironment;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Quarto reads `quarto-required` from _quarto.yml. A full YAML parser is not
+// needed for a single top-level scalar
+function quartoRequired(yaml: string): string | undefined {
+  const match = yaml.match(/^quarto-required:\s*(.+?)\s*$/m);
+  return match ? match[1].replace(/^(["'])(.*)\1$/, "$2") : undefined;
+}
+
+/**
+ * Read the files in `BUNDLE_FILES` that exist in an extension directory, by
+ * name.
+ */
+export function readBundleFiles(dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const name of BUNDLE_FILES) {
+    const file = path.join(dir, name);
+    if (fs.existsSync(file)) {
+      files[name] = fs.readFileSync(file, "utf8");
+    }
+  }
+  return files;
+}
+
+/**
+ * Work out which languages an extension uses and which interpreter versions
+ * it was deployed with, from the sections rsconnect writes to manifest.json
+ * (`python`, `platform` and `quarto`) and the `BUNDLE_FILES` next to it, and
+ * suggest an `environment` section to match. A recorded `X.Y.Z` is suggested
+ * as `~=X.Y`; a `quarto-required` in _quarto.yml is used as is.
+ */
+export function inferEnvironment(
+  manifest: unknown,
+  files: Record<string, string>
+): EnvironmentInference {
+  const languages: EnvironmentInference["languages"] = {};
+  const evidence = (language: Language): LanguageEvidence =>
+    (languages[language] ??= { files: [], recorded: [] });
+  const used = (language: Language, file: string) => {
+    const { files } = evidence(language);
+    if (!files.includes(file)) files.push(file);
+  };
+  const record = (language: Language, version: unknown, file: string, field: string) => {
+    if (typeof version !== "string" || version.trim() === "") return;
+    used(language, file);
+    evidence(language).recorded.push({ version: version.trim(), source: `${file} ${field}` });
+  };
+
+  if (isObject(manifest)) {
+    if (isObject(manifest.python)) {
+      record("python", manifest.python.version, "manifest.json", "python.version");
+    }
+    record("r", manifest.platform, "manifest.json", "platform");
+    if (isObject(manifest.quarto)) {
+      record("quarto", manifest.quarto.version, "manifest.json", "quarto.version");
+    }
+  }
+
+  if (files["requirements.txt"] !== undefined) {
+    used("python", "requirements.txt");
+  }
+  if (files["renv.lock"] !== undefined) {
+    used("r", "renv.lock");
+    const lock = parseJson(files["renv.lock"]);
+    if (isObject(lock) && isObject(lock.R)) {
+      record("r", lock.R.Version, "renv.lock", "R.Version");
+    }
+  }
+  if (files["_quarto.yml"] !== undefined) {
+    used("quarto", "_quarto.yml");
+    const required = quartoRequired(files["_quarto.yml"]);
+    if (required && parseRequirement(required).errors.length === 0) {
+      evidence("quarto").requires = normalizeRequirement(required);
+    }
+  }
+
+  const suggested: ExtensionEnvironment = {};
+  for (const [language, { recorded, requires }] of Object.entries(languages)) {
+    const suggestion = requires ?? compatibleRelease(recorded);
+    if (suggestion) suggested[language] = { requires: suggestion };
+  }
+
+  return { languages, suggested };
+}
+
+// `~=X.Y` for the first recorded version that has a numeric release
+function compatibleRelease(recorded: RecordedVersion[]): string | undefined {
+  for (const { version } of recorded) {
+    const segments = releaseSegments(version);
+    if (segments) return `~=${segments[0]}.${segments[1] ?? 0}`;
+  }
+  return undefined;
+}
+
+/**
+ * Cross-check a declared `environment` section against what the extension's
+ * files show: warn about every recorded interpreter version a declared
+ * constraint excludes, and about languages that are used but not declared.
+ * Constraints that do not parse are left to `validateManifest()`.
+ */
+export function checkEnvironment(
+  environment: ExtensionEnvironment | undefined,
+  inference: EnvironmentInference
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const [language, evidence] of Object.entries(inference.languages)) {
+    const name = LANGUAGE_NAMES[language];
+    const requires: unknown = environment?.[language]?.requires;
+
+    if (requires === undefined) {
+      const suggestion = inference.suggested[language]?.requires;
+      issues.push({
+        path: `environment.${language}`,
+        message: `${name} is used (${evidence.files.join(", ")}) but environment.${language} is not declared${suggestion ? `; suggested: ${suggestion}` : ""}`,
+        severity: "warning",
+      });
+      continue;
+    }
+    if (typeof requires !== "string" || parseRequirement(requires).errors.length > 0) {
+      continue;
+    }
+
+    for (const { version, source } of evidence.recorded) {
+      if (!releaseSegments(version)) continue;
+      if (!satisfiesRequirement(version, requires)) {
+        issues.push({
+          path: `environment.${language}.requires`,
+          message: `'${requires}' excludes ${name} ${version}, recorded in ${source}`,
+          severity: "warning",
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+
+import { Category, Extension, GalleryOutput } from "./types";
+import {
+  feedExtensions,
+  fetchGalleryFeed,
+  mergeCategories,
+  mergeSources,
+  sourceName,
+} from "./federate-gallery";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeExtension(name: string, version = "1.0.0", overrides: Partial<Extension> = {}): Extension {
+  const latestVersion = {
+    version,
+    released: "2024-06-01T00:00:00Z",
+    url: `https://example.com/${name}.tar.gz`,
+    minimumConnectVersion: "2024.01.0",
+  };
+  return {
+    name,
+    title: name,
+    description: "A test extension",
+    homepage: "https://example.com",
+    latestVersion,
+    versions: [latestVersion],
+    tags: [],
+    ...overrides,
+  };
+}
+
+function makeOutput(overrides: Partial<GalleryOutput> = {}): GalleryOutput {
+  return { categories: [], tags: [], requiredFeatures: [], extensions: [], ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// mergeSources
+// ---------------------------------------------------------------------------
+
+describe("mergeSources", () => {
+  it("records the source of each extension and sorts by name", () => {
+    const result = mergeSources([
+      { source: "org/gallery", extensions: [makeExtension("zeta")] },
+      { source: "org/other", extensions: [makeExtension("alpha")] },
+    ]);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.extensions.map((e) => [e.name, e.source])).toEqual([
+      ["alpha", "org/other"],
+      ["zeta", "org/gallery"],
+    ]);
+  });
+
+  it("keeps the source already recorded by a federated feed", () => {
+    const result = mergeSources([
+      {
+        source: "https://example.com/extensions.json",
+        extensions: [makeExtension("a", "1.0.0", { source: "org/upstream" })],
+      },
+    ]);
+
+    expect(result.extensions[0].source).toBe("org/upstream");
+  });
+
+  it("leaves the source out when it is not known", () => {
+    const result = mergeSources([{ source: undefined, extensions: [makeExtension("a")] }]);
+
+    expect(result.extensions[0]).not.toHaveProperty("source");
+  });
+
+  it("reports duplicate names and keeps the first by default", () => {
+    const result = mergeSources([
+      { source: "org/gallery", extensions: [makeExtension("a", "1.0.0")] },
+      { source: "org/other", extensions: [makeExtension("a", "2.0.0")] },
+    ]);
+
+    expect(result.conflicts).toEqual([
+      "Extension 'a' is published by both org/gallery and org/other",
+    ]);
+    expect(result.extensions.map((e) => e.source)).toEqual(["org/gallery"]);
+  });
+
+  it("keeps the first source with 'first'", () => {
+    const result = mergeSources(
+      [
+        { source: undefined, extensions: [makeExtension("a", "1.0.0")] },
+        { source: "org/other", extensions: [makeExtension("a", "2.0.0")] },
+      ],
+      "first"
+    );
+
+    expect(result.conflicts).toEqual([
+      "Extension 'a' is published by both this repository and org/other, using this repository",
+    ]);
+    expect(result.extensions[0].latestVersion.version).toBe("1.0.0");
+  });
+
+  it("keeps the highest latestVersion with 'newest'", () => {
+    const result = mergeSources(
+      [
+        { source: "org/gallery", extensions: [makeExtension("a", "1.10.0")] },
+        { source: "org/other", extensions: [makeExtension("a", "1.9.0")] },
+        { source: "org/third", extensions: [makeExtension("a", "2.0.0")] },
+      ],
+      "newest"
+    );
+
+    expect(result.conflicts).toEqual([
+      "Extension 'a' is published by both org/gallery and org/other, using org/gallery",
+      "Extension 'a' is published by both org/gallery and org/third, using org/third",
+    ]);
+    expect(result.extensions.map((e) => [e.source, e.latestVersion.version])).toEqual([
+      ["org/third", "2.0.0"],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeCategories
+// ---------------------------------------------------------------------------
+
+describe("mergeCategories", () => {
+  it("adds categories from feeds that the config does not define", () => {
+    const config = [{ id: "extension", title: "Extensions", description: "Ours" }];
+    const feed = makeOutput({
+      categories: [
+        { id: "extension", title: "Extensions", description: "Theirs" },
+        { id: "example", title: "Examples", description: "Theirs" },
+      ],
+    });
+
+    expect(mergeCategories(config, [feed])).toEqual([
+      { id: "extension", title: "Extensions", description: "Ours" },
+      { id: "example", title: "Examples", description: "Theirs" },
+    ]);
+  });
+
+  it("leaves out fields of feed categories this gallery does not know", () => {
+    const feed = makeOutput({
+      categories: [{ id: "example", title: "Examples", description: "Theirs", icon: "x.png" } as Category],
+    });
+
+    expect(mergeCategories([], [feed])).toEqual([{ id: "example", title: "Examples", description: "Theirs" }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// feedExtensions
+// ---------------------------------------------------------------------------
+
+describe("feedExtensions", () => {
+  it("leaves out READMEs rendered by another gallery", () => {
+    const feed = makeOutput({ extensions: [{ ...makeExtension("a"), readme: "<script>alert(1)</script>" }] });
+
+    expect(feedExtensions(feed)).toEqual([makeExtension("a")]);
+  });
+
+  it("leaves out fields this gallery does not know", () => {
+    const extension = makeExtension("a");
+    const feed = makeOutput({
+      extensions: [
+        {
+          ...extension,
+          rating: 5,
+          latestVersion: { ...extension.latestVersion, signature: "abc" },
+          versions: extension.versions.map((v) => ({ ...v, signature: "abc" })),
+        } as Extension,
+      ],
+    });
+
+    expect(feedExtensions(feed)).toEqual([extension]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchGalleryFeed / sourceName
+// ---------------------------------------------------------------------------
+
+describe("fetchGalleryFeed", () => {
+  it("downloads and parses a feed", async () => {
+    const output = makeOutput({ extensions: [makeExtension("a")] });
+    const fakeFetch = (async () => Response.json(output)) as typeof fetch;
+
+    await expect(fetchGalleryFeed("https://example.com/extensions.json", fakeFetch)).resolves.toEqual(
+      output
+    );
+  });
+
+  it("fails on an unsuccessful response", async () => {
+    const fakeFetch = (async () => new Response("", { status: 404, statusText: "Not Found" })) as typeof fetch;
+
+    await expect(fetchGalleryFeed("https://example.com/extensions.json", fakeFetch)).rejects.toThrow(
+      "Failed to download https://example.com/extensions.json: 404 Not Found"
+    );
+  });
+});
+
+describe("sourceName", () => {
+  it("names repositories and feeds", () => {
+    expect(sourceName({ repo: "org/other" })).toBe("org/other");
+    expect(sourceName({ url: "https://example.com/extensions.json" })).toBe(
+      "https://example.com/extensions.json"
+    );
+  });
+});
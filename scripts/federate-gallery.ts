@@ -0,0 +1,143 @@
+import semverGt from "semver/functions/gt";
+
+import {
+  Category,
+  ConflictStrategy,
+  Extension,
+  GalleryOutput,
+  GallerySource,
+} from "./types";
+import { loadSchema, pruneToSchema } from "./schema";
+
+/** Extensions contributed by one source, in priority order. */
+export interface SourceExtensions {
+  /**
+   * Repository (`owner/name`) or feed URL the extensions came from, or
+   * undefined for this repository when it is not known.
+   */
+  source?: string;
+  extensions: Extension[];
+}
+
+export interface MergeResult {
+  extensions: Extension[];
+  /** One message per extension name published by more than one source. */
+  conflicts: string[];
+}
+
+/** Name a configured source the way it is recorded on its extensions. */
+export function sourceName(source: GallerySource): string {
+  return "repo" in source ? source.repo : source.url;
+}
+
+/**
+ * Download a published extensions.json to merge into the gallery.
+ */
+export async function fetchGalleryFeed(
+  url: string,
+  doFetch: typeof fetch = fetch
+): Promise<GalleryOutput> {
+  const response = await doFetch(url);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+  return (await response.json()) as GalleryOutput;
+}
+
+// Entries of other feeds keep only the fields this version of the schema
+// knows, so a feed written by a newer version of the action still merges
+function knownFields<T>(value: T, definition: "category" | "extension"): T {
+  return pruneToSchema(
+    value,
+    { $ref: `#/$defs/${definition}` },
+    loadSchema("extensions")
+  ) as T;
+}
+
+/**
+ * The extensions of a downloaded feed, as they can be merged into this
+ * gallery, without fields this gallery does not know. The rendered README is
+ * left out too: it is HTML this gallery did not render, so it is not known to
+ * be safe to show.
+ */
+export function feedExtensions(feed: GalleryOutput): Extension[] {
+  return feed.extensions.map((entry) => {
+    const { readme: _readme, ...extension } = knownFields(entry, "extension");
+    return extension;
+  });
+}
+
+function describe(extension: Extension): string {
+  return extension.source || "this repository";
+}
+
+/**
+ * Merge the extensions of several sources into one list sorted by name,
+ * recording on each extension the source it came from unless it already
+ * names one (e.g. when copied from another federated feed).
+ *
+ * Extension names published by more than one source are resolved with
+ * `onConflict`. With `error` the first source's extension is kept so the
+ * result is still usable, and callers should fail on the reported conflicts.
+ */
+export function mergeSources(
+  groups: SourceExtensions[],
+  onConflict: ConflictStrategy = "error"
+): MergeResult {
+  const merged = new Map<string, Extension>();
+  const conflicts: string[] = [];
+
+  for (const { source, extensions } of groups) {
+    for (const extension of extensions) {
+      const candidate =
+        extension.source || !source ? extension : { ...extension, source };
+      const existing = merged.get(extension.name);
+      if (!existing) {
+        merged.set(extension.name, candidate);
+        continue;
+      }
+
+      const replace =
+        onConflict === "newest" &&
+        semverGt(
+          candidate.latestVersion.version,
+          existing.latestVersion.version
+        );
+      const kept = replace ? candidate : existing;
+      conflicts.push(
+        `Extension '${extension.name}' is published by both ${describe(existing)} and ${describe(candidate)}` +
+          (onConflict === "error" ? "" : `, using ${describe(kept)}`)
+      );
+      if (replace) merged.set(extension.name, candidate);
+    }
+  }
+
+  return {
+    extensions: [...merged.values()].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+    conflicts,
+  };
+}
+
+/**
+ * Add the categories of merged feeds that the gallery config does not define,
+ * without fields this gallery does not know, keeping the config's own
+ * categories first and unchanged.
+ */
+export function mergeCategories(
+  categories: Category[],
+  feeds: GalleryOutput[]
+): Category[] {
+  const merged = [...categories];
+  for (const feed of feeds) {
+    for (const category of feed.categories) {
+      if (!merged.some((c) => c.id === category.id)) {
+        merged.push(knownFields(category, "category"));
+      }
+    }
+  }
+  return merged;
+}
@@ -3,8 +3,10 @@ import { describe, it, expect } from "vitest";
 import {
   ExtensionManifest,
   GitHubApiRelease,
+  ExtensionVersion,
   GitHubRelease,
   GalleryConfig,
+  RetentionPolicy,
 } from "./types";
 import {
   parseExtensionRelease,
@@ -12,6 +14,16 @@ import {
   collectTagsAndFeatures,
   buildOutput,
   transformGitHubApiReleases,
+  planRelease,
+  parseReleaseMetadata,
+  diffReleaseMetadata,
+  releaseChannel,
+  formatReleaseBody,
+  parseReleaseBody,
+  extractChangelogSection,
+  releaseMetadataProblem,
+  releaseSkipReason,
+  retainVersions,
 } from "./generate-gallery-lib";
 
 // ---------------------------------------------------------------------------
@@ -62,6 +74,20 @@ describe("parseExtensionRelease", () => {
     });
   });
 
+  it("includes release notes from the body as the changelog", () => {
+    const release = makeRelease({
+      body: formatReleaseBody(
+        { minimumConnectVersion: "2025.01.0", requiredFeatures: [], requiredEnvironment: {} },
+        "### Fixed\n\n- A bug"
+      ),
+    });
+
+    const result = parseExtensionRelease(release, "my-ext", makeManifest());
+
+    expect(result.minimumConnectVersion).toBe("2025.01.0");
+    expect(result.changelog).toBe("### Fixed\n\n- A bug");
+  });
+
   it("returns null when tag does not match extension name", () => {
     const manifest = makeManifest();
     const release = makeRelease({ tagName: "other-ext@v1.0.0" });
@@ -121,6 +147,46 @@ describe("parseExtensionRelease", () => {
     expect(result!.requiredEnvironment).toEqual({ python: { requires: ">=3.9" } });
   });
 
+  it("surfaces sha256 and size from the release metadata", () => {
+    const manifest = makeManifest();
+    const release = makeRelease({
+      body: JSON.stringify({
+        minimumConnectVersion: "2024.01.0",
+        requiredFeatures: [],
+        requiredEnvironment: {},
+        sha256: "abc123",
+        size: 2048,
+      }),
+    });
+
+    const result = parseExtensionRelease(release, "my-ext", manifest);
+
+    expect(result!.sha256).toBe("abc123");
+    expect(result!.size).toBe(2048);
+  });
+
+  it("omits sha256 and size for releases without them", () => {
+    const result = parseExtensionRelease(makeRelease(), "my-ext", makeManifest());
+
+    expect(result).not.toHaveProperty("sha256");
+    expect(result).not.toHaveProperty("size");
+  });
+
+  it("tags prerelease versions with their channel", () => {
+    const release = makeRelease({ tagName: "my-ext@v2.0.0-beta.1" });
+
+    const result = parseExtensionRelease(release, "my-ext", makeManifest());
+
+    expect(result!.version).toBe("2.0.0-beta.1");
+    expect(result!.channel).toBe("beta");
+  });
+
+  it("treats stable versions marked as prereleases on GitHub as prereleases", () => {
+    const release = makeRelease({ prerelease: true });
+
+    expect(parseExtensionRelease(release, "my-ext", makeManifest())!.channel).toBe("prerelease");
+  });
+
   it("omits requiredFeatures when neither metadata nor manifest has them", () => {
     const manifest = makeManifest({ requiredFeatures: undefined });
     const release = makeRelease();
@@ -132,6 +198,46 @@ describe("parseExtensionRelease", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// releaseSkipReason
+// ---------------------------------------------------------------------------
+
+describe("releaseSkipReason", () => {
+  it("accepts a release with a semver tag and a tarball", () => {
+    expect(releaseSkipReason(makeRelease(), "my-ext")).toBeNull();
+  });
+
+  it("explains releases that parseExtensionRelease skips", () => {
+    expect(releaseSkipReason(makeRelease({ tagName: "my-ext@v1.0" }), "my-ext")).toEqual({
+      kind: "invalid-version",
+      message: "'1.0' is not a valid semantic version",
+    });
+    expect(
+      releaseSkipReason(makeRelease({ assets: [{ name: "other.tar.gz", url: "https://example.com/other.tar.gz" }] }), "my-ext")
+    ).toEqual({ kind: "missing-asset", message: "The release has no my-ext.tar.gz asset (found: other.tar.gz)" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// releaseChannel
+// ---------------------------------------------------------------------------
+
+describe("releaseChannel", () => {
+  it("uses the first prerelease identifier", () => {
+    expect(releaseChannel("2.0.0-beta.1")).toBe("beta");
+    expect(releaseChannel("2.0.0-rc")).toBe("rc");
+  });
+
+  it("falls back to 'prerelease' for numeric identifiers or GitHub prereleases", () => {
+    expect(releaseChannel("2.0.0-1")).toBe("prerelease");
+    expect(releaseChannel("2.0.0", true)).toBe("prerelease");
+  });
+
+  it("returns null for stable versions", () => {
+    expect(releaseChannel("2.0.0")).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // buildExtensions
 // ---------------------------------------------------------------------------
@@ -203,6 +309,143 @@ describe("buildExtensions", () => {
     expect(result[1].name).toBe("zebra");
   });
 
+  it("never picks a prerelease as latestVersion", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [
+      makeRelease({ tagName: "my-ext@v1.0.0" }),
+      makeRelease({ tagName: "my-ext@v2.0.0-beta.1" }),
+    ];
+
+    const result = buildExtensions(manifests, releases);
+
+    expect(result[0].latestVersion.version).toBe("1.0.0");
+    expect(result[0].versions.map((v) => v.version)).toEqual(["2.0.0-beta.1", "1.0.0"]);
+    expect(result[0].latestPrerelease).toBeUndefined();
+  });
+
+  it("publishes latestPrerelease when enabled and newer than latestVersion", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [
+      makeRelease({ tagName: "my-ext@v1.0.0" }),
+      makeRelease({ tagName: "my-ext@v2.0.0-rc.1" }),
+    ];
+
+    const result = buildExtensions(manifests, releases, { publishLatestPrerelease: true });
+
+    expect(result[0].latestVersion.version).toBe("1.0.0");
+    expect(result[0].latestPrerelease!.version).toBe("2.0.0-rc.1");
+    expect(result[0].latestPrerelease!.channel).toBe("rc");
+  });
+
+  it("omits latestPrerelease when the latest stable version is newer", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [
+      makeRelease({ tagName: "my-ext@v1.0.0-beta.1" }),
+      makeRelease({ tagName: "my-ext@v1.0.0" }),
+    ];
+
+    const result = buildExtensions(manifests, releases, { publishLatestPrerelease: true });
+
+    expect(result[0].latestPrerelease).toBeUndefined();
+  });
+
+  it("skips extensions with only prereleases", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [makeRelease({ tagName: "my-ext@v1.0.0-alpha.1" })];
+
+    expect(buildExtensions(manifests, releases)).toHaveLength(0);
+  });
+
+  it("flags yanked versions and keeps them out of latestVersion", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [
+      makeRelease({ tagName: "my-ext@v1.0.0" }),
+      makeRelease({ tagName: "my-ext@v1.1.0" }),
+    ];
+
+    const result = buildExtensions(manifests, releases, {
+      yanked: [{ extension: "my-ext", version: "1.1.0", reason: "Breaks on Connect 2025.01" }],
+    });
+
+    expect(result[0].latestVersion.version).toBe("1.0.0");
+    expect(result[0].versions[0]).toMatchObject({
+      version: "1.1.0",
+      yanked: true,
+      yankedReason: "Breaks on Connect 2025.01",
+    });
+    expect(result[0].versions[1].yanked).toBeUndefined();
+  });
+
+  it("never publishes a yanked prerelease as latestPrerelease", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [
+      makeRelease({ tagName: "my-ext@v1.0.0" }),
+      makeRelease({ tagName: "my-ext@v2.0.0-rc.1" }),
+      makeRelease({ tagName: "my-ext@v2.0.0-rc.2" }),
+    ];
+
+    const result = buildExtensions(manifests, releases, {
+      publishLatestPrerelease: true,
+      yanked: [{ extension: "my-ext", version: "2.0.0-rc.2", reason: "Broken" }],
+    });
+
+    expect(result[0].latestPrerelease!.version).toBe("2.0.0-rc.1");
+  });
+
+  it("skips extensions whose stable versions are all yanked", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [makeRelease({ tagName: "my-ext@v1.0.0" })];
+
+    const result = buildExtensions(manifests, releases, {
+      yanked: [{ extension: "my-ext", version: "1.0.0", reason: "Broken" }],
+    });
+
+    expect(result).toHaveLength(0);
+  });
+
+  it("flags deprecated extensions and their replacement", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const releases: GitHubRelease[] = [makeRelease()];
+
+    const [deprecated] = buildExtensions(manifests, releases, {
+      deprecated: [{ extension: "my-ext", reason: "Superseded", replacedBy: "new-ext" }],
+    });
+    const [plain] = buildExtensions(manifests, releases, {
+      deprecated: [{ extension: "my-ext" }],
+    });
+
+    expect(deprecated).toMatchObject({
+      deprecated: true,
+      deprecationReason: "Superseded",
+      replacedBy: "new-ext",
+    });
+    expect(plain.deprecated).toBe(true);
+    expect(plain).not.toHaveProperty("replacedBy");
+    expect(plain).not.toHaveProperty("deprecationReason");
+  });
+
+  it("applies the retention policy, with the manifest's replacing the config's", () => {
+    const manifests = new Map([
+      ["my-ext", makeManifest()],
+      ["other", makeManifest({ name: "other", retention: {} })],
+    ]);
+    const releases: GitHubRelease[] = ["1.0.0", "1.1.0", "2.0.0-rc.1"].flatMap((version) =>
+      ["my-ext", "other"].map((name) =>
+        makeRelease({
+          tagName: `${name}@v${version}`,
+          assets: [{ name: `${name}.tar.gz`, url: `https://example.com/${name}.tar.gz` }],
+        })
+      )
+    );
+
+    const result = buildExtensions(manifests, releases, { retention: { keepNewest: 1 } });
+
+    expect(result.map((e) => e.versions.map((v) => v.version))).toEqual([
+      ["2.0.0-rc.1", "1.1.0"],
+      ["2.0.0-rc.1", "1.1.0", "1.0.0"],
+    ]);
+  });
+
   it("includes category when present in manifest", () => {
     const manifests = new Map<string, ExtensionManifest>();
     manifests.set("cat-ext", makeManifest({ name: "cat-ext", category: "data-science" }));
@@ -218,6 +461,53 @@ describe("buildExtensions", () => {
     expect(result[0].category).toBe("data-science");
   });
 
+  it("carries translations next to the default title and description", () => {
+    const translations = { fr: { title: "Mon extension", description: "Une extension de test" } };
+    const manifests = new Map([
+      ["my-ext", makeManifest({ translations })],
+      ["other", makeManifest({ name: "other" })],
+    ]);
+    const releases: GitHubRelease[] = [
+      makeRelease(),
+      makeRelease({
+        tagName: "other@v1.0.0",
+        assets: [{ name: "other.tar.gz", url: "https://example.com/other.tar.gz" }],
+      }),
+    ];
+
+    const [translated, plain] = buildExtensions(manifests, releases);
+
+    expect(translated).toMatchObject({ title: "My Extension", description: "A test extension", translations });
+    expect(plain).not.toHaveProperty("translations");
+  });
+
+  it("takes the icon, screenshots and README from the latest version's release", () => {
+    const manifests = new Map([["my-ext", makeManifest()]]);
+    const asset = (name: string) => ({ name, url: `https://example.com/${name}` });
+    const metadata = { minimumConnectVersion: "2024.01.0", requiredFeatures: [], requiredEnvironment: {} };
+    const releases: GitHubRelease[] = [
+      makeRelease({
+        tagName: "my-ext@v1.0.0",
+        assets: [asset("my-ext.tar.gz"), asset("my-ext-icon.png")],
+        body: formatReleaseBody({ ...metadata, readme: "# Old" }),
+      }),
+      makeRelease({
+        tagName: "my-ext@v1.1.0",
+        assets: [asset("my-ext.tar.gz"), asset("my-ext-icon.svg"), asset("my-ext-screenshot-1.png")],
+        body: formatReleaseBody({ ...metadata, readme: "# My Extension\n\nDoes things." }),
+      }),
+    ];
+
+    const [extension] = buildExtensions(manifests, releases);
+
+    expect(extension).toMatchObject({
+      icon: "https://example.com/my-ext-icon.svg",
+      screenshots: ["https://example.com/my-ext-screenshot-1.png"],
+      readme: "<h1>My Extension</h1>\n<p>Does things.</p>",
+    });
+    expect(buildExtensions(manifests, [makeRelease()])[0]).not.toHaveProperty("icon");
+  });
+
   it("omits category when not present in manifest", () => {
     const manifests = new Map<string, ExtensionManifest>();
     manifests.set("no-cat", makeManifest({ name: "no-cat", category: undefined }));
@@ -234,6 +524,334 @@ describe("buildExtensions", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// retainVersions
+// ---------------------------------------------------------------------------
+
+describe("retainVersions", () => {
+  function makeVersions(...specs: Array<[string, string, Partial<ExtensionVersion>?]>): ExtensionVersion[] {
+    return specs.map(([version, minimumConnectVersion, overrides]) => ({
+      version,
+      released: "2024-06-01T00:00:00Z",
+      url: "https://example.com/my-ext.tar.gz",
+      minimumConnectVersion,
+      ...overrides,
+    }));
+  }
+
+  // Newest first, as buildExtensions sorts them
+  const versions = makeVersions(
+    ["3.0.0-beta.1", "2025.10.0", { channel: "beta" }],
+    ["2.1.1", "2025.10.0"],
+    ["2.1.0", "2025.04.0"],
+    ["2.0.0", "2025.04.0"],
+    ["1.2.1", "2024.01.0", { yanked: true }],
+    ["1.2.0", "2024.01.0"],
+    ["1.1.0", "2024.01.0"]
+  );
+  const kept = (policy: RetentionPolicy, always: ExtensionVersion[] = []) =>
+    retainVersions(versions, policy, always).map((v) => v.version);
+
+  it("keeps every version without rules", () => {
+    expect(retainVersions(versions, undefined)).toBe(versions);
+    expect(kept({})).toHaveLength(versions.length);
+  });
+
+  it("keeps the newest versions and those always kept", () => {
+    expect(kept({ keepNewest: 2 }, [versions[3]])).toEqual(["3.0.0-beta.1", "2.1.1", "2.0.0"]);
+  });
+
+  it("keeps the latest installable patch of each minor", () => {
+    expect(kept({ keepLatestPatches: true })).toEqual(["2.1.1", "2.0.0", "1.2.0", "1.1.0"]);
+  });
+
+  it("keeps the newest installable version for each older Connect", () => {
+    expect(kept({ keepForOlderConnect: true })).toEqual(["2.1.1", "2.1.0", "1.2.0"]);
+  });
+
+  it("keeps versions any rule keeps", () => {
+    expect(kept({ keepNewest: 1, keepForOlderConnect: true })).toEqual(["3.0.0-beta.1", "2.1.1", "2.1.0", "1.2.0"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseReleaseMetadata
+// ---------------------------------------------------------------------------
+
+describe("parseReleaseMetadata", () => {
+  it("parses a JSON body", () => {
+    expect(parseReleaseMetadata('{"minimumConnectVersion":"2025.01.0"}')).toEqual({
+      minimumConnectVersion: "2025.01.0",
+    });
+  });
+
+  it("returns null for bodies that are not a JSON object", () => {
+    expect(parseReleaseMetadata("")).toBeNull();
+    expect(parseReleaseMetadata("just some release notes")).toBeNull();
+    expect(parseReleaseMetadata("42")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatReleaseBody / parseReleaseBody
+// ---------------------------------------------------------------------------
+
+describe("parseReleaseBody", () => {
+  const metadata = {
+    minimumConnectVersion: "2025.01.0",
+    requiredFeatures: [],
+    requiredEnvironment: {},
+    sha256: "abc",
+    size: 42,
+  };
+
+  it("round-trips notes and metadata", () => {
+    const body = formatReleaseBody(metadata, "\n- Added a thing\n");
+
+    expect(body.startsWith("- Added a thing\n\n<!-- connect-gallery-metadata")).toBe(true);
+    expect(parseReleaseBody(body)).toEqual({ metadata, notes: "- Added a thing" });
+  });
+
+  it("omits the notes when there are none", () => {
+    expect(parseReleaseBody(formatReleaseBody(metadata, null))).toEqual({
+      metadata,
+      notes: null,
+    });
+  });
+
+  it("keeps notes added after the metadata block", () => {
+    const body = `${formatReleaseBody(metadata)}\nEdited on GitHub`;
+
+    expect(parseReleaseBody(body).notes).toBe("Edited on GitHub");
+  });
+
+  it("escapes comment terminators inside the metadata", () => {
+    const tricky = { ...metadata, minimumConnectVersion: "a-->b" };
+
+    expect(parseReleaseBody(formatReleaseBody(tricky, "notes")).metadata).toEqual(tricky);
+  });
+
+  it("accepts bare JSON bodies from older releases", () => {
+    expect(parseReleaseBody(JSON.stringify(metadata))).toEqual({ metadata, notes: null });
+  });
+
+  it("treats other bodies as notes without metadata", () => {
+    expect(parseReleaseBody("just some release notes")).toEqual({
+      metadata: null,
+      notes: "just some release notes",
+    });
+    expect(parseReleaseBody("")).toEqual({ metadata: null, notes: null });
+  });
+});
+
+describe("releaseMetadataProblem", () => {
+  it("reports metadata blocks that cannot be used", () => {
+    expect(releaseMetadataProblem("Notes\n\n<!-- connect-gallery-metadata\n{bad\n-->")).toBe(
+      "The metadata in the release body is not valid JSON"
+    );
+    expect(releaseMetadataProblem("<!-- connect-gallery-metadata\n{}")).toBe(
+      "The metadata block in the release body is not closed"
+    );
+  });
+
+  it("accepts bodies with valid metadata or none", () => {
+    expect(releaseMetadataProblem(
+        formatReleaseBody({ minimumConnectVersion: "2025.01.0", requiredFeatures: [], requiredEnvironment: {} })
+      )).toBeNull();
+    expect(releaseMetadataProblem("just some release notes")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractChangelogSection
+// ---------------------------------------------------------------------------
+
+describe("extractChangelogSection", () => {
+  const changelog = [
+    "# Changelog",
+    "",
+    "## [Unreleased]",
+    "",
+    "- Work in progress",
+    "",
+    "## [1.2.0] - 2025-01-31",
+    "",
+    "### Added",
+    "",
+    "- A feature",
+    "",
+    "## v1.1.0",
+    "",
+    "- A fix",
+    "",
+    "## 1.0.0",
+    "",
+    "- Initial release",
+    "",
+    "[1.2.0]: https://example.com/compare/v1.1.0...v1.2.0",
+  ].join("\n");
+
+  it("returns the section for a version, including subsections", () => {
+    expect(extractChangelogSection(changelog, "1.2.0")).toBe("### Added\n\n- A feature");
+  });
+
+  it("accepts headings with a v prefix", () => {
+    expect(extractChangelogSection(changelog, "1.1.0")).toBe("- A fix");
+  });
+
+  it("drops link reference definitions from the last section", () => {
+    expect(extractChangelogSection(changelog, "1.0.0")).toBe("- Initial release");
+  });
+
+  it("does not match versions that only share a prefix", () => {
+    expect(extractChangelogSection("## 1.0.0-beta.1\n\n- Beta", "1.0.0")).toBeNull();
+  });
+
+  it("returns null when there is no section or it is empty", () => {
+    expect(extractChangelogSection(changelog, "0.9.0")).toBeNull();
+    expect(extractChangelogSection("## 1.0.0\n## 0.9.0\n- Old", "1.0.0")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diffReleaseMetadata
+// ---------------------------------------------------------------------------
+
+describe("diffReleaseMetadata", () => {
+  it("returns no fields when the manifest matches the metadata", () => {
+    const manifest: ExtensionManifest = {
+      ...makeManifest({ requiredFeatures: ["gpu"] }),
+      environment: { python: { requires: "~=3.8" }, r: { requires: "~=4.2" } },
+    };
+    const metadata = {
+      minimumConnectVersion: "2024.01.0",
+      requiredFeatures: ["gpu"],
+      // Key order does not matter
+      requiredEnvironment: { r: { requires: "~=4.2" }, python: { requires: "~=3.8" } },
+    };
+
+    expect(diffReleaseMetadata(metadata, manifest)).toEqual([]);
+  });
+
+  it("ignores requirements that differ only in formatting", () => {
+    const manifest: ExtensionManifest = {
+      ...makeManifest(),
+      environment: { python: { requires: ">=3.9,<3.13" } },
+    };
+    const metadata = {
+      minimumConnectVersion: "2024.01.0",
+      requiredFeatures: [],
+      requiredEnvironment: { python: { requires: ">= 3.9, < 3.13" } },
+    };
+
+    expect(diffReleaseMetadata(metadata, manifest)).toEqual([]);
+  });
+
+  it("lists the fields that changed", () => {
+    const manifest = makeManifest({ minimumConnectVersion: "2025.01.0", requiredFeatures: ["gpu"] });
+    const metadata = {
+      minimumConnectVersion: "2024.01.0",
+      requiredFeatures: [],
+      requiredEnvironment: {},
+    };
+
+    expect(diffReleaseMetadata(metadata, manifest)).toEqual([
+      "minimumConnectVersion",
+      "requiredFeatures",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// planRelease
+// ---------------------------------------------------------------------------
+
+describe("planRelease", () => {
+  function releaseFor(version: string, publishedAt = "2024-06-01T00:00:00Z", body = "") {
+    return makeRelease({ tagName: `my-ext@v${version}`, publishedAt, body });
+  }
+
+  it("releases the first version of an extension", () => {
+    const plan = planRelease(makeManifest({ version: "1.0.0" }), []);
+
+    expect(plan).toEqual({
+      action: "release",
+      version: "1.0.0",
+      latestVersion: null,
+      tag: "my-ext@v1.0.0",
+      reason: "The manifest version '1.0.0' is greater than the released version 'none'.",
+    });
+  });
+
+  it("releases a version greater than the latest release", () => {
+    const plan = planRelease(makeManifest({ version: "1.1.0" }), [releaseFor("1.0.0")]);
+
+    expect(plan.action).toBe("release");
+    expect(plan.latestVersion).toBe("1.0.0");
+  });
+
+  it("compares by semver rather than publish date", () => {
+    // 1.4.1 was published as a patch after 2.0.0
+    const releases = [
+      releaseFor("2.0.0", "2024-06-01T00:00:00Z"),
+      releaseFor("1.4.1", "2024-07-01T00:00:00Z"),
+    ];
+
+    const plan = planRelease(makeManifest({ version: "2.0.1" }), releases);
+
+    expect(plan.action).toBe("release");
+    expect(plan.latestVersion).toBe("2.0.0");
+  });
+
+  it("skips the reserved 0.0.0 version", () => {
+    const plan = planRelease(makeManifest({ version: "0.0.0" }), []);
+
+    expect(plan.action).toBe("skip");
+    expect(plan.reason).toBe("Version 0.0.0 is reserved and will never be released.");
+  });
+
+  it("skips a version that is already released", () => {
+    const plan = planRelease(makeManifest({ version: "1.0.0" }), [releaseFor("1.0.0")]);
+
+    expect(plan.action).toBe("skip");
+  });
+
+  it("errors when a released version's metadata has changed", () => {
+    const manifest = makeManifest({ version: "1.0.0", minimumConnectVersion: "2025.01.0" });
+    const body = JSON.stringify({
+      minimumConnectVersion: "2024.01.0",
+      requiredFeatures: [],
+      requiredEnvironment: {},
+    });
+
+    const plan = planRelease(manifest, [releaseFor("1.0.0", undefined, body)]);
+
+    expect(plan.action).toBe("error");
+    expect(plan.reason).toBe(
+      "Version '1.0.0' was already released with a different minimumConnectVersion. Bump the version to release these changes."
+    );
+  });
+
+  it("errors when the manifest version is lower than the latest release", () => {
+    const plan = planRelease(makeManifest({ version: "1.0.0" }), [releaseFor("1.2.0")]);
+
+    expect(plan.action).toBe("error");
+    expect(plan.reason).toBe(
+      "The manifest version '1.0.0' is lower than the latest released version '1.2.0'."
+    );
+  });
+
+  it("errors on an invalid version", () => {
+    expect(planRelease(makeManifest({ version: "1.0" }), []).action).toBe("error");
+  });
+
+  it("ignores releases of other extensions", () => {
+    const other = makeRelease({ tagName: "other@v9.0.0" });
+
+    expect(planRelease(makeManifest({ version: "1.0.0" }), [other]).latestVersion).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // collectTagsAndFeatures
 // ---------------------------------------------------------------------------
@@ -315,6 +933,22 @@ describe("transformGitHubApiReleases", () => {
     ]);
   });
 
+  it("keeps the prerelease flag", () => {
+    const apiReleases: GitHubApiRelease[] = [
+      {
+        tag_name: "ext@v2.0.0-beta.1",
+        published_at: "2025-01-01T00:00:00Z",
+        assets: [],
+        body: "",
+        prerelease: true,
+      },
+    ];
+
+    const result = transformGitHubApiReleases(apiReleases);
+
+    expect(result[0].prerelease).toBe(true);
+  });
+
   it("handles releases with no assets", () => {
     const apiReleases: GitHubApiRelease[] = [
       {
@@ -368,6 +1002,19 @@ describe("transformGitHubApiReleases", () => {
     expect(result[1].tagName).toBe("ext@v1.0.0");
   });
 
+  it("drops drafts and unpublished releases", () => {
+    const asset = { name: "ext.tar.gz", browser_download_url: "https://example.com/ext.tar.gz" };
+    const apiReleases: GitHubApiRelease[] = [
+      { tag_name: "ext@v1.1.0", published_at: null, assets: [asset], body: "", draft: true },
+      { tag_name: "ext@v1.0.1", published_at: null, assets: [asset], body: "" },
+      { tag_name: "ext@v1.0.0", published_at: "2024-06-01T00:00:00Z", assets: [asset], body: "" },
+    ];
+
+    const result = transformGitHubApiReleases(apiReleases);
+
+    expect(result.map((r) => r.tagName)).toEqual(["ext@v1.0.0"]);
+  });
+
   it("produces output compatible with parseExtensionRelease", () => {
     const apiReleases: GitHubApiRelease[] = [
       {
@@ -415,6 +1062,7 @@ describe("buildOutput", () => {
 
     const output = buildOutput(extensions, config, tags, features);
 
+    expect(output.schemaVersion).toBe(1);
     expect(output.categories).toEqual(config.categories);
     expect(output.tags).toEqual(["a-tag", "z-tag"]);
     expect(output.requiredFeatures).toEqual(["a-feat", "z-feat"]);
@@ -1,15 +1,190 @@
 import semverValid from "semver/functions/valid";
 import semverRcompare from "semver/functions/rcompare";
+import semverEq from "semver/functions/eq";
+import semverLt from "semver/functions/lt";
+import semverPrerelease from "semver/functions/prerelease";
+import semverMajor from "semver/functions/major";
+import semverMinor from "semver/functions/minor";
 
 import {
   Extension,
   ExtensionManifest,
   ExtensionVersion,
   GalleryConfig,
+  GalleryOutput,
   GitHubApiRelease,
   GitHubRelease,
+  ReleaseAction,
   ReleaseMetadata,
+  ReleasePlan,
+  RetentionPolicy,
 } from "./types";
+import {
+  compareSegments,
+  normalizeEnvironment,
+  releaseSegments,
+} from "./requirements";
+import { renderMarkdown } from "./markdown-lib";
+import { releaseMedia } from "./media-lib";
+import { SCHEMA_VERSION } from "./schema";
+
+// Release bodies hold human release notes followed by the metadata JSON inside
+// an HTML comment, which GitHub does not render
+const METADATA_START = "<!-- connect-gallery-metadata";
+const METADATA_END = "-->";
+
+function parseMetadataJson(json: string): ReleaseMetadata | null {
+  try {
+    const metadata = JSON.parse(json);
+    return typeof metadata === "object" && metadata !== null ? metadata : null;
+  } catch {
+    return null;
+  }
+}
+
+// GitHub rejects release bodies longer than this many characters
+export const MAX_RELEASE_BODY_LENGTH = 125_000;
+
+/**
+ * Write a release body containing the release notes, if any, followed by a
+ * metadata block that `parseReleaseBody()` can find again.
+ */
+export function formatReleaseBody(
+  metadata: ReleaseMetadata,
+  notes?: string | null
+): string {
+  // "-->" can only occur inside a JSON string, where it can be escaped
+  const json = JSON.stringify(metadata).replace(/-->/g, "--\\u003e");
+  const block = `${METADATA_START}\n${json}\n${METADATA_END}`;
+  return notes?.trim() ? `${notes.trim()}\n\n${block}\n` : `${block}\n`;
+}
+
+/**
+ * Split a release body into its metadata and release notes. Bodies made before
+ * release notes were supported are bare metadata JSON and have no notes; bodies
+ * without metadata are treated as notes only.
+ */
+export function parseReleaseBody(body: string): {
+  metadata: ReleaseMetadata | null;
+  notes: string | null;
+} {
+  const start = body.indexOf(METADATA_START);
+  const end = start === -1 ? -1 : body.indexOf(METADATA_END, start);
+  if (end !== -1) {
+    const notes = (
+      body.slice(0, start) + body.slice(end + METADATA_END.length)
+    ).trim();
+    return {
+      metadata: parseMetadataJson(
+        body.slice(start + METADATA_START.length, end)
+      ),
+      notes: notes || null,
+    };
+  }
+
+  const metadata = parseMetadataJson(body);
+  return { metadata, notes: metadata || !body.trim() ? null : body.trim() };
+}
+
+/**
+ * Why the metadata block in a release body cannot be used, or null if it can
+ * or the body has none. Releases with unusable metadata fall back to the
+ * current manifest's requirements.
+ */
+export function releaseMetadataProblem(body: string): string | null {
+  const start = body.indexOf(METADATA_START);
+  if (start === -1) return null;
+  if (body.indexOf(METADATA_END, start) === -1) {
+    return "The metadata block in the release body is not closed";
+  }
+  return parseReleaseBody(body).metadata
+    ? null
+    : "The metadata in the release body is not valid JSON";
+}
+
+/**
+ * Parse the metadata stored in a release body, or return null for old
+ * releases that predate it.
+ */
+export function parseReleaseMetadata(body: string): ReleaseMetadata | null {
+  return parseReleaseBody(body).metadata;
+}
+
+/**
+ * Find the section of a CHANGELOG.md for a version, i.e. everything under a
+ * heading such as `## 1.2.0`, `## v1.2.0` or `## [1.2.0] - 2025-01-31` up to
+ * the next heading of the same or a higher level. Returns null if the
+ * changelog has no section for the version.
+ */
+export function extractChangelogSection(
+  changelog: string,
+  version: string
+): string | null {
+  const escaped = version.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const heading = new RegExp(`^(#{1,6})\\s+\\[?v?${escaped}\\]?(?=$|[\\s(:])`);
+  const lines = changelog.split(/\r?\n/);
+
+  const index = lines.findIndex((line) => heading.test(line));
+  if (index === -1) return null;
+  const level = lines[index].match(heading)[1].length;
+
+  const section: string[] = [];
+  for (const line of lines.slice(index + 1)) {
+    const next = line.match(/^(#{1,6})\s/);
+    if (next && next[1].length <= level) break;
+    // Link reference definitions, e.g. `[1.2.0]: https://...`, only make
+    // sense alongside the rest of the changelog
+    if (/^\[[^\]]+\]:\s*\S+/.test(line)) continue;
+    section.push(line);
+  }
+
+  return section.join("\n").trim() || null;
+}
+
+/**
+ * Determine the release channel of a version: the first prerelease identifier
+ * (`beta` for `2.0.0-beta.1`), `prerelease` when that identifier is numeric or
+ * the release is only marked as a prerelease on GitHub, or null for stable
+ * versions.
+ */
+export function releaseChannel(
+  version: string,
+  markedPrerelease = false
+): string | null {
+  const identifiers = semverPrerelease(version);
+  if (identifiers && identifiers.length > 0) {
+    return typeof identifiers[0] === "string" ? identifiers[0] : "prerelease";
+  }
+  return markedPrerelease ? "prerelease" : null;
+}
+
+/**
+ * Why `parseExtensionRelease()` skips a release tagged for the given
+ * extension, or null if it does not.
+ */
+export function releaseSkipReason(
+  release: GitHubRelease,
+  extensionName: string
+): { kind: "missing-asset" | "invalid-version"; message: string } | null {
+  const version = release.tagName.slice(`${extensionName}@v`.length);
+  if (semverValid(version) === null) {
+    return {
+      kind: "invalid-version",
+      message: `'${version}' is not a valid semantic version`,
+    };
+  }
+
+  const asset = `${extensionName}.tar.gz`;
+  if (!release.assets.some((a) => a.name === asset)) {
+    const found = release.assets.map((a) => a.name);
+    return {
+      kind: "missing-asset",
+      message: `The release has no ${asset} asset${found.length > 0 ? ` (found: ${found.join(", ")})` : ""}`,
+    };
+  }
+
+  return null;
+}
 
 /**
  * Parse a single GitHub release into an ExtensionVersion for the given
@@ -21,20 +196,15 @@ export function parseExtensionRelease(
   manifest: ExtensionManifest
 ): ExtensionVersion | null {
   if (!release.tagName.startsWith(`${extensionName}@v`)) return null;
+  if (releaseSkipReason(release, extensionName)) return null;
 
-  const version = release.tagName.split("@v")[1];
+  const version = release.tagName.slice(`${extensionName}@v`.length);
   const asset = release.assets.find((a) => a.name === `${extensionName}.tar.gz`);
 
-  if (!asset) return null;
+  // Old releases without metadata fall back to current manifest values
+  const { metadata, notes } = parseReleaseBody(release.body);
 
-  let metadata: ReleaseMetadata | null = null;
-  try {
-    metadata = JSON.parse(release.body);
-  } catch {
-    // Old release without metadata — fall back to current manifest values
-  }
-
-  if (semverValid(version) === null) return null;
+  const channel = releaseChannel(version, release.prerelease);
 
   const extVersion: ExtensionVersion = {
     version,
@@ -49,21 +219,100 @@ export function parseExtensionRelease(
         ? { requiredFeatures: manifest.extension.requiredFeatures }
         : {}),
     ...(metadata?.requiredEnvironment
-      ? { requiredEnvironment: metadata.requiredEnvironment }
+      ? { requiredEnvironment: normalizeEnvironment(metadata.requiredEnvironment) }
       : manifest.environment
-        ? { requiredEnvironment: manifest.environment }
+        ? { requiredEnvironment: normalizeEnvironment(manifest.environment) }
         : {}),
+    ...(metadata?.sha256 ? { sha256: metadata.sha256 } : {}),
+    ...(typeof metadata?.size === "number" ? { size: metadata.size } : {}),
+    ...(channel ? { channel } : {}),
+    ...(notes ? { changelog: notes } : {}),
   };
 
   return extVersion;
 }
 
+/**
+ * The versions a retention policy keeps, in the order given (newest first).
+ * Yanked versions only count towards `keepNewest`, since the other rules
+ * exist to keep something installable.
+ */
+export function retainVersions(
+  versions: ExtensionVersion[],
+  policy: RetentionPolicy | undefined,
+  always: ExtensionVersion[] = []
+): ExtensionVersion[] {
+  if (
+    !policy ||
+    (policy.keepNewest === undefined &&
+      !policy.keepLatestPatches &&
+      !policy.keepForOlderConnect)
+  ) {
+    return versions;
+  }
+
+  const kept = new Set(always);
+  if (policy.keepNewest !== undefined) {
+    versions.slice(0, policy.keepNewest).forEach((v) => kept.add(v));
+  }
+
+  const installable = versions.filter((v) => !v.channel && !v.yanked);
+  if (policy.keepLatestPatches) {
+    const lines = new Set<string>();
+    for (const v of installable) {
+      const line = `${semverMajor(v.version)}.${semverMinor(v.version)}`;
+      if (!lines.has(line)) kept.add(v);
+      lines.add(line);
+    }
+  }
+  if (policy.keepForOlderConnect) {
+    // Walking from the newest version, a version is the best one for its
+    // minimum Connect version if every newer one requires a later Connect
+    let lowest: number[] | null = null;
+    for (const v of installable) {
+      const minimum = releaseSegments(v.minimumConnectVersion);
+      if (!minimum) continue;
+      if (lowest === null || compareSegments(minimum, lowest) < 0) {
+        kept.add(v);
+        lowest = minimum;
+      }
+    }
+  }
+
+  return versions.filter((v) => kept.has(v));
+}
+
+// The icon, screenshots and README of the release of a version
+function extensionMedia(
+  releases: GitHubRelease[],
+  name: string,
+  version: string
+): Pick<Extension, "icon" | "screenshots" | "readme"> {
+  const release = releases.find((r) => r.tagName === `${name}@v${version}`);
+  const markdown = parseReleaseBody(release.body).metadata?.readme;
+  const readme =
+    release.readmeHtml ??
+    (typeof markdown === "string" && markdown.trim() ? renderMarkdown(markdown) : undefined);
+  return {
+    ...releaseMedia(release, name),
+    ...(readme ? { readme } : {}),
+  };
+}
+
 /**
  * Build the Extension[] array from manifests and releases.
+ *
+ * Prerelease versions are listed in `versions` but never become
+ * `latestVersion`, so extensions with only prereleases are left out. Versions
+ * yanked in the config are flagged in `versions` and are never chosen as
+ * `latestVersion` or `latestPrerelease` either. The retention policy of the
+ * manifest, or else of the config, decides which other versions are listed.
+ * The icon, screenshots and README are those released with `latestVersion`.
  */
 export function buildExtensions(
   manifests: Map<string, ExtensionManifest>,
-  releases: GitHubRelease[]
+  releases: GitHubRelease[],
+  config: Partial<GalleryConfig> = {}
 ): Extension[] {
   const extensions: Extension[] = [];
 
@@ -73,24 +322,65 @@ export function buildExtensions(
     // Skip extensions with version 0.0.0 (not yet released)
     if (manifest.extension.version === "0.0.0") continue;
 
+    const yanked = new Map(
+      (config.yanked || [])
+        .filter((y) => y.extension === name)
+        .map((y) => [y.version, y.reason])
+    );
+    const deprecation = (config.deprecated || []).find(
+      (d) => d.extension === name
+    );
+
     const extensionReleases = releases
       .map((r) => parseExtensionRelease(r, name, manifest))
       .filter((v): v is ExtensionVersion => v !== null)
+      .map((v) =>
+        yanked.has(v.version)
+          ? { ...v, yanked: true, yankedReason: yanked.get(v.version) }
+          : v
+      )
       .sort((a, b) => semverRcompare(a.version, b.version));
 
-    if (extensionReleases.length === 0) continue;
+    const latestVersion = extensionReleases.find((v) => !v.channel && !v.yanked);
+    if (!latestVersion) continue;
+
+    // Sorted newest first, so a prerelease ahead of every other available
+    // version is newer than the latest stable version
+    const newest = extensionReleases.find((v) => !v.yanked);
+    const latestPrerelease =
+      config.publishLatestPrerelease && newest.channel ? newest : undefined;
 
     extensions.push({
       name,
       title: manifest.extension.title,
       description: manifest.extension.description,
       homepage: manifest.extension.homepage,
-      latestVersion: extensionReleases[0],
-      versions: extensionReleases,
+      latestVersion,
+      ...(latestPrerelease ? { latestPrerelease } : {}),
+      versions: retainVersions(
+        extensionReleases,
+        manifest.extension.retention ?? config.retention,
+        [latestVersion, latestPrerelease].filter(Boolean)
+      ),
       tags: manifest.extension.tags || [],
       ...(manifest.extension.category
         ? { category: manifest.extension.category }
         : {}),
+      ...(manifest.extension.translations
+        ? { translations: manifest.extension.translations }
+        : {}),
+      ...extensionMedia(releases, name, latestVersion.version),
+      ...(deprecation
+        ? {
+            deprecated: true,
+            ...(deprecation.reason
+              ? { deprecationReason: deprecation.reason }
+              : {}),
+            ...(deprecation.replacedBy
+              ? { replacedBy: deprecation.replacedBy }
+              : {}),
+          }
+        : {}),
     });
   }
 
@@ -98,6 +388,124 @@ export function buildExtensions(
   return extensions;
 }
 
+// JSON with object keys sorted, so values can be compared regardless of the
+// order fields were written in
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(value[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The release metadata recorded for a manifest, without the tarball's
+ * `sha256` and `size`.
+ */
+export function manifestReleaseMetadata(
+  manifest: ExtensionManifest
+): ReleaseMetadata {
+  return {
+    minimumConnectVersion: manifest.extension.minimumConnectVersion,
+    requiredFeatures: manifest.extension.requiredFeatures || [],
+    requiredEnvironment: normalizeEnvironment(manifest.environment || {}),
+  };
+}
+
+/**
+ * List the release metadata fields whose value in the manifest differs from
+ * what was recorded when the release was made. Requirements are compared in
+ * normalized form, since older releases recorded them as written.
+ */
+export function diffReleaseMetadata(
+  metadata: ReleaseMetadata,
+  manifest: ExtensionManifest
+): string[] {
+  const current = manifestReleaseMetadata(manifest);
+  const recorded = {
+    ...metadata,
+    requiredEnvironment: normalizeEnvironment(metadata.requiredEnvironment ?? {}),
+  };
+  return Object.keys(current).filter(
+    (field) =>
+      canonicalJson(recorded[field] ?? (field === "requiredFeatures" ? [] : {})) !==
+      canonicalJson(current[field])
+  );
+}
+
+/**
+ * Decide whether the version in a manifest should be released, by comparing
+ * it by semver against the extension's existing releases.
+ *
+ * - `release` when the version is greater than every released version
+ * - `skip` for the reserved 0.0.0 or a version that is already released
+ * - `error` for an invalid version, a version lower than the latest release,
+ *   or an already released version whose metadata has since changed
+ */
+export function planRelease(
+  manifest: ExtensionManifest,
+  releases: GitHubRelease[]
+): ReleasePlan {
+  const name = manifest.extension.name;
+  const version = manifest.extension.version;
+  const tag = `${name}@v${version}`;
+
+  const released = releases
+    .map((r) => parseExtensionRelease(r, name, manifest))
+    .filter((v): v is ExtensionVersion => v !== null)
+    .sort((a, b) => semverRcompare(a.version, b.version));
+  const latestVersion = released.length > 0 ? released[0].version : null;
+
+  const plan = (action: ReleaseAction, reason: string): ReleasePlan => ({
+    action,
+    version,
+    latestVersion,
+    tag,
+    reason,
+  });
+
+  if (semverValid(version) === null) {
+    return plan("error", `'${version}' is not a valid semantic version.`);
+  }
+
+  if (version === "0.0.0") {
+    return plan("skip", "Version 0.0.0 is reserved and will never be released.");
+  }
+
+  const existing = released.find((v) => semverEq(v.version, version));
+  if (existing) {
+    const release = releases.find(
+      (r) => r.tagName === `${name}@v${existing.version}`
+    );
+    const metadata = parseReleaseMetadata(release.body);
+    const changed = metadata ? diffReleaseMetadata(metadata, manifest) : [];
+    if (changed.length > 0) {
+      return plan(
+        "error",
+        `Version '${version}' was already released with a different ${changed.join(", ")}. Bump the version to release these changes.`
+      );
+    }
+    return plan("skip", `Version '${version}' has already been released.`);
+  }
+
+  if (latestVersion !== null && semverLt(version, latestVersion)) {
+    return plan(
+      "error",
+      `The manifest version '${version}' is lower than the latest released version '${latestVersion}'.`
+    );
+  }
+
+  return plan(
+    "release",
+    `The manifest version '${version}' is greater than the released version '${latestVersion ?? "none"}'.`
+  );
+}
+
 /**
  * Collect all unique tags and features from a set of manifests.
  */
@@ -123,11 +531,12 @@ export function collectTagsAndFeatures(
  * Transform raw GitHub REST API release objects into our GitHubRelease type.
  * `gh release list --json` does not expose the `assets` or `body` fields, so
  * we query the REST API directly and map the snake_case response here.
+ * Drafts and other unpublished releases are dropped.
  */
 export function transformGitHubApiReleases(
   raw: GitHubApiRelease[]
 ): GitHubRelease[] {
-  return raw.map((r) => ({
+  return raw.filter((r) => !r.draft && r.published_at).map((r) => ({
     tagName: r.tag_name,
     publishedAt: r.published_at,
     assets: (r.assets ?? []).map((a) => ({
@@ -135,6 +544,7 @@ export function transformGitHubApiReleases(
       url: a.browser_download_url,
     })),
     body: r.body ?? "",
+    ...(r.prerelease ? { prerelease: true } : {}),
   }));
 }
 
@@ -146,8 +556,9 @@ export function buildOutput(
   config: GalleryConfig,
   allTags: Set<string>,
   allFeatures: Set<string>
-) {
+): GalleryOutput {
   return {
+    schemaVersion: SCHEMA_VERSION,
     categories: config.categories,
     tags: [...allTags].sort(),
     requiredFeatures: [...allFeatures].sort(),
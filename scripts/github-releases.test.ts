@@ -0,0 +1,296 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { GitHubApiRelease } from "./types";
+import {
+  CachedResponse,
+  createGitHubReleaseSource,
+  fetchRepoManifests,
+  parseNextLink,
+  retryDelay,
+} from "./github-releases";
+
+// ---------------------------------------------------------------------------
+// Local stand-in for the GitHub REST API
+// ---------------------------------------------------------------------------
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: http.IncomingMessage[];
+
+beforeEach(async () => {
+  requests = [];
+  server = http.createServer((req, res) => {
+    requests.push(req);
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function makeApiRelease(tag: string): GitHubApiRelease {
+  return {
+    tag_name: tag,
+    published_at: "2024-06-01T00:00:00Z",
+    assets: [],
+    body: "",
+  };
+}
+
+function sendJson(res: http.ServerResponse, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(200, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const noSleep = async () => {};
+
+// ---------------------------------------------------------------------------
+// createGitHubReleaseSource
+// ---------------------------------------------------------------------------
+
+describe("createGitHubReleaseSource", () => {
+  it("follows Link header pagination across every page", async () => {
+    handler = (req, res) => {
+      const page = new URL(req.url!, baseUrl).searchParams.get("page") || "1";
+      const next =
+        page === "1"
+          ? { Link: `<${baseUrl}/repos/org/repo/releases?per_page=100&page=2>; rel="next"` }
+          : {};
+      sendJson(res, [makeApiRelease(`ext@v${page}.0.0`)], next);
+    };
+
+    const source = createGitHubReleaseSource({ repo: "org/repo", apiUrl: baseUrl });
+    const releases = await source.listReleases();
+
+    expect(releases.map((r) => r.tagName)).toEqual(["ext@v1.0.0", "ext@v2.0.0"]);
+    expect(requests[0].url).toBe("/repos/org/repo/releases?per_page=100");
+  });
+
+  it("leaves out draft releases", async () => {
+    handler = (req, res) =>
+      sendJson(res, [
+        { ...makeApiRelease("ext@v1.1.0"), published_at: null, draft: true },
+        makeApiRelease("ext@v1.0.0"),
+      ]);
+
+    const releases = await createGitHubReleaseSource({ repo: "org/repo", apiUrl: baseUrl }).listReleases();
+
+    expect(releases.map((r) => r.tagName)).toEqual(["ext@v1.0.0"]);
+  });
+
+  it("sends the token and API version headers", async () => {
+    handler = (req, res) => sendJson(res, []);
+
+    await createGitHubReleaseSource({
+      repo: "org/repo",
+      apiUrl: `${baseUrl}/api/v3/`,
+      token: "secret",
+    }).listReleases();
+
+    expect(requests[0].url).toBe("/api/v3/repos/org/repo/releases?per_page=100");
+    expect(requests[0].headers.authorization).toBe("Bearer secret");
+    expect(requests[0].headers["x-github-api-version"]).toBe("2022-11-28");
+  });
+
+  it("replays cached pages when the server answers 304", async () => {
+    handler = (req, res) => {
+      if (req.headers["if-none-match"] === '"v1"') {
+        res.writeHead(304);
+        res.end();
+      } else {
+        sendJson(res, [makeApiRelease("ext@v1.0.0")], { ETag: '"v1"' });
+      }
+    };
+    const cache = new Map<string, CachedResponse>();
+    const source = createGitHubReleaseSource({ repo: "org/repo", apiUrl: baseUrl, cache });
+
+    const first = await source.listReleases();
+    const second = await source.listReleases();
+
+    expect(second).toEqual(first);
+    expect(requests[1].headers["if-none-match"]).toBe('"v1"');
+    expect(cache.size).toBe(1);
+  });
+
+  it("retries server errors and rate limits", async () => {
+    const responses = [503, 429];
+    handler = (req, res) => {
+      const status = responses.shift();
+      if (status) {
+        res.writeHead(status, { "Retry-After": "0" });
+        res.end();
+      } else {
+        sendJson(res, [makeApiRelease("ext@v1.0.0")]);
+      }
+    };
+    const delays: number[] = [];
+
+    const releases = await createGitHubReleaseSource({
+      repo: "org/repo",
+      apiUrl: baseUrl,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    }).listReleases();
+
+    expect(releases).toHaveLength(1);
+    expect(delays).toEqual([1000, 0]);
+  });
+
+  it("throws once retries are exhausted", async () => {
+    handler = (req, res) => {
+      res.writeHead(502);
+      res.end();
+    };
+
+    await expect(
+      createGitHubReleaseSource({
+        repo: "org/repo",
+        apiUrl: baseUrl,
+        maxRetries: 2,
+        sleep: noSleep,
+      }).listReleases()
+    ).rejects.toThrow(/GitHub API request failed: 502/);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("does not retry client errors", async () => {
+    handler = (req, res) => {
+      res.writeHead(404);
+      res.end();
+    };
+
+    await expect(
+      createGitHubReleaseSource({ repo: "org/repo", apiUrl: baseUrl, sleep: noSleep }).listReleases()
+    ).rejects.toThrow(/404/);
+    expect(requests).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchRepoManifests
+// ---------------------------------------------------------------------------
+
+describe("fetchRepoManifests", () => {
+  const manifest = { extension: { name: "remote-ext", version: "1.0.0" } };
+
+  beforeEach(() => {
+    handler = (req, res) => {
+      const url = new URL(req.url!, baseUrl);
+      if (url.pathname.startsWith("/repos/org/other/git/trees/")) {
+        sendJson(res, {
+          tree: [
+            { path: "extensions", type: "tree", sha: "t1" },
+            { path: "extensions/remote-ext/manifest.json", type: "blob", sha: "b1" },
+            { path: "extensions/remote-ext/vendor/pkg/manifest.json", type: "blob", sha: "b2" },
+            { path: "examples/demo/manifest.json", type: "blob", sha: "b3" },
+          ],
+        });
+      } else if (url.pathname === "/repos/org/other/git/blobs/b1") {
+        sendJson(res, {
+          content: Buffer.from(JSON.stringify(manifest)).toString("base64"),
+          encoding: "base64",
+        });
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    };
+  });
+
+  it("reads each manifest directly inside the extensions directory", async () => {
+    const manifests = await fetchRepoManifests({
+      repo: "org/other",
+      apiUrl: baseUrl,
+      extensionsDir: "extensions/",
+    });
+
+    expect([...manifests]).toEqual([["remote-ext", manifest]]);
+    expect(requests.map((r) => r.url)).toEqual([
+      "/repos/org/other/git/trees/HEAD?recursive=1",
+      "/repos/org/other/git/blobs/b1",
+    ]);
+  });
+
+  it("reads manifests at the given ref", async () => {
+    await fetchRepoManifests({
+      repo: "org/other",
+      apiUrl: baseUrl,
+      extensionsDir: "extensions",
+      ref: "release/2025",
+    });
+
+    expect(requests[0].url).toBe("/repos/org/other/git/trees/release%2F2025?recursive=1");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseNextLink
+// ---------------------------------------------------------------------------
+
+describe("parseNextLink", () => {
+  it("finds the next URL among other relations", () => {
+    const link =
+      '<https://api.github.com/x?page=2>; rel="next", <https://api.github.com/x?page=5>; rel="last"';
+
+    expect(parseNextLink(link)).toBe("https://api.github.com/x?page=2");
+  });
+
+  it("returns null on the last page", () => {
+    expect(parseNextLink('<https://api.github.com/x?page=1>; rel="first"')).toBeNull();
+    expect(parseNextLink(null)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// retryDelay
+// ---------------------------------------------------------------------------
+
+describe("retryDelay", () => {
+  function makeResponse(status: number, headers: Record<string, string> = {}) {
+    return { status, headers: new Headers(headers) };
+  }
+
+  it("waits until the rate limit resets", () => {
+    const response = makeResponse(403, {
+      "x-ratelimit-remaining": "0",
+      "x-ratelimit-reset": "1000",
+    });
+
+    expect(retryDelay(response, 0, 990_000)).toBe(10_000);
+  });
+
+  it("honors Retry-After for secondary rate limits", () => {
+    expect(retryDelay(makeResponse(403, { "retry-after": "30" }), 0)).toBe(30_000);
+  });
+
+  it("accepts an HTTP date in Retry-After", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    const response = makeResponse(429, { "retry-after": "Wed, 21 Oct 2015 07:28:30 GMT" });
+
+    expect(retryDelay(response, 0, now)).toBe(30_000);
+  });
+
+  it("falls back to the default backoff for an unreadable Retry-After", () => {
+    expect(retryDelay(makeResponse(429, { "retry-after": "soon" }), 1)).toBe(2000);
+    expect(retryDelay(makeResponse(403, { "retry-after": "soon" }), 0)).toBeNull();
+  });
+
+  it("backs off exponentially on server errors", () => {
+    expect(retryDelay(makeResponse(500), 0)).toBe(1000);
+    expect(retryDelay(makeResponse(500), 2)).toBe(4000);
+  });
+
+  it("does not retry other client errors", () => {
+    expect(retryDelay(makeResponse(403), 0)).toBeNull();
+    expect(retryDelay(makeResponse(404), 0)).toBeNull();
+  });
+});
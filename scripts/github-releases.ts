@@ -0,0 +1,238 @@
+import fs from "fs";
+
+import {
+  ExtensionManifest,
+  GitHubApiRelease,
+  GitHubRelease,
+  ReleaseSource,
+} from "./types";
+import { transformGitHubApiReleases } from "./generate-gallery-lib";
+
+const DEFAULT_API_URL = "https://api.github.com";
+
+/** A previously fetched page, replayed when GitHub answers 304 Not Modified. */
+export interface CachedResponse {
+  etag: string;
+  body: unknown;
+  next: string | null;
+}
+
+/** Storage for conditional requests. A plain `Map` satisfies this. */
+export interface ResponseCache {
+  get(url: string): CachedResponse | undefined;
+  set(url: string, response: CachedResponse): void;
+}
+
+export interface GitHubReleaseSourceOptions {
+  /** Repository in `owner/name` form. */
+  repo: string;
+  token?: string;
+  /** REST API base URL, e.g. `https://github.example.com/api/v3` for GitHub Enterprise. */
+  apiUrl?: string;
+  /** Transport used for every request; defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  cache?: ResponseCache;
+  /** Number of retries for rate limits, server errors and network failures. */
+  maxRetries?: number;
+  /** Give up instead of waiting longer than this for a single retry. */
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Extract the `rel="next"` URL from a GitHub `Link` header, or null on the
+ * last page.
+ */
+export function parseNextLink(link: string | null): string | null {
+  if (!link) return null;
+  for (const part of link.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+    if (match && match[2].split(/\s+/).includes("next")) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Work out how long to wait before retrying a failed response, or null if it
+ * should not be retried.
+ */
+export function retryDelay(
+  response: Pick<Response, "status" | "headers">,
+  attempt: number,
+  now: number = Date.now()
+): number | null {
+  const { status, headers } = response;
+
+  // Retry-After is either a number of seconds or an HTTP date; anything else
+  // falls through to the rate limit headers and the default backoff
+  const retryAfter = headers.get("retry-after");
+  if ((status === 403 || status === 429) && retryAfter !== null) {
+    const seconds = Number(retryAfter);
+    if (retryAfter.trim() !== "" && Number.isFinite(seconds)) {
+      return Math.max(seconds, 0) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(date - now, 0);
+  }
+
+  if (
+    (status === 403 || status === 429) &&
+    headers.get("x-ratelimit-remaining") === "0"
+  ) {
+    const reset = Number(headers.get("x-ratelimit-reset"));
+    return Number.isFinite(reset) ? Math.max(reset * 1000 - now, 0) : null;
+  }
+
+  if (status === 429 || status >= 500) {
+    return 1000 * 2 ** attempt;
+  }
+
+  return null;
+}
+
+// Shared request logic for the REST API: backs off on rate limits and server
+// errors, and sends `If-None-Match` for pages in the cache
+function createPageFetcher(
+  options: GitHubReleaseSourceOptions
+): (url: string) => Promise<CachedResponse> {
+  const doFetch = options.fetch || fetch;
+  const cache = options.cache || new Map<string, CachedResponse>();
+  const maxRetries = options.maxRetries ?? 3;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+  const sleep =
+    options.sleep ||
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  async function fetchPage(url: string): Promise<CachedResponse> {
+    const cached = cache.get(url);
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    if (cached) headers["If-None-Match"] = cached.etag;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await doFetch(url, { headers });
+      } catch (err) {
+        if (attempt >= maxRetries) throw err;
+        await sleep(1000 * 2 ** attempt);
+        continue;
+      }
+
+      if (response.status === 304 && cached) return cached;
+
+      if (response.ok) {
+        const page: CachedResponse = {
+          etag: response.headers.get("etag") || "",
+          body: await response.json(),
+          next: parseNextLink(response.headers.get("link")),
+        };
+        if (page.etag) cache.set(url, page);
+        return page;
+      }
+
+      const delay = retryDelay(response, attempt);
+      if (delay === null || attempt >= maxRetries || delay > maxDelayMs) {
+        throw new Error(
+          `GitHub API request failed: ${response.status} ${response.statusText} (${url})`
+        );
+      }
+      await sleep(delay);
+    }
+  }
+
+  return fetchPage;
+}
+
+/**
+ * Create a release source backed by the GitHub REST API. Follows `Link`
+ * header pagination until every release has been fetched, backs off on rate
+ * limits and server errors, and sends `If-None-Match` for pages in the cache.
+ */
+export function createGitHubReleaseSource(
+  options: GitHubReleaseSourceOptions
+): ReleaseSource {
+  const apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/+$/, "");
+  const fetchPage = createPageFetcher(options);
+
+  return {
+    async listReleases(): Promise<GitHubRelease[]> {
+      const raw: GitHubApiRelease[] = [];
+      let url: string | null =
+        `${apiUrl}/repos/${options.repo}/releases?per_page=100`;
+
+      while (url) {
+        const page = await fetchPage(url);
+        raw.push(...(page.body as GitHubApiRelease[]));
+        url = page.next;
+      }
+
+      return transformGitHubApiReleases(raw);
+    },
+  };
+}
+
+/**
+ * Read the extension manifests of another repository through the GitHub REST
+ * API, without cloning it: every `{extensionsDir}/{dir}/manifest.json` at
+ * `ref`. The returned map is keyed by directory name, like the manifests the
+ * generator scans locally.
+ */
+export async function fetchRepoManifests(
+  options: GitHubReleaseSourceOptions & { extensionsDir: string; ref?: string }
+): Promise<Map<string, ExtensionManifest>> {
+  const apiUrl = (options.apiUrl || DEFAULT_API_URL).replace(/\/+$/, "");
+  const fetchPage = createPageFetcher(options);
+  const ref = encodeURIComponent(options.ref || "HEAD");
+  const prefix = options.extensionsDir.replace(/^\/+|\/+$/g, "");
+
+  const tree = (
+    await fetchPage(
+      `${apiUrl}/repos/${options.repo}/git/trees/${ref}?recursive=1`
+    )
+  ).body as { tree: { path: string; type: string; sha: string }[] };
+
+  const manifests = new Map<string, ExtensionManifest>();
+  for (const entry of tree.tree) {
+    const parts = entry.path.split("/");
+    const dir = parts[parts.length - 2];
+    if (
+      entry.type !== "blob" ||
+      parts.length < 2 ||
+      parts.slice(0, -2).join("/") !== prefix ||
+      parts[parts.length - 1] !== "manifest.json"
+    ) {
+      continue;
+    }
+
+    const blob = (
+      await fetchPage(`${apiUrl}/repos/${options.repo}/git/blobs/${entry.sha}`)
+    ).body as { content: string; encoding: string };
+    const text = Buffer.from(
+      blob.content,
+      blob.encoding === "base64" ? "base64" : "utf8"
+    ).toString("utf8");
+    manifests.set(dir, JSON.parse(text));
+  }
+
+  return manifests;
+}
+
+/**
+ * Load a response cache previously written by `saveResponseCache()`, or an
+ * empty one if the file does not exist.
+ */
+export function loadResponseCache(file: string): Map<string, CachedResponse> {
+  if (!fs.existsSync(file)) return new Map();
+  return new Map(Object.entries(JSON.parse(fs.readFileSync(file, "utf8"))));
+}
+
+export function saveResponseCache(
+  file: string,
+  cache: Map<string, CachedResponse>
+): void {
+  fs.writeFileSync(file, JSON.stringify(Object.fromEntries(cache)) + "\n");
+}
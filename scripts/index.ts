@@ -0,0 +1,68 @@
+// Library entry point: the operations behind the connect-gallery CLI, for use
+// from other scripts without going through the command line or environment
+export * from "./types";
+export {
+  checkExtensionBump,
+  CommandError,
+  detectExtensionChanges,
+  generateGallery,
+  inspectTarball,
+  lintExtension,
+  mirrorExtensions,
+  planExtensionRelease,
+  prepareReleaseNotes,
+  renderGallerySite,
+  suggestEnvironment,
+} from "./commands";
+export type {
+  CheckBumpOptions,
+  DetectChangesOptions,
+  GenerateOptions,
+  GenerateResult,
+  InspectOptions,
+  LintOptions,
+  LintResult,
+  Log,
+  MirrorCommandOptions,
+  PlanReleaseOptions,
+  ReleaseNotesOptions,
+  ReleaseNotesResult,
+  ReleaseSourceOptions,
+  RenderSiteOptions,
+  SuggestEnvironmentOptions,
+} from "./commands";
+export {
+  buildExtensions,
+  buildOutput,
+  planRelease,
+  releaseChannel,
+} from "./generate-gallery-lib";
+export { incompatibilities, resolveCompatible } from "./compat-lib";
+export type { ResolveOptions } from "./compat-lib";
+export {
+  normalizeEnvironment,
+  normalizeRequirement,
+  parseRequirement,
+  satisfiesRequirement,
+} from "./requirements";
+export type { ParsedRequirement, RequirementClause } from "./requirements";
+export { changedFiles, detectChanges, readFileAtBase } from "./changes-lib";
+export { checkBump, isShipped, manifestChanges } from "./bump-lib";
+export type { BumpInput } from "./bump-lib";
+export {
+  checkEnvironment,
+  inferEnvironment,
+  readBundleFiles,
+} from "./environment-lib";
+export { auditGallery, formatAuditMarkdown } from "./audit-lib";
+export { checkMedia, mediaFiles, releaseMedia } from "./media-lib";
+export type { MediaFile, MediaLimits } from "./media-lib";
+export { diffGallery, describeDiff, formatCommitMessage } from "./diff-gallery";
+export { packageExtension, parseSize } from "./package-lib";
+export type { PackageOptions, PackageResult } from "./package-lib";
+export { inspectBundle } from "./inspect-lib";
+export { renderMarkdown } from "./markdown-lib";
+export { verifyGallery } from "./verify-lib";
+export type { VerifyOptions } from "./verify-lib";
+export { loadSchema, validateSchema, SCHEMA_VERSION } from "./schema";
+export { validateManifest } from "./validate-manifest";
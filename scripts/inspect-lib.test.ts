@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+
+import { ExtensionManifest } from "./types";
+import { inspectBundle } from "./inspect-lib";
+import { createTarGz, TarEntry } from "./tar";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeManifest(
+  extension: Partial<ExtensionManifest["extension"]> = {},
+  rest: Partial<ExtensionManifest> = {}
+): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      ...extension,
+    },
+    ...rest,
+  };
+}
+
+function file(path: string, content: string): TarEntry {
+  return { path, type: "file", mode: 0o644, data: Buffer.from(content) };
+}
+
+function bundle(manifest: unknown, manifestPath = "manifest.json"): Buffer {
+  return createTarGz([
+    file("app.py", "print('hi')"),
+    file(manifestPath, JSON.stringify(manifest)),
+  ]);
+}
+
+function messages(archive: Buffer, options = {}): string[] {
+  return inspectBundle(archive, options).issues.map((i) => i.message);
+}
+
+// ---------------------------------------------------------------------------
+// inspectBundle
+// ---------------------------------------------------------------------------
+
+describe("inspectBundle", () => {
+  it("accepts a tarball matching the source manifest and tag", () => {
+    const manifest = makeManifest();
+
+    const result = inspectBundle(bundle(manifest), {
+      sourceManifest: manifest,
+      tag: "my-ext@v1.0.0",
+    });
+
+    expect(result.issues).toEqual([]);
+    expect(result.manifest).toEqual(manifest);
+    expect(result.files.map((f) => f.path)).toEqual(["app.py", "manifest.json"]);
+  });
+
+  it("rejects data that is not a tarball", () => {
+    expect(messages(Buffer.from("not a tarball"))).toEqual([
+      expect.stringMatching(/^Not a valid .tar.gz archive/),
+    ]);
+  });
+
+  it("requires a manifest.json", () => {
+    const archive = createTarGz([file("app.py", "")]);
+
+    expect(messages(archive)).toEqual(["The tarball does not contain a manifest.json"]);
+  });
+
+  it("requires manifest.json at the root", () => {
+    const archive = bundle(makeManifest(), "my-ext/manifest.json");
+
+    expect(messages(archive)).toEqual([
+      "manifest.json must be at the root of the tarball, found 'my-ext/manifest.json'",
+    ]);
+  });
+
+  it("reports invalid JSON", () => {
+    const archive = createTarGz([file("manifest.json", "{")]);
+
+    expect(messages(archive)).toEqual([
+      expect.stringMatching(/^manifest.json is not valid JSON/),
+    ]);
+  });
+
+  it("validates the embedded manifest", () => {
+    const { manifest, issues } = inspectBundle(
+      bundle(makeManifest({ version: "one" }))
+    );
+
+    expect(manifest).toBeNull();
+    expect(issues.map((i) => i.path)).toEqual(["extension.version"]);
+  });
+
+  it("reports a different name or version than the source manifest", () => {
+    const archive = bundle(makeManifest({ name: "other-ext", version: "0.9.0" }));
+
+    expect(messages(archive, { sourceManifest: makeManifest() })).toEqual([
+      "The tarball contains extension 'other-ext' but the source manifest is for 'my-ext'",
+      "The tarball contains version '0.9.0' but the source manifest has version '1.0.0'",
+    ]);
+  });
+
+  it("reports release metadata that differs from the source manifest", () => {
+    const archive = bundle(
+      makeManifest(
+        { requiredFeatures: ["OAuth Integrations"] },
+        { environment: { python: { requires: ">=3.10" } } }
+      )
+    );
+
+    const { issues } = inspectBundle(archive, { sourceManifest: makeManifest() });
+
+    expect(issues.map((i) => i.path)).toEqual([
+      "extension.requiredFeatures",
+      "environment",
+    ]);
+  });
+
+  it("reports a version that does not match the release tag", () => {
+    expect(messages(bundle(makeManifest()), { tag: "my-ext@v1.1.0" })).toEqual([
+      "The tarball contains my-ext v1.0.0, which does not match the release tag 'my-ext@v1.1.0'",
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { ExtensionManifest, ValidationIssue, ValidationSeverity } from "./types";
+import {
+  diffReleaseMetadata,
+  manifestReleaseMetadata,
+} from "./generate-gallery-lib";
+import { readTarGz, TarEntry } from "./tar";
+import { validateManifest } from "./validate-manifest";
+
+export interface InspectBundleOptions {
+  /** The manifest.json in the repository the tarball was built from. */
+  sourceManifest?: ExtensionManifest;
+  /** Tag the tarball is about to be released under, e.g. `my-ext@v1.2.0`. */
+  tag?: string;
+}
+
+export interface BundleInspection {
+  /** The manifest.json at the root of the tarball, if it could be read. */
+  manifest: ExtensionManifest | null;
+  files: TarEntry[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Open a packaged extension and check it is safe to release: the tarball must
+ * have a valid manifest.json at its root, and that manifest must describe the
+ * same extension, version and release metadata as the source manifest and the
+ * planned tag. Every problem is returned rather than stopping at the first.
+ */
+export function inspectBundle(
+  archive: Buffer,
+  options: InspectBundleOptions = {}
+): BundleInspection {
+  const issues: ValidationIssue[] = [];
+  const report = (
+    severity: ValidationSeverity,
+    path: string,
+    message: string
+  ) => issues.push({ path, message, severity });
+  const result = (manifest: ExtensionManifest | null, files: TarEntry[]) => ({
+    manifest,
+    files,
+    issues,
+  });
+
+  let entries: TarEntry[];
+  try {
+    entries = readTarGz(archive);
+  } catch (err) {
+    report("error", "", `Not a valid .tar.gz archive: ${(err as Error).message}`);
+    return result(null, []);
+  }
+
+  const files = entries.filter((e) => e.type === "file");
+  const manifestEntry = files.find((e) => e.path === "manifest.json");
+  if (!manifestEntry) {
+    const nested = files.find((e) => e.path.endsWith("/manifest.json"));
+    report(
+      "error",
+      "",
+      nested
+        ? `manifest.json must be at the root of the tarball, found '${nested.path}'`
+        : "The tarball does not contain a manifest.json"
+    );
+    return result(null, files);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(manifestEntry.data.toString("utf8"));
+  } catch (err) {
+    report("error", "", `manifest.json is not valid JSON: ${(err as Error).message}`);
+    return result(null, files);
+  }
+
+  issues.push(...validateManifest(parsed));
+  if (issues.some((i) => i.severity === "error")) {
+    return result(null, files);
+  }
+
+  const manifest = parsed as ExtensionManifest;
+  const { name, version } = manifest.extension;
+  const source = options.sourceManifest;
+
+  if (source) {
+    if (name !== source.extension.name) {
+      report(
+        "error",
+        "extension.name",
+        `The tarball contains extension '${name}' but the source manifest is for '${source.extension.name}'`
+      );
+    }
+    if (version !== source.extension.version) {
+      report(
+        "error",
+        "extension.version",
+        `The tarball contains version '${version}' but the source manifest has version '${source.extension.version}'`
+      );
+    }
+
+    // Release metadata is built from the source manifest, so it has to agree
+    // with what Connect will read from the tarball
+    const metadata = manifestReleaseMetadata(source);
+    for (const field of diffReleaseMetadata(metadata, manifest)) {
+      report(
+        "error",
+        field === "requiredEnvironment" ? "environment" : `extension.${field}`,
+        `The tarball's ${field} differs from the source manifest`
+      );
+    }
+  }
+
+  if (options.tag !== undefined && options.tag !== `${name}@v${version}`) {
+    report(
+      "error",
+      "extension.version",
+      `The tarball contains ${name} v${version}, which does not match the release tag '${options.tag}'`
+    );
+  }
+
+  return result(manifest, files);
+}
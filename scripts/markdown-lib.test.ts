@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+
+import { renderMarkdown } from "./markdown-lib";
+
+// ---------------------------------------------------------------------------
+// renderMarkdown
+// ---------------------------------------------------------------------------
+
+describe("renderMarkdown", () => {
+  it("renders headings, paragraphs and rules", () => {
+    expect(renderMarkdown("# Title\n\nFirst line\nsecond line\n\n---\n\nSub\n===\n\n### Closed ###")).toBe(
+      "<h1>Title</h1>\n<p>First line\nsecond line</p>\n<hr>\n<h1>Sub</h1>\n<h3>Closed</h3>"
+    );
+  });
+
+  it("renders emphasis and code spans", () => {
+    expect(renderMarkdown("Some **bold**, *italic*, _also_, ~~gone~~ and `a *b* <c>`.")).toBe(
+      "<p>Some <strong>bold</strong>, <em>italic</em>, <em>also</em>, <del>gone</del> and <code>a *b* &lt;c&gt;</code>.</p>"
+    );
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(renderMarkdown("Set MY_API_KEY and snake_case_name")).toBe(
+      "<p>Set MY_API_KEY and snake_case_name</p>"
+    );
+  });
+
+  it("renders fenced code blocks without touching their content", () => {
+    expect(renderMarkdown("```python\nprint(\"<b>\")\n# **not bold**\n```")).toBe(
+      '<pre><code class="language-python">print(&quot;&lt;b&gt;&quot;)\n# **not bold**\n</code></pre>'
+    );
+  });
+
+  it("renders lists and block quotes", () => {
+    expect(renderMarkdown("- one\n- two\n  - nested\n\n3. three\n4. four\n\n> quoted\n> text")).toBe(
+      [
+        "<ul>",
+        "<li>one</li>",
+        "<li>two\n<ul>\n<li>nested</li>\n</ul></li>",
+        "</ul>",
+        '<ol start="3">',
+        "<li>three</li>",
+        "<li>four</li>",
+        "</ol>",
+        "<blockquote>\n<p>quoted\ntext</p>\n</blockquote>",
+      ].join("\n")
+    );
+  });
+
+  it("wraps the items of lists separated by blank lines in paragraphs", () => {
+    expect(renderMarkdown("- one\n\n- two\n\n  more")).toBe(
+      "<ul>\n<li><p>one</p></li>\n<li><p>two</p>\n<p>more</p></li>\n</ul>"
+    );
+  });
+
+  it("renders links to web and mail URLs", () => {
+    expect(
+      renderMarkdown('See [the *docs*](https://example.com/a_b?x=1&y=2 "Docs"), <https://example.com> or [mail](mailto:a@example.com).')
+    ).toBe(
+      '<p>See <a href="https://example.com/a_b?x=1&amp;y=2">the <em>docs</em></a>, <a href="https://example.com">https://example.com</a> or <a href="mailto:a@example.com">mail</a>.</p>'
+    );
+  });
+
+  it("keeps only the text of links to other URLs", () => {
+    expect(renderMarkdown("[click](javascript:alert(1)) [guide](docs/guide.md)")).toBe(
+      "<p>click) guide</p>"
+    );
+  });
+
+  it("links images instead of embedding them", () => {
+    expect(renderMarkdown("![Screenshot](https://example.com/shot.png) ![local](shot.png)")).toBe(
+      '<p><a href="https://example.com/shot.png">Screenshot</a> local</p>'
+    );
+  });
+
+  it("escapes raw HTML", () => {
+    expect(renderMarkdown('<img src=x onerror="alert(1)">\n\n<script>alert(1)</script>')).toBe(
+      "<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>\n<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"
+    );
+  });
+
+  it("keeps escaped characters literal", () => {
+    expect(renderMarkdown("\\*not italic\\* and \\# not a heading")).toBe(
+      "<p>*not italic* and # not a heading</p>"
+    );
+  });
+
+  it("cannot be tricked into writing attributes", () => {
+    const html = renderMarkdown('[x](https://example.com/"onmouseover="alert(1)) **[y](https://e.com/**)**');
+
+    expect(html).not.toMatch(/<a [^>]*"[^>]*"[^>]*"/);
+    expect(html).not.toContain('"onmouseover');
+  });
+});
@@ -0,0 +1,229 @@
+import { escapeHtml } from "./site-lib";
+
+// READMEs are written by extension authors and shown by every gallery
+// consumer, so the renderer is safe by construction: all text, including raw
+// HTML in the Markdown, is escaped, and only the tags below are ever written,
+// with no attributes besides the href of links to web and mail URLs.
+//
+// It covers the Markdown READMEs use most: ATX and setext headings,
+// paragraphs, emphasis, code spans and fenced code blocks, links, block
+// quotes, lists and horizontal rules. Anything else is shown as text.
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const QUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const SETEXT = /^ {0,3}(=+|-+)\s*$/;
+
+// Placeholders keep rendered fragments away from the later inline rules
+const STASH = /\u0000(\d+)\u0000/g;
+
+function safeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url);
+}
+
+function renderInline(text: string): string {
+  const stash: string[] = [];
+  const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/\u0000/g, "")
+    .replace(/(`+)(.+?)\1(?!`)/g, (_, __, code: string) =>
+      hold(`<code>${escapeHtml(code.trim() || code)}</code>`)
+    );
+  html = escapeHtml(html)
+    .replace(/\\([\\`*_{}[\]()#+\-.!])/g, (_, c: string) => hold(c))
+    .replace(/&lt;((?:https?:\/\/|mailto:)[^\s&]+)&gt;/gi, (_, url: string) =>
+      hold(`<a href="${url}">${url}</a>`)
+    )
+    .replace(
+      /(!?)\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+&quot;.*?&quot;)?\s*\)/g,
+      (_, image: string, label: string, url: string) => {
+        // Images are linked rather than embedded, so a README cannot make
+        // consumers load anything
+        const content = emphasis(label) || url;
+        return hold(safeUrl(url) ? `<a href="${url}">${content}</a>` : content);
+      }
+    );
+  html = emphasis(html);
+
+  while (html.includes("\u0000")) {
+    html = html.replace(STASH, (_, i: string) => stash[Number(i)]);
+  }
+  return html;
+}
+
+// Each rule only wraps text without tags, so the tags written always nest
+// properly; emphasis inside emphasis is left as written
+function emphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)([^<]+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w])__(?=\S)([^<]+?)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(?=[^\s*])([^<]+?)\*/g, "<em>$1</em>")
+    .replace(/(^|[^\w])_(?=[^\s_])([^<]+?)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(?=\S)([^<]+?)~~/g, "<del>$1</del>");
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line)
+  );
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function renderBlocks(lines: string[], tight = false): string[] {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2]
+        ? ` class="language-${escapeHtml(fence[2])}"`
+        : "";
+      out.push(
+        `<pre><code${language}>${escapeHtml(code.join("\n"))}${code.length ? "\n" : ""}</code></pre>`
+      );
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2] || "")}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const match = QUOTE.exec(lines[i]);
+        quoted.push(match ? match[1] : lines[i]);
+        i++;
+      }
+      out.push(`<blockquote>\n${renderBlocks(quoted).join("\n")}\n</blockquote>`);
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first) {
+      const ordered = /\d/.test(first[2]);
+      const start = ordered ? parseInt(first[2], 10) : 1;
+      const items: string[][] = [];
+      let loose = false;
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+        const contentIndent = item[1].length + item[2].length + Math.max(1, item[3].length);
+        const content = [item[4]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line only continues the item if indented content follows
+            const following = lines[i + 1];
+            if (following !== undefined && following.trim() && indentOf(following) >= contentIndent) {
+              content.push("");
+              loose = true;
+              i++;
+              continue;
+            }
+            const sibling = LIST_ITEM.exec(following || "");
+            if (sibling && /\d/.test(sibling[2]) === ordered && indentOf(following) < contentIndent) {
+              loose = true;
+            }
+            break;
+          }
+          if (indentOf(next) >= contentIndent) {
+            content.push(next.slice(contentIndent));
+          } else if (isBlockStart(next)) {
+            break;
+          } else {
+            // Lazy continuation of the item's paragraph
+            content.push(next.trim());
+          }
+          i++;
+        }
+        items.push(content);
+        const sibling = LIST_ITEM.exec(lines[i + 1] || "");
+        if (i < lines.length && !lines[i].trim() && sibling && /\d/.test(sibling[2]) === ordered) {
+          i++;
+        }
+      }
+
+      const tag = ordered ? "ol" : "ul";
+      const attributes = ordered && start !== 1 ? ` start="${start}"` : "";
+      out.push(
+        [
+          `<${tag}${attributes}>`,
+          ...items.map((content) => `<li>${renderBlocks(content, !loose).join("\n")}</li>`),
+          `</${tag}>`,
+        ].join("\n")
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    i++;
+    let setext: number | null = null;
+    while (i < lines.length && lines[i].trim()) {
+      const underline = SETEXT.exec(lines[i]);
+      if (underline) {
+        setext = underline[1].startsWith("=") ? 1 : 2;
+        i++;
+        break;
+      }
+      if (isBlockStart(lines[i])) break;
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    const inline = renderInline(paragraph.join("\n"));
+    if (setext) {
+      out.push(`<h${setext}>${inline}</h${setext}>`);
+    } else {
+      out.push(tight ? inline : `<p>${inline}</p>`);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Render Markdown to HTML that is safe to insert into any page: raw HTML in
+ * the Markdown is escaped, and only links to http(s) and mailto URLs are kept.
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  return renderBlocks(lines).join("\n");
+}
@@ -0,0 +1,182 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { ExtensionManifest, GitHubRelease } from "./types";
+import {
+  checkMedia,
+  isMediaAsset,
+  mediaFiles,
+  readReadme,
+  releaseMedia,
+  stageMediaAssets,
+} from "./media-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "media-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function makeManifest(overrides: Partial<ExtensionManifest["extension"]> = {}): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      ...overrides,
+    },
+  };
+}
+
+function write(file: string, content: string | Buffer) {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+}
+
+// ---------------------------------------------------------------------------
+// mediaFiles
+// ---------------------------------------------------------------------------
+
+describe("mediaFiles", () => {
+  it("names the release asset of each file", () => {
+    const manifest = makeManifest({
+      icon: "images/Logo.SVG",
+      screenshots: ["images/main.png", "images/settings.jpg"],
+      readme: "README.md",
+    });
+
+    expect(mediaFiles(manifest).map((m) => [m.field, m.file, m.asset])).toEqual([
+      ["extension.icon", "images/Logo.SVG", "my-ext-icon.svg"],
+      ["extension.screenshots[0]", "images/main.png", "my-ext-screenshot-1.png"],
+      ["extension.screenshots[1]", "images/settings.jpg", "my-ext-screenshot-2.jpg"],
+      ["extension.readme", "README.md", null],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkMedia
+// ---------------------------------------------------------------------------
+
+describe("checkMedia", () => {
+  it("accepts files within the limits", () => {
+    write("icon.svg", '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+    write("screenshots/main.png", PNG);
+    write("README.md", "# My Extension\n");
+
+    const manifest = makeManifest({ icon: "icon.svg", screenshots: ["screenshots/main.png"], readme: "README.md" });
+
+    expect(checkMedia(dir, manifest)).toEqual([]);
+  });
+
+  it("reports missing, unsupported, oversized and malformed files", () => {
+    write("icon.png", Buffer.alloc(300 * 1024));
+    write("main.png", "not a png");
+    write("README.txt", "");
+
+    const manifest = makeManifest({
+      icon: "icon.png",
+      screenshots: ["main.png", "missing.png"],
+      readme: "README.txt",
+    });
+
+    expect(checkMedia(dir, manifest)).toEqual([
+      {
+        path: "extension.icon",
+        message: "'icon.png' is 300 KiB, more than the limit of 256 KiB",
+        severity: "error",
+      },
+      { path: "extension.screenshots[0]", message: "'main.png' is not a valid PNG file", severity: "error" },
+      {
+        path: "extension.screenshots[1]",
+        message: "'missing.png' does not exist in the extension directory",
+        severity: "error",
+      },
+      {
+        path: "extension.readme",
+        message: "'README.txt' is not a supported format (expected one of: .md)",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("limits the number of screenshots", () => {
+    const screenshots = Array.from({ length: 9 }, (_, i) => `${i}.png`);
+    screenshots.forEach((file) => write(file, PNG));
+
+    expect(checkMedia(dir, makeManifest({ screenshots }))).toEqual([
+      {
+        path: "extension.screenshots",
+        message: "9 screenshots are listed, but the gallery shows at most 8",
+        severity: "error",
+      },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readReadme / stageMediaAssets
+// ---------------------------------------------------------------------------
+
+describe("stageMediaAssets", () => {
+  it("copies the icon and screenshots under their asset names", () => {
+    write("icon.png", PNG);
+    write("shots/a.png", PNG);
+    write("README.md", "# Hello\n");
+    const manifest = makeManifest({ icon: "icon.png", screenshots: ["shots/a.png"], readme: "README.md" });
+
+    const staged = stageMediaAssets(dir, manifest, path.join(dir, "out"));
+
+    expect(staged.map((f) => path.relative(dir, f))).toEqual([
+      path.join("out", "my-ext-icon.png"),
+      path.join("out", "my-ext-screenshot-1.png"),
+    ]);
+    expect(readReadme(dir, manifest)).toBe("# Hello\n");
+    expect(readReadme(dir, makeManifest())).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// releaseMedia
+// ---------------------------------------------------------------------------
+
+describe("releaseMedia", () => {
+  const asset = (name: string) => ({ name, url: `https://example.com/${name}` });
+
+  it("finds the icon and screenshots in the order they were listed", () => {
+    const release: GitHubRelease = {
+      tagName: "my-ext@v1.0.0",
+      publishedAt: "2024-06-01T00:00:00Z",
+      assets: ["my-ext.tar.gz", "my-ext-screenshot-10.png", "my-ext-icon.svg", "my-ext-screenshot-2.png"].map(asset),
+      body: "",
+    };
+
+    expect(releaseMedia(release, "my-ext")).toEqual({
+      icon: "https://example.com/my-ext-icon.svg",
+      screenshots: ["https://example.com/my-ext-screenshot-2.png", "https://example.com/my-ext-screenshot-10.png"],
+    });
+  });
+
+  it("ignores assets of other extensions and releases without media", () => {
+    expect(isMediaAsset("my-ext-icon.png", "my")).toBe(false);
+    expect(isMediaAsset("my-ext-icon.png", "my-ext")).toBe(true);
+    expect(
+      releaseMedia({ tagName: "my-ext@v1.0.0", publishedAt: "", assets: [asset("my-ext.tar.gz")], body: "" }, "my-ext")
+    ).toEqual({});
+  });
+});
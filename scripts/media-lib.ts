@@ -0,0 +1,205 @@
+import fs from "fs";
+import path from "path";
+
+import { ExtensionManifest, GitHubRelease, ValidationIssue } from "./types";
+
+export interface MediaLimits {
+  /** Allowed file extensions, lowercase and with the dot. */
+  extensions: string[];
+  maxBytes: number;
+}
+
+export const ICON_LIMITS: MediaLimits = {
+  extensions: [".png", ".svg"],
+  maxBytes: 256 * 1024,
+};
+
+export const SCREENSHOT_LIMITS: MediaLimits = {
+  extensions: [".png", ".jpg", ".jpeg", ".gif", ".webp"],
+  maxBytes: 2 * 1024 * 1024,
+};
+
+export const MAX_SCREENSHOTS = 8;
+
+// The README is recorded in the release body, which GitHub limits to 125,000
+// characters
+export const README_LIMITS: MediaLimits = {
+  extensions: [".md"],
+  maxBytes: 64 * 1024,
+};
+
+/** A file referenced by a manifest, with the asset name it is released as. */
+export interface MediaFile {
+  /** Manifest path of the reference, e.g. `extension.screenshots[0]`. */
+  field: string;
+  /** Path relative to the extension directory. */
+  file: string;
+  /** Name of the release asset; null for the README, which goes in the body. */
+  asset: string | null;
+  limits: MediaLimits;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+// Whether a file starts with the signature of its format. SVG is text, so
+// only the presence of an <svg> element is checked
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  ".png": (d) => d.subarray(0, 8).equals(PNG_SIGNATURE),
+  ".jpg": (d) => d.subarray(0, 3).equals(JPEG_SIGNATURE),
+  ".jpeg": (d) => d.subarray(0, 3).equals(JPEG_SIGNATURE),
+  ".gif": (d) => /^GIF8[79]a/.test(d.subarray(0, 6).toString("latin1")),
+  ".webp": (d) =>
+    d.subarray(0, 4).toString("latin1") === "RIFF" &&
+    d.subarray(8, 12).toString("latin1") === "WEBP",
+  ".svg": (d) => /<svg[\s>]/.test(d.toString("utf8")),
+};
+
+/**
+ * The icon, screenshots and README a manifest references, in that order.
+ */
+export function mediaFiles(manifest: ExtensionManifest): MediaFile[] {
+  const { name, icon, screenshots, readme } = manifest.extension;
+  const files: MediaFile[] = [];
+  if (icon) {
+    files.push({
+      field: "extension.icon",
+      file: icon,
+      asset: `${name}-icon${path.extname(icon).toLowerCase()}`,
+      limits: ICON_LIMITS,
+    });
+  }
+  (screenshots || []).forEach((file, i) =>
+    files.push({
+      field: `extension.screenshots[${i}]`,
+      file,
+      asset: `${name}-screenshot-${i + 1}${path.extname(file).toLowerCase()}`,
+      limits: SCREENSHOT_LIMITS,
+    })
+  );
+  if (readme) {
+    files.push({ field: "extension.readme", file: readme, asset: null, limits: README_LIMITS });
+  }
+  return files;
+}
+
+/**
+ * Check that the files a manifest references exist in the extension
+ * directory and are within the format and size limits of the gallery.
+ */
+export function checkMedia(
+  dir: string,
+  manifest: ExtensionManifest
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message, severity: "error" });
+
+  const screenshots = manifest.extension.screenshots || [];
+  if (screenshots.length > MAX_SCREENSHOTS) {
+    report(
+      "extension.screenshots",
+      `${screenshots.length} screenshots are listed, but the gallery shows at most ${MAX_SCREENSHOTS}`
+    );
+  }
+
+  for (const { field, file, limits } of mediaFiles(manifest)) {
+    const ext = path.extname(file).toLowerCase();
+    if (!limits.extensions.includes(ext)) {
+      report(
+        field,
+        `'${file}' is not a supported format (expected one of: ${limits.extensions.join(", ")})`
+      );
+      continue;
+    }
+
+    const filePath = path.join(dir, file);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      report(field, `'${file}' does not exist in the extension directory`);
+      continue;
+    }
+
+    const size = fs.statSync(filePath).size;
+    if (size > limits.maxBytes) {
+      report(
+        field,
+        `'${file}' is ${Math.ceil(size / 1024)} KiB, more than the limit of ${limits.maxBytes / 1024} KiB`
+      );
+      continue;
+    }
+
+    const signature = SIGNATURES[ext];
+    if (signature && !signature(fs.readFileSync(filePath))) {
+      report(field, `'${file}' is not a valid ${ext.slice(1).toUpperCase()} file`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the README a manifest references, or null if it references none.
+ */
+export function readReadme(
+  dir: string,
+  manifest: ExtensionManifest
+): string | null {
+  const readme = manifest.extension.readme;
+  return readme ? fs.readFileSync(path.join(dir, readme), "utf8") : null;
+}
+
+/**
+ * Copy the icon and screenshots a manifest references into a directory under
+ * their asset names, ready to be attached to the release, and return the
+ * paths of the copies.
+ */
+export function stageMediaAssets(
+  dir: string,
+  manifest: ExtensionManifest,
+  outDir: string
+): string[] {
+  fs.mkdirSync(outDir, { recursive: true });
+  return mediaFiles(manifest)
+    .filter((m) => m.asset !== null)
+    .map((m) => {
+      const target = path.join(outDir, m.asset);
+      fs.copyFileSync(path.join(dir, m.file), target);
+      return target;
+    });
+}
+
+/**
+ * Whether a release asset is the icon or a screenshot of an extension, as
+ * named by `mediaFiles()`.
+ */
+export function isMediaAsset(asset: string, extensionName: string): boolean {
+  return (
+    asset.startsWith(`${extensionName}-`) &&
+    /^(icon|screenshot-\d+)\.[a-z]+$/.test(asset.slice(extensionName.length + 1))
+  );
+}
+
+/**
+ * The download URLs of the icon and screenshots attached to a release, with
+ * screenshots in the order they are listed in the manifest.
+ */
+export function releaseMedia(
+  release: GitHubRelease,
+  extensionName: string
+): { icon?: string; screenshots?: string[] } {
+  const media = release.assets.filter((a) => isMediaAsset(a.name, extensionName));
+  const icon = media.find((a) => a.name.startsWith(`${extensionName}-icon.`));
+  const screenshots = media
+    .map((a) => ({
+      url: a.url,
+      index: Number(a.name.slice(extensionName.length + 1).match(/^screenshot-(\d+)\./)?.[1]),
+    }))
+    .filter((s) => !Number.isNaN(s.index))
+    .sort((a, b) => a.index - b.index)
+    .map((s) => s.url);
+
+  return {
+    ...(icon ? { icon: icon.url } : {}),
+    ...(screenshots.length > 0 ? { screenshots } : {}),
+  };
+}
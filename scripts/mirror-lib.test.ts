@@ -0,0 +1,276 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { ExtensionManifest, GalleryOutput } from "./types";
+import { buildExtensions, formatReleaseBody } from "./generate-gallery-lib";
+import {
+  createMirrorReleaseSource,
+  expandUrlTemplate,
+  mirrorGallery,
+} from "./mirror-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+const TEMPLATE = "https://mirror.internal/{name}/{version}/{file}";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "mirror-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeVersion(name: string, version: string, metadata?: object) {
+  const versionDir = path.join(dir, name, version);
+  fs.mkdirSync(versionDir, { recursive: true });
+  fs.writeFileSync(path.join(versionDir, `${name}.tar.gz`), "tarball");
+  if (metadata) {
+    fs.writeFileSync(path.join(versionDir, "metadata.json"), JSON.stringify(metadata));
+  }
+}
+
+function makeManifest(name: string): ExtensionManifest {
+  return {
+    extension: {
+      name,
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2024.01.0",
+      tags: [],
+    },
+  };
+}
+
+function makeOutput(): GalleryOutput {
+  const version = {
+    version: "1.0.0",
+    released: "2024-06-01T00:00:00Z",
+    url: "https://github.com/org/repo/releases/download/my-ext%40v1.0.0/my-ext.tar.gz",
+    minimumConnectVersion: "2025.01.0",
+    requiredFeatures: ["API Publishing"],
+    requiredEnvironment: { python: { requires: "~=3.8" } },
+    changelog: "- Initial release",
+  };
+  return {
+    categories: [],
+    tags: [],
+    requiredFeatures: ["API Publishing"],
+    extensions: [
+      {
+        name: "my-ext",
+        title: "My Extension",
+        description: "A test extension",
+        homepage: "https://example.com",
+        latestVersion: version,
+        versions: [version],
+        tags: [],
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// expandUrlTemplate
+// ---------------------------------------------------------------------------
+
+describe("expandUrlTemplate", () => {
+  it("replaces every placeholder", () => {
+    expect(expandUrlTemplate(TEMPLATE, "my-ext", "1.0.0")).toBe(
+      "https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz"
+    );
+  });
+
+  it("expands other files of the version", () => {
+    expect(expandUrlTemplate(TEMPLATE, "my-ext", "1.0.0", "my-ext-icon.png")).toBe(
+      "https://mirror.internal/my-ext/1.0.0/my-ext-icon.png"
+    );
+  });
+
+  it("encodes characters that are not URL safe", () => {
+    expect(expandUrlTemplate("https://m/{version}", "my-ext", "1.0.0+build 1")).toBe(
+      "https://m/1.0.0%2Bbuild%201"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createMirrorReleaseSource
+// ---------------------------------------------------------------------------
+
+describe("createMirrorReleaseSource", () => {
+  it("presents each mirrored version as a release", async () => {
+    writeVersion("my-ext", "1.0.0", {
+      released: "2024-06-01T00:00:00Z",
+      minimumConnectVersion: "2025.01.0",
+      requiredFeatures: [],
+      requiredEnvironment: {},
+    });
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+
+    expect(releases).toEqual([
+      {
+        tagName: "my-ext@v1.0.0",
+        publishedAt: "2024-06-01T00:00:00Z",
+        assets: [
+          { name: "my-ext.tar.gz", url: "https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz" },
+        ],
+        body: formatReleaseBody({
+          minimumConnectVersion: "2025.01.0",
+          requiredFeatures: [],
+          requiredEnvironment: {},
+        }),
+      },
+    ]);
+  });
+
+  it("skips version directories without a tarball", async () => {
+    fs.mkdirSync(path.join(dir, "my-ext", "1.0.0"), { recursive: true });
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+
+    expect(releases).toEqual([]);
+  });
+
+  it("feeds buildExtensions, falling back to manifest values without metadata", async () => {
+    writeVersion("my-ext", "1.0.0");
+    writeVersion("my-ext", "1.1.0", { released: "2024-07-01T00:00:00Z", minimumConnectVersion: "2025.01.0" });
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+    const extensions = buildExtensions(new Map([["my-ext", makeManifest("my-ext")]]), releases);
+
+    expect(extensions[0].versions.map((v) => [v.version, v.minimumConnectVersion])).toEqual([
+      ["1.1.0", "2025.01.0"],
+      ["1.0.0", "2024.01.0"],
+    ]);
+    expect(extensions[0].latestVersion.url).toBe(
+      "https://mirror.internal/my-ext/1.1.0/my-ext.tar.gz"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mirrorGallery
+// ---------------------------------------------------------------------------
+
+describe("mirrorGallery", () => {
+  it("downloads tarballs, writes metadata and rewrites URLs", async () => {
+    const fetched: string[] = [];
+    const fakeFetch = (async (url: string) => {
+      fetched.push(url);
+      return new Response("tarball bytes");
+    }) as typeof fetch;
+
+    const mirrored = await mirrorGallery(makeOutput(), { dir, urlTemplate: TEMPLATE, fetch: fakeFetch });
+
+    const versionDir = path.join(dir, "my-ext", "1.0.0");
+    expect(fetched).toEqual([makeOutput().extensions[0].versions[0].url]);
+    expect(fs.readFileSync(path.join(versionDir, "my-ext.tar.gz"), "utf8")).toBe("tarball bytes");
+    expect(JSON.parse(fs.readFileSync(path.join(versionDir, "metadata.json"), "utf8"))).toEqual({
+      released: "2024-06-01T00:00:00Z",
+      minimumConnectVersion: "2025.01.0",
+      requiredFeatures: ["API Publishing"],
+      requiredEnvironment: { python: { requires: "~=3.8" } },
+      changelog: "- Initial release",
+    });
+    expect(mirrored.extensions[0].versions[0].url).toBe(
+      "https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz"
+    );
+    expect(mirrored.extensions[0].latestVersion.url).toBe(
+      "https://mirror.internal/my-ext/1.0.0/my-ext.tar.gz"
+    );
+  });
+
+  it("round-trips through the mirror release source", async () => {
+    const fakeFetch = (async () => new Response("tarball bytes")) as typeof fetch;
+    const mirrored = await mirrorGallery(makeOutput(), { dir, urlTemplate: TEMPLATE, fetch: fakeFetch });
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+    const extensions = buildExtensions(new Map([["my-ext", makeManifest("my-ext")]]), releases);
+
+    expect(extensions[0].versions).toEqual(mirrored.extensions[0].versions);
+  });
+
+  it("mirrors the icon, screenshots and README of the latest version", async () => {
+    const output = makeOutput();
+    Object.assign(output.extensions[0], {
+      icon: "https://github.com/org/repo/releases/download/my-ext%40v1.0.0/my-ext-icon.svg",
+      screenshots: ["https://example.com/images/main.png?raw=true"],
+      readme: "<h1>My Extension</h1>",
+    });
+    const fakeFetch = (async (url: string) => new Response(`bytes of ${url}`)) as typeof fetch;
+
+    const mirrored = await mirrorGallery(output, { dir, urlTemplate: TEMPLATE, fetch: fakeFetch });
+
+    expect(mirrored.extensions[0]).toMatchObject({
+      icon: "https://mirror.internal/my-ext/1.0.0/my-ext-icon.svg",
+      screenshots: ["https://mirror.internal/my-ext/1.0.0/my-ext-screenshot-1.png"],
+      readme: "<h1>My Extension</h1>",
+    });
+    expect(fs.readFileSync(path.join(dir, "my-ext", "1.0.0", "my-ext-screenshot-1.png"), "utf8")).toBe(
+      "bytes of https://example.com/images/main.png?raw=true"
+    );
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+    const [rebuilt] = buildExtensions(new Map([["my-ext", makeManifest("my-ext")]]), releases);
+
+    expect([rebuilt.icon, rebuilt.screenshots, rebuilt.readme]).toEqual([
+      mirrored.extensions[0].icon,
+      mirrored.extensions[0].screenshots,
+      "<h1>My Extension</h1>",
+    ]);
+  });
+
+  it("does not download tarballs already in the mirror", async () => {
+    writeVersion("my-ext", "1.0.0");
+    const fakeFetch = (async () => {
+      throw new Error("should not fetch");
+    }) as typeof fetch;
+
+    await expect(
+      mirrorGallery(makeOutput(), { dir, urlTemplate: TEMPLATE, fetch: fakeFetch })
+    ).resolves.toBeDefined();
+  });
+
+  it("keeps versions marked as prereleases on GitHub as prereleases", async () => {
+    const output = makeOutput();
+    const prerelease = { ...output.extensions[0].versions[0], version: "1.1.0", channel: "prerelease" };
+    output.extensions[0].versions.unshift(prerelease);
+    const fakeFetch = (async () => new Response("tarball bytes")) as typeof fetch;
+    await mirrorGallery(output, { dir, urlTemplate: TEMPLATE, fetch: fakeFetch });
+
+    const releases = await createMirrorReleaseSource({ dir, urlTemplate: TEMPLATE }).listReleases();
+    const extensions = buildExtensions(new Map([["my-ext", makeManifest("my-ext")]]), releases);
+
+    expect(extensions[0].latestVersion.version).toBe("1.0.0");
+    expect(extensions[0].versions[0].channel).toBe("prerelease");
+  });
+
+  it("rejects downloads that do not match the recorded sha256", async () => {
+    const output = makeOutput();
+    output.extensions[0].versions[0].sha256 = "0".repeat(64);
+    const fakeFetch = (async () => new Response("tampered bytes")) as typeof fetch;
+
+    await expect(
+      mirrorGallery(output, { dir, urlTemplate: TEMPLATE, fetch: fakeFetch })
+    ).rejects.toThrow(/sha256 is [0-9a-f]{64}, expected 0{64}/);
+    expect(fs.existsSync(path.join(dir, "my-ext", "1.0.0", "my-ext.tar.gz"))).toBe(false);
+  });
+
+  it("fails when a download fails", async () => {
+    const fakeFetch = (async () => new Response("", { status: 404, statusText: "Not Found" })) as typeof fetch;
+
+    await expect(
+      mirrorGallery(makeOutput(), { dir, urlTemplate: TEMPLATE, fetch: fakeFetch })
+    ).rejects.toThrow(/404 Not Found/);
+  });
+});
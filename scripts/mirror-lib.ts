@@ -0,0 +1,203 @@
+import fs from "fs";
+import path from "path";
+
+import {
+  Extension,
+  GalleryOutput,
+  GitHubRelease,
+  MirrorMetadata,
+  ReleaseMetadata,
+  ReleaseSource,
+} from "./types";
+import { formatReleaseBody } from "./generate-gallery-lib";
+import { isMediaAsset } from "./media-lib";
+import { compareDigest } from "./verify-lib";
+
+export interface MirrorOptions {
+  /** Root of the mirror, laid out as `{name}/{version}/{name}.tar.gz`. */
+  dir: string;
+  /**
+   * Template for the download URL of each tarball. `{name}`, `{version}` and
+   * `{file}` are replaced, e.g. `https://mirror.internal/{name}/{version}/{file}`.
+   */
+  urlTemplate: string;
+}
+
+/**
+ * Expand a download URL template for a file of a single extension version,
+ * by default its tarball.
+ */
+export function expandUrlTemplate(
+  template: string,
+  name: string,
+  version: string,
+  file = `${name}.tar.gz`
+): string {
+  return template
+    .replace(/\{name\}/g, encodeURIComponent(name))
+    .replace(/\{version\}/g, encodeURIComponent(version))
+    .replace(/\{file\}/g, encodeURIComponent(file));
+}
+
+function listDirs(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Create a release source that reads tarballs from a mirror directory instead
+ * of GitHub, for servers that cannot reach github.com. Each version found is
+ * presented as a release tagged `{name}@v{version}` so `buildExtensions()` can
+ * use it unchanged. Versions without a metadata.json fall back to the current
+ * manifest values, like old GitHub releases without metadata.
+ */
+export function createMirrorReleaseSource(options: MirrorOptions): ReleaseSource {
+  return {
+    async listReleases(): Promise<GitHubRelease[]> {
+      const releases: GitHubRelease[] = [];
+
+      for (const name of listDirs(options.dir)) {
+        for (const version of listDirs(path.join(options.dir, name))) {
+          const versionDir = path.join(options.dir, name, version);
+          const tarball = path.join(versionDir, `${name}.tar.gz`);
+          if (!fs.existsSync(tarball)) continue;
+
+          const metadataPath = path.join(versionDir, "metadata.json");
+          let metadata: Partial<MirrorMetadata> = {};
+          if (fs.existsSync(metadataPath)) {
+            metadata = JSON.parse(fs.readFileSync(metadataPath, "utf8"));
+          }
+          const { released, prerelease, changelog, readmeHtml, ...releaseMetadata } =
+            metadata;
+
+          releases.push({
+            tagName: `${name}@v${version}`,
+            publishedAt: released || fs.statSync(tarball).mtime.toISOString(),
+            assets: [
+              `${name}.tar.gz`,
+              ...fs
+                .readdirSync(versionDir)
+                .filter((file) => isMediaAsset(file, name))
+                .sort(),
+            ].map((file) => ({
+              name: file,
+              url: expandUrlTemplate(options.urlTemplate, name, version, file),
+            })),
+            body: metadata.minimumConnectVersion
+              ? formatReleaseBody(releaseMetadata as ReleaseMetadata, changelog)
+              : changelog || "",
+            ...(prerelease ? { prerelease } : {}),
+            ...(readmeHtml ? { readmeHtml } : {}),
+          });
+        }
+      }
+
+      return releases;
+    },
+  };
+}
+
+/**
+ * Download every tarball referenced by an existing extensions.json into the
+ * mirror layout, alongside the metadata needed to rebuild the gallery from the
+ * mirror and the icon and screenshots of each latest version, and return a
+ * copy of the output with URLs pointing at the mirror.
+ * Tarballs already present in the mirror are not downloaded again, and
+ * downloads that do not match their recorded sha256 are rejected.
+ */
+export async function mirrorGallery(
+  output: GalleryOutput,
+  options: MirrorOptions & { fetch?: typeof fetch }
+): Promise<GalleryOutput> {
+  const doFetch = options.fetch || fetch;
+
+  const extensions = [];
+  for (const extension of output.extensions) {
+    const versions = [];
+    const media: Partial<Pick<Extension, "icon" | "screenshots">> = {};
+    for (const version of extension.versions) {
+      const versionDir = path.join(options.dir, extension.name, version.version);
+      const tarball = path.join(versionDir, `${extension.name}.tar.gz`);
+      const latest = version.version === extension.latestVersion.version;
+      fs.mkdirSync(versionDir, { recursive: true });
+
+      // The icon and screenshots are those of the latest version, stored
+      // under the asset names they are released with
+      if (latest) {
+        const download = async (url: string, asset: string) => {
+          const file = `${extension.name}-${asset}${path.extname(new URL(url).pathname).toLowerCase()}`;
+          const target = path.join(versionDir, file);
+          if (!fs.existsSync(target)) {
+            const response = await doFetch(url);
+            if (!response.ok) {
+              throw new Error(
+                `Failed to download ${url}: ${response.status} ${response.statusText}`
+              );
+            }
+            fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+          }
+          return expandUrlTemplate(options.urlTemplate, extension.name, version.version, file);
+        };
+        if (extension.icon) media.icon = await download(extension.icon, "icon");
+        if (extension.screenshots) {
+          media.screenshots = [];
+          for (const [i, url] of extension.screenshots.entries()) {
+            media.screenshots.push(await download(url, `screenshot-${i + 1}`));
+          }
+        }
+      }
+
+      if (!fs.existsSync(tarball)) {
+        const response = await doFetch(version.url);
+        if (!response.ok) {
+          throw new Error(
+            `Failed to download ${version.url}: ${response.status} ${response.statusText}`
+          );
+        }
+        const data = Buffer.from(await response.arrayBuffer());
+        const difference = compareDigest(data, version);
+        if (difference) {
+          throw new Error(`Downloaded ${version.url} but its ${difference}`);
+        }
+        fs.writeFileSync(tarball, data);
+      }
+
+      const metadata: MirrorMetadata = {
+        released: version.released,
+        minimumConnectVersion: version.minimumConnectVersion,
+        requiredFeatures: version.requiredFeatures || [],
+        requiredEnvironment: version.requiredEnvironment || {},
+        ...(version.sha256 ? { sha256: version.sha256 } : {}),
+        ...(version.size !== undefined ? { size: version.size } : {}),
+        ...(version.channel ? { prerelease: true } : {}),
+        ...(version.changelog ? { changelog: version.changelog } : {}),
+        ...(latest && extension.readme ? { readmeHtml: extension.readme } : {}),
+      };
+      fs.writeFileSync(
+        path.join(versionDir, "metadata.json"),
+        JSON.stringify(metadata, null, 2) + "\n"
+      );
+
+      versions.push({
+        ...version,
+        url: expandUrlTemplate(options.urlTemplate, extension.name, version.version),
+      });
+    }
+
+    const mirrored = { ...extension, ...media, versions };
+    mirrored.latestVersion = versions.find(
+      (v) => v.version === extension.latestVersion.version
+    );
+    if (extension.latestPrerelease) {
+      mirrored.latestPrerelease = versions.find(
+        (v) => v.version === extension.latestPrerelease.version
+      );
+    }
+    extensions.push(mirrored);
+  }
+
+  return { ...output, extensions };
+}
@@ -0,0 +1,222 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  collectFiles,
+  findBundleRoot,
+  isIgnored,
+  loadIgnoreRules,
+  packageExtension,
+  parseIgnorePatterns,
+  parseSize,
+} from "./package-lib";
+import { readTarGz } from "./tar";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "package-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function write(relativePath: string, content = "") {
+  const fullPath = path.join(dir, relativePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+}
+
+// ---------------------------------------------------------------------------
+// parseIgnorePatterns / isIgnored
+// ---------------------------------------------------------------------------
+
+describe("isIgnored", () => {
+  it("matches unanchored patterns at any depth", () => {
+    const rules = parseIgnorePatterns(["*.log"]);
+
+    expect(isIgnored("debug.log", false, rules)).toBe(true);
+    expect(isIgnored("logs/debug.log", false, rules)).toBe(true);
+    expect(isIgnored("debug.txt", false, rules)).toBe(false);
+  });
+
+  it("anchors patterns containing a slash", () => {
+    const rules = parseIgnorePatterns(["/tests", "docs/*.md"]);
+
+    expect(isIgnored("tests", true, rules)).toBe(true);
+    expect(isIgnored("src/tests", true, rules)).toBe(false);
+    expect(isIgnored("docs/readme.md", false, rules)).toBe(true);
+    expect(isIgnored("docs/api/readme.md", false, rules)).toBe(false);
+  });
+
+  it("supports ** across directories", () => {
+    const rules = parseIgnorePatterns(["src/**/*.test.ts"]);
+
+    expect(isIgnored("src/a.test.ts", false, rules)).toBe(true);
+    expect(isIgnored("src/deep/er/a.test.ts", false, rules)).toBe(true);
+  });
+
+  it("only matches directories with a trailing slash", () => {
+    const rules = parseIgnorePatterns(["build/"]);
+
+    expect(isIgnored("build", true, rules)).toBe(true);
+    expect(isIgnored("build", false, rules)).toBe(false);
+  });
+
+  it("lets later negations re-include files", () => {
+    const rules = parseIgnorePatterns(["# comment", "*.csv", "!data/keep.csv"]);
+
+    expect(isIgnored("data/drop.csv", false, rules)).toBe(true);
+    expect(isIgnored("data/keep.csv", false, rules)).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collectFiles
+// ---------------------------------------------------------------------------
+
+describe("collectFiles", () => {
+  it("lists files in sorted order, skipping defaults and .connectignore entries", () => {
+    write("manifest.json", "{}");
+    write("app.py");
+    write("b/z.txt");
+    write("b/a.txt");
+    write(".git/HEAD");
+    write(".venv/bin/python");
+    write("__pycache__/app.cpython-312.pyc");
+    write("tests/test_app.py");
+    write(".connectignore", "tests/\n");
+
+    expect(collectFiles(dir, loadIgnoreRules(dir))).toEqual([
+      "app.py",
+      "b/a.txt",
+      "b/z.txt",
+      "manifest.json",
+    ]);
+  });
+
+  it("rejects symbolic links instead of following them", () => {
+    write("manifest.json", "{}");
+    fs.mkdirSync(path.join(dir, "lib"));
+    fs.symlinkSync("..", path.join(dir, "lib", "loop"));
+
+    expect(() => collectFiles(dir, loadIgnoreRules(dir))).toThrow(
+      "lib/loop is a symbolic link. Replace it with the file or directory it points to, or list it in .connectignore."
+    );
+  });
+
+  it("skips ignored symbolic links", () => {
+    write("manifest.json", "{}");
+    write(".connectignore", "secrets\n");
+    fs.symlinkSync("/etc/hostname", path.join(dir, "secrets"));
+    fs.symlinkSync("/usr", path.join(dir, ".venv"));
+
+    expect(collectFiles(dir, loadIgnoreRules(dir))).toEqual(["manifest.json"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findBundleRoot
+// ---------------------------------------------------------------------------
+
+describe("findBundleRoot", () => {
+  it("uses the directory itself when it has a manifest", () => {
+    write("manifest.json");
+
+    expect(findBundleRoot(dir)).toBe(dir);
+  });
+
+  it("finds the shallowest nested manifest", () => {
+    write("extensions/my-ext/manifest.json");
+    write("extensions/my-ext/vendor/pkg/manifest.json");
+
+    expect(findBundleRoot(dir)).toBe(path.join(dir, "extensions", "my-ext"));
+  });
+
+  it("fails without a manifest", () => {
+    write("app.py");
+
+    expect(() => findBundleRoot(dir)).toThrow(/No manifest.json found/);
+  });
+
+  it("fails when the root is ambiguous", () => {
+    write("a/manifest.json");
+    write("b/manifest.json");
+
+    expect(() => findBundleRoot(dir)).toThrow(/more than one manifest.json/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseSize
+// ---------------------------------------------------------------------------
+
+describe("parseSize", () => {
+  it("parses units as powers of 1024", () => {
+    expect(parseSize("512")).toBe(512);
+    expect(parseSize("2KB")).toBe(2048);
+    expect(parseSize("1.5 MB")).toBe(1572864);
+    expect(parseSize("1GiB")).toBe(1024 ** 3);
+  });
+
+  it("rejects invalid sizes", () => {
+    expect(() => parseSize("lots")).toThrow(/Invalid size/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// packageExtension
+// ---------------------------------------------------------------------------
+
+describe("packageExtension", () => {
+  it("places manifest.json at the root of the archive", () => {
+    write("extensions/my-ext/manifest.json", "{}");
+    write("extensions/my-ext/app.py", "print('hi')");
+
+    const { archive, files } = packageExtension(dir);
+
+    expect(files.map((f) => f.path)).toEqual(["app.py", "manifest.json"]);
+    expect(readTarGz(archive).map((e) => e.path)).toEqual(["app.py", "manifest.json"]);
+  });
+
+  it("produces identical archives regardless of file mtimes", () => {
+    write("manifest.json", "{}");
+    write("app.py", "print('hi')");
+    const first = packageExtension(dir).archive;
+
+    fs.utimesSync(path.join(dir, "app.py"), new Date(2001, 1, 1), new Date(2001, 1, 1));
+    const second = packageExtension(dir).archive;
+
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it("normalizes permissions to 644, or 755 for executables", () => {
+    write("manifest.json", "{}");
+    write("run.sh", "#!/bin/sh");
+    fs.chmodSync(path.join(dir, "manifest.json"), 0o600);
+    fs.chmodSync(path.join(dir, "run.sh"), 0o700);
+
+    const modes = readTarGz(packageExtension(dir).archive).map((e) => [e.path, e.mode]);
+
+    expect(modes).toEqual([
+      ["manifest.json", 0o644],
+      ["run.sh", 0o755],
+    ]);
+  });
+
+  it("enforces the size limit", () => {
+    write("manifest.json", "{}");
+    write("data.bin", Buffer.from(Array.from({ length: 4096 }, (_, i) => (i * 7919) % 251)).toString("latin1"));
+
+    expect(() => packageExtension(dir, { maxSize: 100 })).toThrow(
+      /over the 100 B limit\. Largest files: data\.bin/
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+
+import { createTarGz, TarEntry } from "./tar";
+
+export const IGNORE_FILE = ".connectignore";
+
+/**
+ * Patterns that are never useful in a Connect bundle. A `.connectignore` can
+ * re-include any of them with a `!` pattern.
+ */
+export const DEFAULT_IGNORES = [
+  ".git",
+  ".DS_Store",
+  "__pycache__/",
+  "*.pyc",
+  ".venv/",
+  "venv/",
+  ".ipynb_checkpoints/",
+  ".Rproj.user/",
+  ".Rhistory",
+  IGNORE_FILE,
+];
+
+export const DEFAULT_MAX_SIZE = 100 * 1024 * 1024;
+
+export interface IgnoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export interface PackageOptions {
+  /** Fail if the compressed archive is larger than this many bytes. */
+  maxSize?: number;
+  /** Modification time, in seconds since the epoch, given to every entry. */
+  mtime?: number;
+}
+
+export interface PackagedFile {
+  path: string;
+  size: number;
+}
+
+export interface PackageResult {
+  archive: Buffer;
+  /** Directory used as the root of the archive, where manifest.json is. */
+  root: string;
+  files: PackagedFile[];
+}
+
+function globToRegExp(glob: string): string {
+  let regex = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (glob.startsWith("**/", i)) {
+      regex += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      regex += ".*";
+      i += 1;
+    } else if (c === "*") {
+      regex += "[^/]*";
+    } else if (c === "?") {
+      regex += "[^/]";
+    } else {
+      regex += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return regex;
+}
+
+/**
+ * Parse gitignore-style patterns: `#` comments, `!` negation, a trailing `/`
+ * to match only directories, and a leading or inner `/` to anchor the pattern
+ * to the extension directory instead of matching at any depth.
+ */
+export function parseIgnorePatterns(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of lines) {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negate = pattern.startsWith("!");
+    if (negate) pattern = pattern.slice(1);
+    const dirOnly = pattern.endsWith("/");
+    if (dirOnly) pattern = pattern.slice(0, -1);
+
+    const anchored = pattern.includes("/");
+    const glob = globToRegExp(pattern.replace(/^\//, ""));
+    const regex = new RegExp(anchored ? `^${glob}$` : `^(?:.*/)?${glob}$`);
+
+    rules.push({ pattern: line.trim(), negate, dirOnly, regex });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a path relative to the extension directory is ignored. The last
+ * matching rule wins, as in `.gitignore`.
+ */
+export function isIgnored(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: IgnoreRule[]
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+/**
+ * Load the default ignore rules followed by those in the directory's
+ * `.connectignore`, if it has one.
+ */
+export function loadIgnoreRules(dir: string): IgnoreRule[] {
+  const ignoreFile = path.join(dir, IGNORE_FILE);
+  const lines = fs.existsSync(ignoreFile)
+    ? fs.readFileSync(ignoreFile, "utf8").split(/\r?\n/)
+    : [];
+  return parseIgnorePatterns([...DEFAULT_IGNORES, ...lines]);
+}
+
+/**
+ * List the files under `dir` that are not ignored, as sorted POSIX paths
+ * relative to `dir`. Ignored directories are not descended into. Throws on
+ * symbolic links that are not ignored, since following them could package
+ * files from outside `dir` or never end.
+ */
+export function collectFiles(dir: string, rules: IgnoreRule[]): string[] {
+  const files: string[] = [];
+
+  const walk = (relativeDir: string) => {
+    const entries = fs
+      .readdirSync(path.join(dir, relativeDir), { withFileTypes: true })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const stat = fs.lstatSync(path.join(dir, relativePath));
+      if (stat.isSymbolicLink()) {
+        // Whatever the link points to, directory-only rules such as `.venv/`
+        // are meant to cover it too
+        if (isIgnored(relativePath, false, rules) || isIgnored(relativePath, true, rules)) {
+          continue;
+        }
+        throw new Error(
+          `${relativePath} is a symbolic link. Replace it with the file or directory it points to, or list it in ${IGNORE_FILE}.`
+        );
+      }
+      if (isIgnored(relativePath, stat.isDirectory(), rules)) continue;
+
+      if (stat.isDirectory()) {
+        walk(relativePath);
+      } else if (stat.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  walk("");
+  return files;
+}
+
+/**
+ * Find the directory to use as the archive root: `dir` itself if it has a
+ * manifest.json, otherwise the single shallowest directory below it that does
+ * (e.g. when an uploaded artifact kept a path prefix).
+ */
+export function findBundleRoot(dir: string): string {
+  if (fs.existsSync(path.join(dir, "manifest.json"))) return dir;
+
+  const manifests = collectFiles(dir, parseIgnorePatterns(DEFAULT_IGNORES))
+    .filter((f) => path.posix.basename(f) === "manifest.json")
+    .map((f) => f.split("/"));
+  if (manifests.length === 0) {
+    throw new Error(`No manifest.json found in ${dir}`);
+  }
+
+  const depth = Math.min(...manifests.map((parts) => parts.length));
+  const candidates = manifests
+    .filter((parts) => parts.length === depth)
+    .map((parts) => path.join(dir, ...parts.slice(0, -1)));
+  if (candidates.length > 1) {
+    throw new Error(
+      `Found more than one manifest.json in ${dir}: ${candidates.join(", ")}`
+    );
+  }
+  return candidates[0];
+}
+
+/**
+ * Parse a size such as `512KB`, `100MB` or `1GB` (powers of 1024), or a plain
+ * number of bytes.
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([KMG]i?B?|B)?$/i);
+  if (!match) throw new Error(`Invalid size: '${value}'`);
+  const units: Record<string, number> = { B: 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+  const unit = (match[2] || "B").toUpperCase()[0];
+  return Math.round(Number(match[1]) * units[unit]);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+/**
+ * Package an extension directory into a reproducible `.tar.gz` with
+ * manifest.json at the root of the archive. Files are added in sorted order
+ * with normalized owners, permissions and mtimes, so packaging the same files
+ * twice produces identical bytes.
+ */
+export function packageExtension(
+  sourceDir: string,
+  options: PackageOptions = {}
+): PackageResult {
+  const root = findBundleRoot(sourceDir);
+  const files = collectFiles(root, loadIgnoreRules(root));
+
+  const entries: TarEntry[] = files.map((file) => {
+    const fullPath = path.join(root, file);
+    const executable = (fs.statSync(fullPath).mode & 0o111) !== 0;
+    return {
+      path: file,
+      type: "file",
+      mode: executable ? 0o755 : 0o644,
+      data: fs.readFileSync(fullPath),
+    };
+  });
+
+  const archive = createTarGz(entries, options.mtime ?? 0);
+  const packaged = entries.map((e) => ({ path: e.path, size: e.data.length }));
+
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  if (archive.length > maxSize) {
+    const largest = [...packaged]
+      .sort((a, b) => b.size - a.size)
+      .slice(0, 5)
+      .map((f) => `${f.path} (${formatSize(f.size)})`);
+    throw new Error(
+      `Packaged extension is ${formatSize(archive.length)}, over the ${formatSize(maxSize)} limit. ` +
+        `Largest files: ${largest.join(", ")}. Add files that are not needed at runtime to ${IGNORE_FILE}.`
+    );
+  }
+
+  return { archive, root, files: packaged };
+}
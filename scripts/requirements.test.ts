@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  compareSegments,
+  normalizeEnvironment,
+  normalizeRequirement,
+  parseRequirement,
+  releaseSegments,
+  satisfiesRequirement,
+} from "./requirements";
+
+// ---------------------------------------------------------------------------
+// releaseSegments / compareSegments
+// ---------------------------------------------------------------------------
+
+describe("releaseSegments", () => {
+  it("reads the numeric release of a version", () => {
+    expect(releaseSegments("3.11.4")).toEqual([3, 11, 4]);
+    expect(releaseSegments("3.13.0rc1")).toEqual([3, 13, 0]);
+    expect(releaseSegments("2025.04.0")).toEqual([2025, 4, 0]);
+    expect(releaseSegments("latest")).toBeNull();
+  });
+});
+
+describe("compareSegments", () => {
+  it("treats missing segments as zero", () => {
+    expect(compareSegments([3, 8], [3, 8, 0])).toBe(0);
+    expect(compareSegments([3, 10], [3, 9, 7])).toBe(1);
+    expect(compareSegments([3, 9], [3, 10])).toBe(-1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseRequirement
+// ---------------------------------------------------------------------------
+
+describe("parseRequirement", () => {
+  it("parses comma-joined clauses", () => {
+    expect(parseRequirement(">=3.9, <3.13, !=3.10.*")).toEqual({
+      clauses: [
+        { operator: ">=", version: "3.9", release: [3, 9], wildcard: false },
+        { operator: "<", version: "3.13", release: [3, 13], wildcard: false },
+        { operator: "!=", version: "3.10", release: [3, 10], wildcard: true },
+      ],
+      errors: [],
+    });
+  });
+
+  it("keeps arbitrary equality as written", () => {
+    expect(parseRequirement("===1.4.550-dev").clauses).toEqual([
+      { operator: "===", version: "1.4.550-dev", release: [], wildcard: false },
+    ]);
+  });
+
+  it("reports every malformed clause", () => {
+    expect(parseRequirement("3.8, >=, =>3.9, <=3.x, >3.*, ~=3,").errors).toEqual([
+      "'3.8' has no comparison operator (e.g. ~=3.8 or >=3.8)",
+      "'>=' has no version",
+      "'=>3.9' has an unknown comparison operator (expected one of ~=, ==, !=, >=, <=, >, <, ===)",
+      "'<=3.x' is not a valid version (expected numbers separated by dots, e.g. 3.10)",
+      "'>3.*' uses a wildcard, which only == and != allow",
+      "'~=3' needs at least two version segments (e.g. ~=3.0)",
+      "Empty version specifier",
+    ]);
+    expect(parseRequirement("").errors).toEqual(["Empty version specifier"]);
+  });
+
+  it("reports ranges that exclude every version", () => {
+    expect(parseRequirement(">=3.13,<3.9").errors).toEqual(["'>=3.13,<3.9' excludes every version"]);
+    expect(parseRequirement(">3.9,<=3.9").errors).toHaveLength(1);
+    expect(parseRequirement("~=3.8,>=4.0").errors).toHaveLength(1);
+    expect(parseRequirement("==4.2.*,<4.2").errors).toHaveLength(1);
+    expect(parseRequirement(">=3.9,<=3.9").errors).toEqual([]);
+    expect(parseRequirement("~=3.8,<3.12").errors).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// normalizeRequirement / normalizeEnvironment
+// ---------------------------------------------------------------------------
+
+describe("normalizeRequirement", () => {
+  it("removes whitespace, leading zeros and repeated clauses", () => {
+    expect(normalizeRequirement(" >= 3.09 , <3.13,>=3.9 ")).toBe(">=3.9,<3.13");
+    expect(normalizeRequirement("== 4.2.*")).toBe("==4.2.*");
+  });
+
+  it("leaves strings that do not parse alone", () => {
+    expect(normalizeRequirement(" 3.8 ")).toBe("3.8");
+  });
+});
+
+describe("normalizeEnvironment", () => {
+  it("normalizes every requirement and keeps other fields", () => {
+    const environment = {
+      python: { requires: ">= 3.9, < 3.13" },
+      r: { requires: "~=4.2" },
+      image: "ubuntu",
+    };
+
+    expect(normalizeEnvironment(environment)).toEqual({
+      python: { requires: ">=3.9,<3.13" },
+      r: { requires: "~=4.2" },
+      image: "ubuntu",
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// satisfiesRequirement
+// ---------------------------------------------------------------------------
+
+describe("satisfiesRequirement", () => {
+  it("treats ~=X.Y as >=X.Y within the same major version", () => {
+    expect(satisfiesRequirement("3.8.0", "~=3.8")).toBe(true);
+    expect(satisfiesRequirement("3.12.1", "~=3.8")).toBe(true);
+    expect(satisfiesRequirement("3.7.9", "~=3.8")).toBe(false);
+    expect(satisfiesRequirement("4.0.0", "~=3.8")).toBe(false);
+  });
+
+  it("treats ~=X.Y.Z as >=X.Y.Z within the same minor version", () => {
+    expect(satisfiesRequirement("1.3.5", "~=1.3.2")).toBe(true);
+    expect(satisfiesRequirement("1.3.1", "~=1.3.2")).toBe(false);
+    expect(satisfiesRequirement("1.4.0", "~=1.3.2")).toBe(false);
+  });
+
+  it("requires every comma-separated clause to match", () => {
+    expect(satisfiesRequirement("3.12.0", ">=3.9, <3.13")).toBe(true);
+    expect(satisfiesRequirement("3.13.0", ">=3.9, <3.13")).toBe(false);
+    expect(satisfiesRequirement("3.10.2", ">=3.9,!=3.10.*")).toBe(false);
+    expect(satisfiesRequirement("3.11.0", ">=3.9,!=3.10.*")).toBe(true);
+  });
+
+  it("supports equality with and without wildcards", () => {
+    expect(satisfiesRequirement("4.2", "==4.2.0")).toBe(true);
+    expect(satisfiesRequirement("4.2.3", "==4.2.*")).toBe(true);
+    expect(satisfiesRequirement("4.3.0", "==4.2.*")).toBe(false);
+    expect(satisfiesRequirement("1.4.550", "===1.4.550")).toBe(true);
+    expect(satisfiesRequirement("1.4.550.0", "===1.4.550")).toBe(false);
+  });
+
+  it("compares with every ordering operator", () => {
+    expect(satisfiesRequirement("4.2.0", ">4.1")).toBe(true);
+    expect(satisfiesRequirement("4.1.0", ">4.1")).toBe(false);
+    expect(satisfiesRequirement("4.1.0", "<=4.1")).toBe(true);
+  });
+
+  it("throws on a specifier it cannot evaluate", () => {
+    expect(() => satisfiesRequirement("3.8.0", "3.8")).toThrow("'3.8' has no comparison operator");
+    expect(() => satisfiesRequirement("devel", ">=4.2")).toThrow("Invalid version 'devel'");
+  });
+});
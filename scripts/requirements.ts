@@ -0,0 +1,250 @@
+import { ExtensionEnvironment } from "./types";
+
+export type RequirementOperator =
+  | "~="
+  | "==="
+  | "=="
+  | "!="
+  | ">="
+  | "<="
+  | ">"
+  | "<";
+
+/** A single specifier of a `requires` string, such as `>=3.9` or `==4.2.*`. */
+export interface RequirementClause {
+  operator: RequirementOperator;
+  /** Version without leading zeros, or the string as written for `===`. */
+  version: string;
+  /** Numeric release segments of `version`; empty for `===`. */
+  release: number[];
+  /** Set for prefix matches such as `==3.8.*` and `!=3.8.*`. */
+  wildcard: boolean;
+}
+
+export interface ParsedRequirement {
+  clauses: RequirementClause[];
+  /** Everything wrong with the string; the clauses are unusable if any. */
+  errors: string[];
+}
+
+/** Display names of the languages in an `environment` section. */
+export const LANGUAGE_NAMES: Record<keyof ExtensionEnvironment, string> = {
+  python: "Python",
+  r: "R",
+  quarto: "Quarto",
+};
+
+const OPERATORS: RequirementOperator[] = [
+  "~=",
+  "==",
+  "!=",
+  ">=",
+  "<=",
+  ">",
+  "<",
+  "===",
+];
+const CLAUSE = /^(~=|===|==|!=|>=|<=|>|<)?\s*(.*)$/;
+const RELEASE = /^\d+(\.\d+)*$/;
+
+/**
+ * Numeric release segments of a version, e.g. `[3, 11, 4]` for `3.11.4` or
+ * `3.11.4rc1`, or null if it does not start with a number.
+ */
+export function releaseSegments(version: string): number[] | null {
+  const match = version.trim().match(/^v?(\d+(?:\.\d+)*)/);
+  return match ? match[1].split(".").map(Number) : null;
+}
+
+/**
+ * Compare release segments, padding the shorter one with zeros so that `3.8`
+ * equals `3.8.0`.
+ */
+export function compareSegments(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
+
+function startsWith(version: number[], prefix: number[]): boolean {
+  return compareSegments(version.slice(0, prefix.length), prefix) === 0;
+}
+
+// The first version after every version starting with `prefix`, e.g. 3.9
+// for 3.8
+function nextPrefix(prefix: number[]): number[] {
+  return [...prefix.slice(0, -1), prefix[prefix.length - 1] + 1];
+}
+
+function parseClause(text: string): RequirementClause | string {
+  if (text === "") return "Empty version specifier";
+  const [, operator, rest] = text.match(CLAUSE);
+  if (!operator) {
+    return /^[~=!<>]/.test(text)
+      ? `'${text}' has an unknown comparison operator (expected one of ${OPERATORS.join(", ")})`
+      : `'${text}' has no comparison operator (e.g. ~=${text} or >=${text})`;
+  }
+  if (rest === "") return `'${text}' has no version`;
+
+  if (operator === "===") {
+    return /\s/.test(rest)
+      ? `'${text}' is not a valid version`
+      : { operator, version: rest, release: [], wildcard: false };
+  }
+
+  const wildcard = rest.endsWith(".*");
+  const version = wildcard ? rest.slice(0, -2) : rest;
+  if (!RELEASE.test(version)) {
+    return `'${text}' is not a valid version (expected numbers separated by dots, e.g. 3.10)`;
+  }
+  if (wildcard && operator !== "==" && operator !== "!=") {
+    return `'${text}' uses a wildcard, which only == and != allow`;
+  }
+  const release = version.split(".").map(Number);
+  if (operator === "~=" && release.length < 2) {
+    return `'${text}' needs at least two version segments (e.g. ~=${release[0]}.0)`;
+  }
+
+  return {
+    operator: operator as RequirementOperator,
+    version: release.join("."),
+    release,
+    wildcard,
+  };
+}
+
+interface Bound {
+  release: number[];
+  inclusive: boolean;
+}
+
+// Whether the clauses leave any version between their lowest upper bound and
+// highest lower bound. Exclusions (`!=`) are not considered
+function isSatisfiable(clauses: RequirementClause[]): boolean {
+  let lower: Bound | null = null;
+  let upper: Bound | null = null;
+  const raise = (release: number[], inclusive: boolean) => {
+    const cmp = lower ? compareSegments(release, lower.release) : 1;
+    if (cmp > 0 || (cmp === 0 && !inclusive)) lower = { release, inclusive };
+  };
+  const cap = (release: number[], inclusive: boolean) => {
+    const cmp = upper ? compareSegments(release, upper.release) : -1;
+    if (cmp < 0 || (cmp === 0 && !inclusive)) upper = { release, inclusive };
+  };
+
+  for (const { operator, release, wildcard } of clauses) {
+    if (operator === ">=") raise(release, true);
+    if (operator === ">") raise(release, false);
+    if (operator === "<=") cap(release, true);
+    if (operator === "<") cap(release, false);
+    if (operator === "==") {
+      raise(release, true);
+      if (wildcard) cap(nextPrefix(release), false);
+      else cap(release, true);
+    }
+    if (operator === "~=") {
+      raise(release, true);
+      cap(nextPrefix(release.slice(0, -1)), false);
+    }
+  }
+
+  if (!lower || !upper) return true;
+  const cmp = compareSegments(lower.release, upper.release);
+  return cmp < 0 || (cmp === 0 && lower.inclusive && upper.inclusive);
+}
+
+/**
+ * Parse a `requires` string of comma-separated PEP 440-style specifiers, e.g.
+ * `~=3.8`, `>=3.9,<3.13` or `>=4.1,!=4.2.*`, reporting every malformed clause
+ * and ranges that exclude every version.
+ */
+export function parseRequirement(requires: string): ParsedRequirement {
+  const clauses: RequirementClause[] = [];
+  const errors: string[] = [];
+
+  for (const text of requires.split(",").map((c) => c.trim())) {
+    const clause = parseClause(text);
+    if (typeof clause === "string") {
+      errors.push(clause);
+    } else {
+      clauses.push(clause);
+    }
+  }
+
+  if (errors.length === 0 && !isSatisfiable(clauses)) {
+    errors.push(`'${requires}' excludes every version`);
+  }
+
+  return { clauses, errors };
+}
+
+function formatClause(clause: RequirementClause): string {
+  return `${clause.operator}${clause.version}${clause.wildcard ? ".*" : ""}`;
+}
+
+/**
+ * Canonical form of a `requires` string: no whitespace, no leading zeros and
+ * no repeated clauses, e.g. `>=3.9,<3.13` for `>= 3.09, <3.13`. Strings that
+ * do not parse are returned trimmed but otherwise unchanged.
+ */
+export function normalizeRequirement(requires: string): string {
+  const { clauses, errors } = parseRequirement(requires);
+  if (errors.length > 0) return requires.trim();
+  return [...new Set(clauses.map(formatClause))].join(",");
+}
+
+/**
+ * Copy of an environment with every `requires` string normalized. Anything
+ * else in it is kept as is.
+ */
+export function normalizeEnvironment(
+  environment: ExtensionEnvironment
+): ExtensionEnvironment {
+  return Object.fromEntries(
+    Object.entries(environment).map(([language, requirement]) => [
+      language,
+      typeof requirement?.requires === "string"
+        ? { ...requirement, requires: normalizeRequirement(requirement.requires) }
+        : requirement,
+    ])
+  );
+}
+
+function satisfiesClause(version: string, clause: RequirementClause): boolean {
+  // Arbitrary equality compares the strings as written
+  if (clause.operator === "===") return version.trim() === clause.version;
+
+  const actual = releaseSegments(version);
+  if (!actual) throw new Error(`Invalid version '${version}'`);
+  const cmp = compareSegments(actual, clause.release);
+
+  switch (clause.operator) {
+    case "~=":
+      // `~=3.8` means `>=3.8, ==3.*`; `~=3.8.1` means `>=3.8.1, ==3.8.*`
+      return cmp >= 0 && startsWith(actual, clause.release.slice(0, -1));
+    case "==":
+      return clause.wildcard ? startsWith(actual, clause.release) : cmp === 0;
+    case "!=":
+      return clause.wildcard ? !startsWith(actual, clause.release) : cmp !== 0;
+    case ">=":
+      return cmp >= 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    default:
+      return cmp < 0;
+  }
+}
+
+/**
+ * Check whether an installed version satisfies a `requires` string, e.g.
+ * `3.11.4` against `>=3.9,<3.13`. Throws on a string that does not parse.
+ */
+export function satisfiesRequirement(version: string, requires: string): boolean {
+  const { clauses, errors } = parseRequirement(requires);
+  if (errors.length > 0) throw new Error(errors[0]);
+  return clauses.every((clause) => satisfiesClause(version, clause));
+}
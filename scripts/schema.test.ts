@@ -0,0 +1,407 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  Category,
+  DeprecatedExtension,
+  Extension,
+  ExtensionManifest,
+  ExtensionVersion,
+  GalleryConfig,
+  GalleryOutput,
+  RetentionPolicy,
+  Translation,
+  YankedVersion,
+} from "./types";
+import { buildExtensions, buildOutput, formatReleaseBody } from "./generate-gallery-lib";
+import { JsonSchema, loadSchema, pruneToSchema, SCHEMA_VERSION, validateSchema } from "./schema";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+// Listing every key of each type here makes adding a field to a type fail to
+// compile until it is also listed, and the tests below then fail until the
+// field is added to the schema
+const OUTPUT_KEYS: Record<keyof GalleryOutput, true> = {
+  schemaVersion: true,
+  categories: true,
+  tags: true,
+  requiredFeatures: true,
+  extensions: true,
+};
+const CATEGORY_KEYS: Record<keyof Category, true> = { id: true, title: true, description: true, translations: true };
+const TRANSLATION_KEYS: Record<keyof Translation, true> = { title: true, description: true };
+const EXTENSION_KEYS: Record<keyof Extension, true> = {
+  name: true,
+  title: true,
+  description: true,
+  homepage: true,
+  latestVersion: true,
+  latestPrerelease: true,
+  versions: true,
+  tags: true,
+  category: true,
+  translations: true,
+  icon: true,
+  screenshots: true,
+  readme: true,
+  source: true,
+  deprecated: true,
+  deprecationReason: true,
+  replacedBy: true,
+};
+const VERSION_KEYS: Record<keyof ExtensionVersion, true> = {
+  version: true,
+  released: true,
+  url: true,
+  minimumConnectVersion: true,
+  requiredFeatures: true,
+  requiredEnvironment: true,
+  sha256: true,
+  size: true,
+  channel: true,
+  changelog: true,
+  yanked: true,
+  yankedReason: true,
+};
+const CONFIG_KEYS: Record<keyof GalleryConfig, true> = {
+  categories: true,
+  strict: true,
+  publishLatestPrerelease: true,
+  yanked: true,
+  deprecated: true,
+  sources: true,
+  onConflict: true,
+  retention: true,
+};
+const YANKED_KEYS: Record<keyof YankedVersion, true> = { extension: true, version: true, reason: true };
+const DEPRECATED_KEYS: Record<keyof DeprecatedExtension, true> = {
+  extension: true,
+  reason: true,
+  replacedBy: true,
+};
+const MANIFEST_EXTENSION_KEYS: Record<keyof ExtensionManifest["extension"], true> = {
+  name: true,
+  title: true,
+  description: true,
+  homepage: true,
+  version: true,
+  minimumConnectVersion: true,
+  requiredFeatures: true,
+  category: true,
+  tags: true,
+  retention: true,
+  translations: true,
+  icon: true,
+  screenshots: true,
+  readme: true,
+};
+const RETENTION_KEYS: Record<keyof RetentionPolicy, true> = {
+  keepNewest: true,
+  keepLatestPatches: true,
+  keepForOlderConnect: true,
+};
+
+function keys(record: object): string[] {
+  return Object.keys(record).sort();
+}
+
+function propertyNames(schema: JsonSchema, ignore: string[] = []): string[] {
+  return Object.keys(schema.properties || {})
+    .filter((key) => !ignore.includes(key))
+    .sort();
+}
+
+function makeManifest(overrides: Partial<ExtensionManifest["extension"]> = {}): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      ...overrides,
+    },
+  };
+}
+
+const config: GalleryConfig = {
+  categories: [
+    {
+      id: "extension",
+      title: "Extensions",
+      description: "Extensions",
+      translations: { fr: { title: "Extensions", description: "Des extensions" } },
+    },
+  ],
+  publishLatestPrerelease: true,
+  yanked: [{ extension: "my-ext", version: "1.1.0", reason: "Broken" }],
+  deprecated: [{ extension: "my-ext", reason: "Superseded", replacedBy: "new-ext" }],
+  sources: [{ repo: "org/other", extensionsDir: "extensions", ref: "main" }, { url: "https://example.com/extensions.json" }],
+  onConflict: "newest",
+  retention: { keepNewest: 5, keepLatestPatches: true, keepForOlderConnect: true },
+};
+
+// ---------------------------------------------------------------------------
+// Schemas stay in sync with the types
+// ---------------------------------------------------------------------------
+
+describe("published schemas", () => {
+  const extensions = loadSchema("extensions");
+  const gallery = loadSchema("gallery");
+  const manifest = loadSchema("manifest");
+
+  it("describe every field of the extensions.json types", () => {
+    expect(propertyNames(extensions)).toEqual(keys(OUTPUT_KEYS));
+    expect(propertyNames(extensions.$defs.category)).toEqual(keys(CATEGORY_KEYS));
+    expect(propertyNames(extensions.$defs.extension)).toEqual(keys(EXTENSION_KEYS));
+    expect(propertyNames(extensions.$defs.version)).toEqual(keys(VERSION_KEYS));
+    expect(propertyNames(extensions.$defs.translations.additionalProperties as JsonSchema)).toEqual(
+      keys(TRANSLATION_KEYS)
+    );
+  });
+
+  it("describe every field of the gallery config", () => {
+    expect(propertyNames(gallery, ["$schema"])).toEqual(keys(CONFIG_KEYS));
+    expect(propertyNames(gallery.properties.yanked.items)).toEqual(keys(YANKED_KEYS));
+    expect(propertyNames(gallery.properties.deprecated.items)).toEqual(keys(DEPRECATED_KEYS));
+    expect(propertyNames(gallery.$defs.retentionPolicy)).toEqual(keys(RETENTION_KEYS));
+    expect(propertyNames(gallery.properties.categories.items)).toEqual(keys(CATEGORY_KEYS));
+    expect(gallery.$defs.translations).toEqual(extensions.$defs.translations);
+  });
+
+  it("describe every field of the manifest's extension section", () => {
+    expect(propertyNames(manifest.properties.extension)).toEqual(keys(MANIFEST_EXTENSION_KEYS));
+    expect(manifest.$defs.retentionPolicy).toEqual(loadSchema("gallery").$defs.retentionPolicy);
+    expect(manifest.$defs.translations).toEqual(extensions.$defs.translations);
+  });
+
+  it("use the schema version buildOutput writes", () => {
+    expect(extensions.properties.schemaVersion.const).toBe(SCHEMA_VERSION);
+  });
+
+  it("accept a generated extensions.json using every field", () => {
+    const manifests = new Map([
+      [
+        "my-ext",
+        {
+          ...makeManifest({
+            category: "extension",
+            tags: ["python"],
+            requiredFeatures: ["API Publishing"],
+            translations: { "pt-BR": { title: "Minha extensão", description: "Uma extensão de teste" } },
+          }),
+          environment: { python: { requires: "~=3.8" } },
+        },
+      ],
+    ]);
+    const body = formatReleaseBody(
+      {
+        minimumConnectVersion: "2025.04.0",
+        requiredFeatures: ["API Publishing"],
+        requiredEnvironment: { python: { requires: "~=3.8" } },
+        sha256: "a".repeat(64),
+        size: 1024,
+        readme: "# My Extension",
+      },
+      "- Notes"
+    );
+    const releases = ["1.0.0", "1.1.0", "2.0.0-beta.1"].map((version) => ({
+      tagName: `my-ext@v${version}`,
+      publishedAt: "2024-06-01T00:00:00Z",
+      assets: ["my-ext.tar.gz", "my-ext-icon.svg", "my-ext-screenshot-1.png"].map((name) => ({
+        name,
+        url: `https://example.com/${name}`,
+      })),
+      body,
+    }));
+    const built = buildExtensions(manifests, releases, config).map((e) => ({ ...e, source: "org/repo" }));
+
+    const output = buildOutput(built, config, new Set(["python"]), new Set(["API Publishing"]));
+
+    expect(output.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(Object.keys(output.extensions[0]).sort()).toEqual(keys(EXTENSION_KEYS));
+    expect(validateSchema(JSON.parse(JSON.stringify(output)), extensions)).toEqual([]);
+  });
+
+  it("reject documents that drift from the types", () => {
+    const output: GalleryOutput = { categories: [], tags: [], requiredFeatures: [], extensions: [] };
+
+    expect(validateSchema({ ...output, extras: [] }, extensions).map((i) => i.message)).toEqual([
+      "Missing required property 'schemaVersion'",
+      "Unknown property 'extras'",
+    ]);
+  });
+
+  it("accept a gallery config using every field", () => {
+    expect(validateSchema({ $schema: "./gallery.schema.json", strict: false, ...config }, gallery)).toEqual([]);
+  });
+
+  it("accept a gallery config with keys the action does not know", () => {
+    expect(validateSchema({ ...config, owner: "platform-team" }, gallery)).toEqual([]);
+  });
+
+  it("reject malformed sources and conflict strategies", () => {
+    const issues = validateSchema(
+      { categories: [], sources: [{ repo: "other" }, { repo: "org/x", url: "https://example.com" }], onConflict: "last" },
+      gallery
+    );
+
+    expect(issues.map((i) => i.path)).toEqual(["sources[0].repo", "sources[1].url", "onConflict"]);
+  });
+
+  it("reject incomplete translations and unknown locale codes", () => {
+    const issues = validateSchema(
+      {
+        categories: [
+          {
+            id: "extension",
+            title: "Extensions",
+            description: "Extensions",
+            translations: { fr: { title: "Extensions" }, French: { title: "Extensions", description: "Des extensions" } },
+          },
+        ],
+      },
+      gallery
+    );
+
+    expect(issues.map((i) => i.path)).toEqual([
+      "categories[0].translations.fr.description",
+      "categories[0].translations.French",
+    ]);
+  });
+
+  it("accept a manifest with other rsconnect fields", () => {
+    const value = {
+      version: 1,
+      metadata: { appmode: "python-fastapi" },
+      ...makeManifest({ tags: ["python"] }),
+      environment: { python: { requires: ">=3.10" }, image: "ubuntu" },
+    };
+
+    expect(validateSchema(value, manifest)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateSchema
+// ---------------------------------------------------------------------------
+
+describe("validateSchema", () => {
+  it("checks types, reporting the path to the value", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: { items: { type: "array", items: { type: "integer" } } },
+    };
+
+    expect(validateSchema({ items: [1, 2.5, "3"] }, schema)).toEqual([
+      { path: "items[1]", message: "items[1] must be of type integer, not number", severity: "error" },
+      { path: "items[2]", message: "items[2] must be of type integer, not string", severity: "error" },
+    ]);
+  });
+
+  it("checks required and unknown properties", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      required: ["a"],
+      additionalProperties: false,
+      properties: { a: { type: "string" } },
+    };
+
+    expect(validateSchema({ b: 1 }, schema).map((i) => [i.path, i.message])).toEqual([
+      ["a", "Missing required property 'a'"],
+      ["b", "Unknown property 'b'"],
+    ]);
+  });
+
+  it("checks property names", () => {
+    const schema: JsonSchema = { type: "object", propertyNames: { pattern: "^[a-z]+$" } };
+
+    expect(validateSchema({ ok: 1, "Not OK": 2 }, schema).map((i) => [i.path, i.message])).toEqual([
+      ["Not OK", "Not OK must match the pattern ^[a-z]+$"],
+    ]);
+  });
+
+  it("checks const, enum, minLength, pattern and minimum", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        c: { const: 1 },
+        e: { enum: ["x", "y"] },
+        s: { type: "string", minLength: 2, pattern: "^[a-z]+$" },
+        n: { type: "integer", minimum: 0 },
+      },
+    };
+
+    expect(validateSchema({ c: 2, e: "z", s: "A", n: -1 }, schema).map((i) => i.message)).toEqual([
+      "c must be 1",
+      'e must be one of "x", "y"',
+      "s must not be shorter than 2 characters",
+      "s must match the pattern ^[a-z]+$",
+      "n must be at least 0",
+    ]);
+  });
+
+  it("resolves references to $defs", () => {
+    const schema: JsonSchema = {
+      $defs: { name: { type: "string" } },
+      type: "array",
+      items: { $ref: "#/$defs/name" },
+    };
+
+    expect(validateSchema(["a", 1], schema).map((i) => i.path)).toEqual(["[1]"]);
+  });
+
+  it("requires exactly one oneOf option to match", () => {
+    const schema: JsonSchema = {
+      oneOf: [{ type: "string" }, { type: "string", minLength: 1 }, { type: "integer" }],
+    };
+
+    expect(validateSchema(1, schema)).toEqual([]);
+    expect(validateSchema("a", schema).map((i) => i.message)).toEqual([
+      "Value matches more than one of the allowed shapes",
+    ]);
+    expect(validateSchema(true, schema).map((i) => i.message)).toEqual([
+      "Value must be of type string, not boolean",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// pruneToSchema
+// ---------------------------------------------------------------------------
+
+describe("pruneToSchema", () => {
+  it("leaves out properties the schema does not allow, following $refs", () => {
+    const schema: JsonSchema = {
+      type: "array",
+      items: { $ref: "#/$defs/entry" },
+      $defs: {
+        entry: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            name: { type: "string" },
+            labels: { type: "object", additionalProperties: { type: "object", additionalProperties: false, properties: { text: { type: "string" } } } },
+            extra: { type: "object" },
+          },
+        },
+      },
+    };
+
+    expect(
+      pruneToSchema(
+        [{ name: "a", added: 1, labels: { fr: { text: "b", added: 2 } }, extra: { kept: true } }],
+        schema
+      )
+    ).toEqual([{ name: "a", labels: { fr: { text: "b" } }, extra: { kept: true } }]);
+  });
+
+  it("keeps values of the wrong type for validation to report", () => {
+    const schema: JsonSchema = { type: "object", additionalProperties: false, properties: { name: { type: "string" } } };
+
+    expect(pruneToSchema({ name: 5 }, schema)).toEqual({ name: 5 });
+    expect(pruneToSchema("text", schema)).toBe("text");
+  });
+});
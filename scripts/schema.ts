@@ -0,0 +1,209 @@
+import fs from "fs";
+import path from "path";
+
+import { ValidationIssue } from "./types";
+
+/** Version of extensions.schema.json that `buildOutput()` produces. */
+export const SCHEMA_VERSION = 1;
+
+export type SchemaName = "extensions" | "gallery" | "manifest";
+
+/** The subset of JSON Schema used by the schemas published with the action. */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+  [keyword: string]: unknown;
+}
+
+// Compiled scripts run from dist/, tests from the sources
+const SCRIPTS_DIR =
+  path.basename(__dirname) === "dist" ? path.dirname(__dirname) : __dirname;
+
+/** Directory holding the published schemas, at the root of the action. */
+export const SCHEMA_DIR = path.join(SCRIPTS_DIR, "..", "schemas");
+
+export function loadSchema(name: SchemaName): JsonSchema {
+  return JSON.parse(
+    fs.readFileSync(path.join(SCHEMA_DIR, `${name}.schema.json`), "utf8")
+  );
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function join(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Validate a value against a JSON Schema and return every violation found,
+ * with the path to the offending value (e.g. `extensions[0].latestVersion`).
+ * Only the keywords listed in `JsonSchema` are supported; `$ref` may only
+ * point into the root schema's `$defs`.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  at = ""
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message, severity: "error" });
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace(/^#\/\$defs\//, "");
+    const target = root.$defs?.[name];
+    if (!target) throw new Error(`Unsupported $ref '${schema.$ref}'`);
+    return validateSchema(value, target, root, at);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      report(at, `${at || "Value"} must be of type ${types.join(" or ")}, not ${typeOf(value)}`);
+      return issues;
+    }
+  }
+
+  if ("const" in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    report(at, `${at || "Value"} must be ${JSON.stringify(schema.const)}`);
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+  ) {
+    report(
+      at,
+      `${at || "Value"} must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(at, `${at || "Value"} must not be shorter than ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      report(at, `${at || "Value"} must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    report(at, `${at || "Value"} must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) =>
+      issues.push(...validateSchema(item, schema.items, root, join(at, i)))
+    );
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object)) report(join(at, key), `Missing required property '${key}'`);
+    }
+    for (const [key, child] of Object.entries(object)) {
+      if (schema.propertyNames) {
+        issues.push(...validateSchema(key, schema.propertyNames, root, join(at, key)));
+      }
+      const property = schema.properties?.[key];
+      if (property) {
+        issues.push(...validateSchema(child, property, root, join(at, key)));
+      } else if (schema.additionalProperties === false) {
+        report(join(at, key), `Unknown property '${key}'`);
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(child, schema.additionalProperties, root, join(at, key))
+        );
+      }
+    }
+  }
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some(
+      (option) => validateSchema(value, option, root, at).length === 0
+    );
+    if (!matched) report(at, `${at || "Value"} does not match any of the allowed shapes`);
+  }
+  if (schema.oneOf) {
+    const results = schema.oneOf.map((option) => validateSchema(value, option, root, at));
+    const matched = results.filter((r) => r.length === 0).length;
+    if (matched !== 1) {
+      // Report why the closest option failed, which is usually the intended one
+      const closest = results.reduce((a, b) => (b.length < a.length ? b : a));
+      if (matched === 0) {
+        issues.push(...closest);
+      } else {
+        report(at, `${at || "Value"} matches more than one of the allowed shapes`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Copy a value, leaving out the object properties its schema does not allow,
+ * e.g. fields added by a newer version of the schema. Nothing else is
+ * checked: values of the wrong type are kept for `validateSchema()` to
+ * report, and `anyOf` and `oneOf` are not looked into.
+ */
+export function pruneToSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema
+): unknown {
+  if (schema.$ref) {
+    const name = schema.$ref.replace(/^#\/\$defs\//, "");
+    const target = root.$defs?.[name];
+    if (!target) throw new Error(`Unsupported $ref '${schema.$ref}'`);
+    return pruneToSchema(value, target, root);
+  }
+
+  if (Array.isArray(value)) {
+    return schema.items
+      ? value.map((item) => pruneToSchema(item, schema.items, root))
+      : value;
+  }
+
+  if (typeOf(value) === "object") {
+    const pruned: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        pruned[key] = pruneToSchema(child, property, root);
+      } else if (typeof schema.additionalProperties === "object") {
+        pruned[key] = pruneToSchema(child, schema.additionalProperties, root);
+      } else if (schema.additionalProperties !== false) {
+        pruned[key] = child;
+      }
+    }
+    return pruned;
+  }
+
+  return value;
+}
@@ -0,0 +1,268 @@
+import { describe, it, expect } from "vitest";
+
+import { Extension, ExtensionVersion, GalleryOutput } from "./types";
+import {
+  escapeHtml,
+  extensionPagePath,
+  renderExtensionPage,
+  renderIndex,
+  renderSite,
+  siteMediaPaths,
+} from "./site-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeVersion(version: string, overrides: Partial<ExtensionVersion> = {}): ExtensionVersion {
+  return {
+    version,
+    released: "2024-06-01T12:00:00Z",
+    url: `https://example.com/my-ext@v${version}/my-ext.tar.gz`,
+    minimumConnectVersion: "2025.01.0",
+    ...overrides,
+  };
+}
+
+function makeExtension(overrides: Partial<Extension> = {}): Extension {
+  const latest = makeVersion("1.1.0");
+  return {
+    name: "my-ext",
+    title: "My Extension",
+    description: "A test extension",
+    homepage: "https://example.com",
+    latestVersion: latest,
+    versions: [latest, makeVersion("1.0.0")],
+    tags: ["python"],
+    category: "extension",
+    ...overrides,
+  };
+}
+
+function makeOutput(extensions: Extension[] = [makeExtension()]): GalleryOutput {
+  return {
+    categories: [{ id: "extension", title: "Extensions", description: "Extensions" }],
+    tags: ["python"],
+    requiredFeatures: [],
+    extensions,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// escapeHtml
+// ---------------------------------------------------------------------------
+
+describe("escapeHtml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;"
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderIndex
+// ---------------------------------------------------------------------------
+
+describe("renderIndex", () => {
+  it("lists every extension with filters for its category and tags", () => {
+    const html = renderIndex(makeOutput(), { title: "Our Gallery" });
+
+    expect(html).toContain("<title>Our Gallery</title>");
+    expect(html).toContain('<a href="extensions/my-ext.html">My Extension</a>');
+    expect(html).toContain('data-category="extension" data-tags="[&quot;python&quot;]"');
+    expect(html).toContain('<option value="extension">Extensions</option>');
+    expect(html).toContain('<option value="python">python</option>');
+  });
+
+  it("has no external resources", () => {
+    const html = renderIndex(makeOutput());
+
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+  });
+
+  it("escapes extension content", () => {
+    const html = renderIndex(makeOutput([makeExtension({ title: "<script>alert(1)</script>" })]));
+
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+  });
+
+  it("shows the copy of each extension's icon in the site", () => {
+    const icon = "https://example.com/my-ext-icon.png";
+    const output = makeOutput([makeExtension({ icon })]);
+
+    const html = renderIndex(output, { media: new Map([[icon, "assets/my-ext-icon.png"]]) });
+
+    expect(html).toContain('<img class="icon" src="assets/my-ext-icon.png" alt="">');
+    expect(renderIndex(output)).not.toContain("<img");
+  });
+
+  it("marks deprecated extensions", () => {
+    expect(renderIndex(makeOutput([makeExtension({ deprecated: true })]))).toContain(
+      '<span class="badge">Deprecated</span>'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderExtensionPage
+// ---------------------------------------------------------------------------
+
+describe("renderExtensionPage", () => {
+  it("shows the latest version's requirements and download link", () => {
+    const extension = makeExtension({
+      latestVersion: makeVersion("1.1.0", {
+        requiredFeatures: ["OAuth Integrations"],
+        requiredEnvironment: { python: { requires: ">=3.10" } },
+      }),
+    });
+
+    const html = renderExtensionPage(extension, makeOutput([extension]));
+
+    expect(html).toContain("<h2>Latest version: 1.1.0</h2>");
+    expect(html).toContain('<a href="https://example.com/my-ext@v1.1.0/my-ext.tar.gz">Download my-ext.tar.gz</a>');
+    expect(html).toContain("<li>Posit Connect 2025.01.0 or later</li>");
+    expect(html).toContain("<li>Python <code>&gt;=3.10</code></li>");
+    expect(html).toContain("<li>Connect feature: OAuth Integrations</li>");
+    expect(html).toContain('<a href="../index.html">');
+  });
+
+  it("lists every version with its changelog, digest and yanked status", () => {
+    const extension = makeExtension({
+      versions: [
+        makeVersion("1.1.0", { changelog: "- Fixed <things>", sha256: "abc123", size: 2048 }),
+        makeVersion("1.0.0", { yanked: true, yankedReason: "Broken upload" }),
+      ],
+    });
+
+    const html = renderExtensionPage(extension, makeOutput([extension]));
+
+    expect(html).toContain('<div class="changelog">- Fixed &lt;things&gt;</div>');
+    expect(html).toContain('<code title="SHA-256">abc123</code>');
+    expect(html).toContain("(2.0 KB)");
+    expect(html).toContain('<tr class="yanked">');
+    expect(html).toContain('<span class="badge">Yanked</span> Broken upload');
+    expect(html).toContain("<td>2024-06-01</td>");
+  });
+
+  it("links to the replacement of a deprecated extension", () => {
+    const replacement = makeExtension({ name: "new-ext", title: "New Extension" });
+    const extension = makeExtension({
+      deprecated: true,
+      deprecationReason: "No longer maintained.",
+      replacedBy: "new-ext",
+    });
+
+    const html = renderExtensionPage(extension, makeOutput([extension, replacement]));
+
+    expect(html).toContain(
+      'This extension is deprecated.</strong> No longer maintained. Use <a href="new-ext.html">New Extension</a> instead.'
+    );
+  });
+
+  it("shows the icon, screenshots and README", () => {
+    const extension = makeExtension({
+      icon: "https://example.com/my-ext-icon.svg",
+      screenshots: ["https://example.com/my-ext-screenshot-1.png", "https://example.com/not-copied.png"],
+      readme: "<h1>My Extension</h1>\n<p>Does things.</p>",
+    });
+    const media = new Map([
+      ["https://example.com/my-ext-icon.svg", "assets/my-ext-icon.svg"],
+      ["https://example.com/my-ext-screenshot-1.png", "assets/my-ext-screenshot-1.png"],
+    ]);
+
+    const html = renderExtensionPage(extension, makeOutput([extension]), { media });
+
+    expect(html).toContain('<img class="icon" src="../assets/my-ext-icon.svg" alt="">');
+    expect(html).toContain(
+      '<a href="../assets/my-ext-screenshot-1.png"><img class="screenshot" src="../assets/my-ext-screenshot-1.png" alt="Screenshot 1 of My Extension"></a>'
+    );
+    expect(html).not.toContain("not-copied");
+    expect(html).toContain(
+      '<div class="readme">\n<h1>My Extension</h1>\n<p>Does things.</p>\n</div>'
+    );
+  });
+
+  it("lists translations in their own language", () => {
+    const extension = makeExtension({
+      translations: {
+        fr: { title: "Mon extension", description: "Une extension de test" },
+        de: { title: "Meine Erweiterung", description: "Eine Test-Erweiterung" },
+      },
+    });
+
+    const html = renderExtensionPage(extension, makeOutput([extension]));
+
+    expect(html).toContain(
+      '<dt><code>de</code></dt><dd lang="de"><strong>Meine Erweiterung</strong> Eine Test-Erweiterung</dd>\n<dt><code>fr</code></dt><dd lang="fr"><strong>Mon extension</strong> Une extension de test</dd>'
+    );
+  });
+
+
+  it("does not link to URLs that are not http(s)", () => {
+    const extension = makeExtension({ homepage: "javascript:alert(1)" });
+
+    expect(renderExtensionPage(extension, makeOutput([extension]))).toContain('<a href="#">');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// siteMediaPaths
+// ---------------------------------------------------------------------------
+
+describe("siteMediaPaths", () => {
+  it("names a copy of each icon and screenshot", () => {
+    const output = makeOutput([
+      makeExtension({
+        icon: "https://example.com/download/my-ext-icon.SVG",
+        screenshots: ["https://example.com/a.png?raw=true", "https://example.com/b.webp"],
+      }),
+    ]);
+
+    expect(siteMediaPaths(output)).toEqual(
+      new Map([
+        ["https://example.com/download/my-ext-icon.SVG", "assets/my-ext-icon.svg"],
+        ["https://example.com/a.png?raw=true", "assets/my-ext-screenshot-1.png"],
+        ["https://example.com/b.webp", "assets/my-ext-screenshot-2.webp"],
+      ])
+    );
+  });
+
+  it("leaves out URLs that are not http(s) or not of an image format", () => {
+    const output = makeOutput([
+      makeExtension({
+        icon: "javascript:alert(1)",
+        screenshots: ["data:image/png;base64,AAAA", "https://example.com/page.html", "https://example.com/shot"],
+      }),
+    ]);
+
+    expect(siteMediaPaths(output)).toEqual(new Map());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderSite
+// ---------------------------------------------------------------------------
+
+describe("renderSite", () => {
+  it("renders an index, a page per extension and a copy of the feed", () => {
+    const output = makeOutput();
+
+    const files = renderSite(output);
+
+    expect([...files.keys()]).toEqual(["index.html", "extensions/my-ext.html", "extensions.json"]);
+    expect(JSON.parse(files.get("extensions.json")!)).toEqual(output);
+  });
+
+  it("uses extension names as they are in page paths", () => {
+    expect(extensionPagePath("my-ext_2.0")).toBe("extensions/my-ext_2.0.html");
+  });
+
+  it("rejects extension names that need URL encoding", () => {
+    expect(() => extensionPagePath("a b")).toThrow("Extension name 'a b' cannot be used in a page path");
+    expect(() => renderSite(makeOutput([makeExtension({ name: "../x" })]))).toThrow(
+      "Extension name '../x' cannot be used in a page path"
+    );
+  });
+});
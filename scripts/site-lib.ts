@@ -0,0 +1,409 @@
+import { Extension, ExtensionVersion, GalleryOutput } from "./types";
+import { ICON_LIMITS, SCREENSHOT_LIMITS } from "./media-lib";
+import { formatSize } from "./package-lib";
+import { LANGUAGE_NAMES } from "./requirements";
+
+export interface SiteOptions {
+  /** Heading and page title of the index. Defaults to "Extension Gallery". */
+  title?: string;
+  /**
+   * Paths, relative to the root of the site, of the icons and screenshots
+   * copied into it, keyed by their URL in the feed (see `siteMediaPaths()`).
+   * Images that were not copied are left out.
+   */
+  media?: Map<string, string>;
+}
+
+// Inlined into every page so the site works from any static host, or straight
+// from disk, without fetching anything
+const STYLE = `
+  :root { color-scheme: light dark; --muted: #6b7280; --border: #d1d5db; --accent: #2563eb; }
+  body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 64rem; margin: 0 auto; padding: 1rem 1.5rem 3rem; }
+  a { color: var(--accent); }
+  header p, .muted { color: var(--muted); }
+  .filters { display: flex; flex-wrap: wrap; gap: 0.75rem; margin: 1rem 0 1.5rem; }
+  .filters input, .filters select { font: inherit; padding: 0.35rem 0.5rem; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(18rem, 1fr)); gap: 1rem; list-style: none; padding: 0; }
+  .card { border: 1px solid var(--border); border-radius: 0.5rem; padding: 1rem; }
+  .card h2 { font-size: 1.1rem; margin: 0 0 0.25rem; }
+  .icon { float: right; width: 3rem; height: 3rem; object-fit: contain; margin: 0 0 0.5rem 0.75rem; }
+  header .icon { width: 4rem; height: 4rem; }
+  .card p { margin: 0.5rem 0; }
+  .tag { display: inline-block; font-size: 0.8rem; border: 1px solid var(--border); border-radius: 999px; padding: 0 0.5rem; margin: 0 0.25rem 0.25rem 0; }
+  .badge { display: inline-block; font-size: 0.75rem; font-weight: 600; border-radius: 0.25rem; padding: 0 0.4rem; background: #fde68a; color: #78350f; }
+  .notice { border-left: 4px solid #f59e0b; padding: 0.5rem 1rem; background: rgba(245, 158, 11, 0.1); }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; border-bottom: 1px solid var(--border); padding: 0.5rem; }
+  tr.yanked td { color: var(--muted); text-decoration: line-through; }
+  tr.yanked td.reason { text-decoration: none; }
+  .changelog { white-space: pre-wrap; font-size: 0.9rem; margin: 0; }
+  .readme { border: 1px solid var(--border); border-radius: 0.5rem; padding: 0 1rem; }
+  .readme pre { overflow-x: auto; }
+  .screenshots { display: flex; flex-wrap: wrap; gap: 1rem; }
+  .screenshots img { max-width: 100%; max-height: 20rem; border: 1px solid var(--border); border-radius: 0.25rem; }
+  code { font-size: 0.85rem; word-break: break-all; }
+  [hidden] { display: none !important; }
+`;
+
+const FILTER_SCRIPT = `
+  const search = document.getElementById("search");
+  const category = document.getElementById("category");
+  const tag = document.getElementById("tag");
+  const cards = [...document.querySelectorAll(".card")];
+  const empty = document.getElementById("empty");
+  function filter() {
+    const text = search.value.trim().toLowerCase();
+    let shown = 0;
+    for (const card of cards) {
+      const visible =
+        (!text || card.textContent.toLowerCase().includes(text)) &&
+        (!category.value || card.dataset.category === category.value) &&
+        (!tag.value || JSON.parse(card.dataset.tags).includes(tag.value));
+      card.hidden = !visible;
+      if (visible) shown++;
+    }
+    empty.hidden = shown > 0;
+  }
+  for (const input of [search, category, tag]) input.addEventListener("input", filter);
+`;
+
+/** Escape text for use in HTML content and attribute values. */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Only link to web URLs, since feeds merged from other sources are not linted
+function href(url: string): string {
+  return /^https?:\/\//i.test(url) ? escapeHtml(url) : "#";
+}
+
+// Images are only shown from their copies in the site, so pages never load
+// anything from elsewhere. `root` leads from the page to the root of the site
+function image(
+  src: string | undefined,
+  className: string,
+  alt: string,
+  root: string
+): string {
+  return src
+    ? `<img class="${className}" src="${escapeHtml(root + src)}" alt="${escapeHtml(alt)}">`
+    : "";
+}
+
+/**
+ * Whether an extension name can be used in the site's file names. They double
+ * as hrefs, so names that need URL encoding are not allowed: a static host
+ * decodes the href and would look for a file with the decoded name.
+ */
+export function isSiteName(name: string): boolean {
+  return /^[A-Za-z0-9._~-]+$/.test(name);
+}
+
+// Copies are named by what they are rather than after their URL, keeping the
+// format the URL names
+function mediaPath(url: string, name: string, label: string, extensions: string[]): string | null {
+  if (!/^https?:\/\//i.test(url) || !isSiteName(name)) {
+    return null;
+  }
+  let ext: string;
+  try {
+    const file = new URL(url).pathname;
+    ext = file.slice(file.lastIndexOf(".")).toLowerCase();
+  } catch {
+    return null;
+  }
+  return extensions.includes(ext) ? `assets/${name}-${label}${ext}` : null;
+}
+
+/**
+ * The icons and screenshots of a gallery that can be copied into its site, as
+ * a map of their URLs to paths relative to the root of the site, e.g.
+ * `assets/my-ext-icon.png`. Only web URLs of known image formats are included.
+ */
+export function siteMediaPaths(output: GalleryOutput): Map<string, string> {
+  const paths = new Map<string, string>();
+  for (const extension of output.extensions) {
+    const icon = extension.icon
+      ? mediaPath(extension.icon, extension.name, "icon", ICON_LIMITS.extensions)
+      : null;
+    if (icon) paths.set(extension.icon, icon);
+    (extension.screenshots || []).forEach((url, i) => {
+      const screenshot = mediaPath(url, extension.name, `screenshot-${i + 1}`, SCREENSHOT_LIMITS.extensions);
+      if (screenshot) paths.set(url, screenshot);
+    });
+  }
+  return paths;
+}
+
+/**
+ * Path of an extension's page relative to the root of the site, which is also
+ * the href of the page.
+ */
+export function extensionPagePath(name: string): string {
+  if (!isSiteName(name)) {
+    throw new Error(`Extension name '${name}' cannot be used in a page path`);
+  }
+  return `extensions/${name}.html`;
+}
+
+function page(title: string, body: string, script = ""): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    body,
+    script ? `<script>${script}</script>` : "",
+    "</body>",
+    "</html>",
+  ]
+    .filter((line) => line !== "")
+    .join("\n") + "\n";
+}
+
+function date(iso: string): string {
+  return escapeHtml(iso.slice(0, 10));
+}
+
+function tags(values: string[]): string {
+  return values.map((t) => `<span class="tag">${escapeHtml(t)}</span>`).join("");
+}
+
+function requirements(version: ExtensionVersion): string {
+  const items = [
+    `Posit Connect ${escapeHtml(version.minimumConnectVersion)} or later`,
+  ];
+  for (const [language, name] of Object.entries(LANGUAGE_NAMES)) {
+    const requirement = version.requiredEnvironment?.[language];
+    if (requirement) {
+      items.push(`${name} <code>${escapeHtml(requirement.requires)}</code>`);
+    }
+  }
+  for (const feature of version.requiredFeatures || []) {
+    items.push(`Connect feature: ${escapeHtml(feature)}`);
+  }
+  return `<ul>${items.map((i) => `<li>${i}</li>`).join("")}</ul>`;
+}
+
+function translations(extension: Extension): string {
+  const entries = Object.entries(extension.translations || {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  if (entries.length === 0) {
+    return "";
+  }
+  return [
+    "<h2>Translations</h2>",
+    "<dl>",
+    ...entries.map(
+      ([locale, t]) =>
+        `<dt><code>${escapeHtml(locale)}</code></dt><dd lang="${escapeHtml(locale)}"><strong>${escapeHtml(t.title)}</strong> ${escapeHtml(t.description)}</dd>`
+    ),
+    "</dl>",
+  ].join("\n");
+}
+
+function screenshots(extension: Extension, media: Map<string, string>): string {
+  const images = (extension.screenshots || [])
+    .map((url, i) => [media.get(url), `Screenshot ${i + 1} of ${extension.title}`])
+    .filter(([src]) => src)
+    .map(
+      ([src, alt]) =>
+        `<a href="../${escapeHtml(src)}">${image(src, "screenshot", alt, "../")}</a>`
+    );
+  return images.length
+    ? ["<h2>Screenshots</h2>", '<div class="screenshots">', ...images, "</div>"].join("\n")
+    : "";
+}
+
+// The README is already HTML, rendered with everything unsafe escaped
+function readme(extension: Extension): string {
+  return extension.readme
+    ? `<h2>README</h2>\n<div class="readme">\n${extension.readme}\n</div>`
+    : "";
+}
+
+function card(
+  extension: Extension,
+  categoryTitles: Map<string, string>,
+  media: Map<string, string>
+): string {
+  const category = extension.category
+    ? categoryTitles.get(extension.category) || extension.category
+    : "";
+  return [
+    `<li class="card" data-category="${escapeHtml(extension.category || "")}" data-tags="${escapeHtml(JSON.stringify(extension.tags))}">`,
+    extension.icon ? image(media.get(extension.icon), "icon", "", "") : "",
+    `<h2><a href="${extensionPagePath(extension.name)}">${escapeHtml(extension.title)}</a></h2>`,
+    `<div class="muted">v${escapeHtml(extension.latestVersion.version)}${category ? ` · ${escapeHtml(category)}` : ""}</div>`,
+    extension.deprecated ? '<span class="badge">Deprecated</span>' : "",
+    `<p>${escapeHtml(extension.description)}</p>`,
+    tags(extension.tags),
+    "</li>",
+  ]
+    .filter((line) => line !== "")
+    .join("\n");
+}
+
+/**
+ * Render the index page: every extension as a card, with a search box and
+ * category and tag filters that work without any network access.
+ */
+export function renderIndex(
+  output: GalleryOutput,
+  options: SiteOptions = {}
+): string {
+  const title = options.title || "Extension Gallery";
+  const categoryTitles = new Map(output.categories.map((c) => [c.id, c.title]));
+  const usedTags = [...new Set(output.extensions.flatMap((e) => e.tags))].sort();
+
+  const body = [
+    "<header>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>${output.extensions.length} extensions for Posit Connect. The machine-readable feed is <a href="extensions.json">extensions.json</a>.</p>`,
+    "</header>",
+    '<div class="filters">',
+    '<input id="search" type="search" placeholder="Search" aria-label="Search">',
+    '<select id="category" aria-label="Category"><option value="">All categories</option>',
+    ...output.categories.map(
+      (c) => `<option value="${escapeHtml(c.id)}">${escapeHtml(c.title)}</option>`
+    ),
+    "</select>",
+    '<select id="tag" aria-label="Tag"><option value="">All tags</option>',
+    ...usedTags.map((t) => `<option value="${escapeHtml(t)}">${escapeHtml(t)}</option>`),
+    "</select>",
+    "</div>",
+    '<ul class="cards">',
+    ...output.extensions.map((e) => card(e, categoryTitles, options.media || new Map())),
+    "</ul>",
+    '<p id="empty" class="muted" hidden>No extensions match these filters.</p>',
+  ].join("\n");
+
+  return page(title, body, FILTER_SCRIPT);
+}
+
+function versionRow(version: ExtensionVersion): string {
+  const download = [
+    `<a href="${href(version.url)}">Download</a>`,
+    version.size !== undefined ? ` <span class="muted">(${formatSize(version.size)})</span>` : "",
+    version.sha256 ? `<br><code title="SHA-256">${escapeHtml(version.sha256)}</code>` : "",
+  ].join("");
+  const notes = [
+    version.yanked
+      ? `<p class="reason"><span class="badge">Yanked</span> ${escapeHtml(version.yankedReason || "")}</p>`
+      : "",
+    version.changelog
+      ? `<div class="changelog">${escapeHtml(version.changelog)}</div>`
+      : "",
+  ].join("");
+
+  return [
+    `<tr${version.yanked ? ' class="yanked"' : ""}>`,
+    `<td>${escapeHtml(version.version)}${version.channel ? ` <span class="tag">${escapeHtml(version.channel)}</span>` : ""}</td>`,
+    `<td>${date(version.released)}</td>`,
+    `<td>Connect ${escapeHtml(version.minimumConnectVersion)}</td>`,
+    `<td>${download}</td>`,
+    `<td class="reason">${notes}</td>`,
+    "</tr>",
+  ].join("");
+}
+
+/**
+ * Render the page of a single extension: its requirements, download link,
+ * screenshots and README for the latest version, its translations, and the
+ * history of every released version.
+ */
+export function renderExtensionPage(
+  extension: Extension,
+  output: GalleryOutput,
+  options: SiteOptions = {}
+): string {
+  const category = output.categories.find((c) => c.id === extension.category);
+  const replacement = output.extensions.find(
+    (e) => e.name === extension.replacedBy
+  );
+  const latest = extension.latestVersion;
+
+  const deprecation = extension.deprecated
+    ? [
+        '<p class="notice"><strong>This extension is deprecated.</strong>',
+        extension.deprecationReason ? ` ${escapeHtml(extension.deprecationReason)}` : "",
+        extension.replacedBy
+          ? ` Use ${
+              replacement
+                ? `<a href="${escapeHtml(replacement.name)}.html">${escapeHtml(replacement.title)}</a>`
+                : escapeHtml(extension.replacedBy)
+            } instead.`
+          : "",
+        "</p>",
+      ].join("")
+    : "";
+
+  const body = [
+    `<p><a href="../index.html">← ${escapeHtml(options.title || "Extension Gallery")}</a></p>`,
+    "<header>",
+    extension.icon ? image(options.media?.get(extension.icon), "icon", "", "../") : "",
+    `<h1>${escapeHtml(extension.title)}</h1>`,
+    `<p>${escapeHtml(extension.description)}</p>`,
+    "</header>",
+    deprecation,
+    "<dl>",
+    `<dt>Name</dt><dd><code>${escapeHtml(extension.name)}</code></dd>`,
+    category ? `<dt>Category</dt><dd>${escapeHtml(category.title)}</dd>` : "",
+    extension.tags.length ? `<dt>Tags</dt><dd>${tags(extension.tags)}</dd>` : "",
+    `<dt>Homepage</dt><dd><a href="${href(extension.homepage)}">${escapeHtml(extension.homepage)}</a></dd>`,
+    extension.source ? `<dt>Source</dt><dd>${escapeHtml(extension.source)}</dd>` : "",
+    "</dl>",
+    `<h2>Latest version: ${escapeHtml(latest.version)}</h2>`,
+    `<p>Released ${date(latest.released)} · <a href="${href(latest.url)}">Download ${escapeHtml(extension.name)}.tar.gz</a></p>`,
+    "<h3>Requirements</h3>",
+    requirements(latest),
+    screenshots(extension, options.media || new Map()),
+    readme(extension),
+    translations(extension),
+    "<h2>Version history</h2>",
+    "<table>",
+    "<thead><tr><th>Version</th><th>Released</th><th>Requires</th><th>Download</th><th>Notes</th></tr></thead>",
+    "<tbody>",
+    ...extension.versions.map(versionRow),
+    "</tbody>",
+    "</table>",
+  ]
+    .filter((line) => line !== "")
+    .join("\n");
+
+  return page(`${extension.title} · ${options.title || "Extension Gallery"}`, body);
+}
+
+/**
+ * Render the static site for a gallery as a map of paths, relative to the
+ * root of the site, to file contents. The site has no runtime dependencies,
+ * so it can be published to GitHub Pages as is. Icons and screenshots are
+ * not included: the caller copies them into the site and names the copies in
+ * `options.media`.
+ */
+export function renderSite(
+  output: GalleryOutput,
+  options: SiteOptions = {}
+): Map<string, string> {
+  const files = new Map<string, string>();
+  files.set("index.html", renderIndex(output, options));
+  for (const extension of output.extensions) {
+    files.set(
+      extensionPagePath(extension.name),
+      renderExtensionPage(extension, output, options)
+    );
+  }
+  files.set("extensions.json", JSON.stringify(output, null, 2) + "\n");
+  return files;
+}
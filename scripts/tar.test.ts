@@ -0,0 +1,103 @@
+import zlib from "zlib";
+import { describe, it, expect } from "vitest";
+
+import { createTarGz, readTarGz, TarEntry } from "./tar";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function file(path: string, content: string, mode = 0o644): TarEntry {
+  return { path, type: "file", mode, data: Buffer.from(content) };
+}
+
+// A raw 512-byte header with only the fields readTarGz needs
+function rawHeader(name: string, type: string, size: number): Buffer {
+  const block = Buffer.alloc(512);
+  block.write(name, 0);
+  block.write(size.toString(8).padStart(11, "0"), 124);
+  block.write(type, 156);
+  return block;
+}
+
+function pad(data: Buffer): Buffer {
+  return Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+}
+
+// ---------------------------------------------------------------------------
+// createTarGz / readTarGz
+// ---------------------------------------------------------------------------
+
+describe("createTarGz", () => {
+  it("round-trips files through readTarGz", () => {
+    const entries = [
+      file("manifest.json", "{}"),
+      file("app.py", "print('hi')\n", 0o755),
+      file("www/index.html", ""),
+    ];
+
+    expect(readTarGz(createTarGz(entries))).toEqual(entries);
+  });
+
+  it("produces identical bytes for identical entries", () => {
+    const entries = [file("manifest.json", "{}"), file("app.py", "x".repeat(1000))];
+
+    expect(createTarGz(entries).equals(createTarGz(entries))).toBe(true);
+  });
+
+  it("normalizes owners and mtime in the headers", () => {
+    const tar = zlib.gunzipSync(createTarGz([file("a.txt", "a")], 1700000000));
+
+    expect(tar.subarray(108, 115).toString()).toBe("0000000");
+    expect(tar.subarray(116, 123).toString()).toBe("0000000");
+    expect(parseInt(tar.subarray(136, 147).toString(), 8)).toBe(1700000000);
+    expect(tar.subarray(265, 297).every((b) => b === 0)).toBe(true);
+  });
+
+  it("stores long paths using the ustar prefix", () => {
+    const longPath = `${"dir/".repeat(30)}file.txt`;
+
+    expect(readTarGz(createTarGz([file(longPath, "x")]))[0].path).toBe(longPath);
+  });
+
+  it("rejects paths that cannot be stored", () => {
+    expect(() => createTarGz([file("x".repeat(120), "")])).toThrow(/too long/);
+  });
+});
+
+describe("readTarGz", () => {
+  it("strips a leading ./ and reads directories", () => {
+    const archive = createTarGz([
+      { path: "./bundle", type: "directory", mode: 0o755, data: Buffer.alloc(0) },
+      file("./bundle/manifest.json", "{}"),
+    ]);
+
+    expect(readTarGz(archive).map((e) => [e.type, e.path])).toEqual([
+      ["directory", "bundle"],
+      ["file", "bundle/manifest.json"],
+    ]);
+  });
+
+  it("understands pax and GNU long names", () => {
+    const paxRecord = Buffer.from("26 path=pax/long/name.txt\n");
+    const gnuName = Buffer.from("gnu/long/name.txt\0");
+    const tar = Buffer.concat([
+      rawHeader("PaxHeader", "x", paxRecord.length),
+      pad(paxRecord),
+      rawHeader("truncated", "0", 1),
+      pad(Buffer.from("a")),
+      rawHeader("././@LongLink", "L", gnuName.length),
+      pad(gnuName),
+      rawHeader("truncated", "0", 1),
+      pad(Buffer.from("b")),
+      Buffer.alloc(1024),
+    ]);
+
+    const entries = readTarGz(zlib.gzipSync(tar));
+
+    expect(entries.map((e) => [e.path, e.data.toString()])).toEqual([
+      ["pax/long/name.txt", "a"],
+      ["gnu/long/name.txt", "b"],
+    ]);
+  });
+});
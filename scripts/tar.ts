@@ -0,0 +1,161 @@
+import zlib from "zlib";
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  /** POSIX path inside the archive, without a leading `./`. */
+  path: string;
+  type: "file" | "directory";
+  mode: number;
+  data: Buffer;
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number) {
+  const bytes = Buffer.from(value, "utf8");
+  if (bytes.length > length) {
+    throw new Error(`'${value}' is too long for a tar header field`);
+  }
+  bytes.copy(block, offset);
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number) {
+  writeString(block, value.toString(8).padStart(length - 1, "0"), offset, length - 1);
+}
+
+// ustar stores paths longer than 100 bytes as a prefix (up to 155 bytes) and
+// a name joined by a slash
+function splitPath(path: string): [string, string] {
+  if (Buffer.byteLength(path) <= 100) return ["", path];
+  for (let i = path.lastIndexOf("/"); i > 0; i = path.lastIndexOf("/", i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return [prefix, name];
+    }
+  }
+  throw new Error(`Path is too long to store in a tar archive: ${path}`);
+}
+
+function header(entry: TarEntry, mtime: number): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  const [prefix, name] = splitPath(
+    entry.type === "directory" ? `${entry.path}/` : entry.path
+  );
+
+  writeString(block, name, 0, 100);
+  writeOctal(block, entry.mode, 100, 8);
+  writeOctal(block, 0, 108, 8); // uid
+  writeOctal(block, 0, 116, 8); // gid
+  writeOctal(block, entry.type === "file" ? entry.data.length : 0, 124, 12);
+  writeOctal(block, mtime, 136, 12);
+  block.fill(" ", 148, 156); // checksum placeholder
+  block.write(entry.type === "directory" ? "5" : "0", 156);
+  writeString(block, "ustar\0", 257, 6);
+  writeString(block, "00", 263, 2);
+  writeString(block, prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  writeString(block, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+
+  return block;
+}
+
+/**
+ * Create a gzipped ustar archive. Entries are written in the order given with
+ * owner ids of 0, empty owner names and a fixed mtime, so the same entries
+ * always produce the same bytes.
+ */
+export function createTarGz(entries: TarEntry[], mtime = 0): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    blocks.push(header(entry, mtime));
+    if (entry.type === "file" && entry.data.length > 0) {
+      blocks.push(entry.data);
+      const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  // zlib leaves the gzip header mtime as zero, keeping the output stable
+  return zlib.gzipSync(Buffer.concat(blocks), { level: 9 });
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+// Parse the `path` record out of a pax extended header
+function paxPath(data: Buffer): string | undefined {
+  const text = data.toString("utf8");
+  let position = 0;
+  while (position < text.length) {
+    const space = text.indexOf(" ", position);
+    const length = parseInt(text.slice(position, space), 10);
+    if (!length) break;
+    const record = text.slice(space + 1, position + length - 1);
+    const equals = record.indexOf("=");
+    if (record.slice(0, equals) === "path") return record.slice(equals + 1);
+    position += length;
+  }
+  return undefined;
+}
+
+/**
+ * Read the files and directories in a gzipped tar archive. Understands ustar
+ * as well as the pax and GNU long name extensions other tar tools emit; other
+ * entry types such as links are skipped.
+ */
+export function readTarGz(archive: Buffer): TarEntry[] {
+  const tar = zlib.gunzipSync(archive);
+  const entries: TarEntry[] = [];
+  let longPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const block = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (block.every((byte) => byte === 0)) break;
+
+    const size = readOctal(block, 124, 12);
+    const type = String.fromCharCode(block[156] || 48);
+    const data = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === "x") {
+      longPath = paxPath(data) ?? longPath;
+      continue;
+    }
+    if (type === "L") {
+      longPath = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === "g") continue;
+
+    const prefix = readString(block, 345, 155);
+    const name = readString(block, 0, 100);
+    const path = (longPath ?? (prefix ? `${prefix}/${name}` : name))
+      .replace(/^(\.\/)+/, "")
+      .replace(/\/+$/, "");
+    longPath = undefined;
+
+    if ((type === "0" || type === "5") && path) {
+      entries.push({
+        path,
+        type: type === "5" ? "directory" : "file",
+        mode: readOctal(block, 100, 8),
+        data: Buffer.from(data),
+      });
+    }
+  }
+
+  return entries;
+}
@@ -1,11 +1,107 @@
+/** A title and description in another language. */
+export interface Translation {
+  title: string;
+  description: string;
+}
+
+/**
+ * Translations keyed by locale code, e.g. `fr` or `pt-BR`. The untranslated
+ * `title` and `description` remain the default for readers that do not know
+ * about translations.
+ */
+export type Translations = Record<string, Translation>;
+
 export interface Category {
   id: string;
   title: string;
   description: string;
+  translations?: Translations;
+}
+
+/** A released version pulled from the gallery without deleting its release. */
+export interface YankedVersion {
+  extension: string;
+  version: string;
+  /** Why the version was yanked, shown to users who still have it. */
+  reason: string;
+}
+
+export interface DeprecatedExtension {
+  extension: string;
+  reason?: string;
+  /** Name of the extension that users should switch to. */
+  replacedBy?: string;
 }
 
+/**
+ * Which released versions of an extension to list in `versions`. A version is
+ * kept when any rule set here keeps it; `latestVersion` and
+ * `latestPrerelease` are always kept, and a policy without rules keeps every
+ * version.
+ */
+export interface RetentionPolicy {
+  /** Keep the newest N versions, prereleases included. */
+  keepNewest?: number;
+  /** Keep the newest stable version of each major.minor line. */
+  keepLatestPatches?: boolean;
+  /**
+   * Keep the newest stable version that installs on each older
+   * `minimumConnectVersion`, so servers that cannot run the latest version
+   * still have one to install.
+   */
+  keepForOlderConnect?: boolean;
+}
+
+/** Another repository whose extensions are built into this gallery. */
+export interface RepoGallerySource {
+  /** Repository in `owner/name` form. */
+  repo: string;
+  /** Directory holding the extensions in that repository. Defaults to `extensions`. */
+  extensionsDir?: string;
+  /** Branch, tag or commit to read manifests from. Defaults to the default branch. */
+  ref?: string;
+}
+
+/** A published extensions.json whose extensions are copied into this gallery. */
+export interface FeedGallerySource {
+  url: string;
+}
+
+export type GallerySource = RepoGallerySource | FeedGallerySource;
+
+/**
+ * How to resolve an extension name published by more than one source:
+ * fail (`error`), keep the one from the source listed first (`first`, with
+ * this repository before any `sources`), or keep the one with the highest
+ * `latestVersion` (`newest`).
+ */
+export type ConflictStrategy = "error" | "first" | "newest";
+
 export interface GalleryConfig {
   categories: Category[];
+  /**
+   * When true (the default), gallery-wide consistency problems fail
+   * generation. When false they are reported as warnings only.
+   */
+  strict?: boolean;
+  /**
+   * Publish the newest prerelease of each extension as `latestPrerelease`
+   * when it is newer than `latestVersion`. Defaults to false.
+   */
+  publishLatestPrerelease?: boolean;
+  /** Versions to flag as yanked and keep out of `latestVersion`. */
+  yanked?: YankedVersion[];
+  /** Extensions to flag as deprecated. */
+  deprecated?: DeprecatedExtension[];
+  /** Additional repositories and feeds to merge into the gallery. */
+  sources?: GallerySource[];
+  /** Defaults to `error`. */
+  onConflict?: ConflictStrategy;
+  /**
+   * Retention policy for every extension. Lists every version when absent.
+   * An extension's manifest can replace it with its own.
+   */
+  retention?: RetentionPolicy;
 }
 
 export interface LanguageRequirement {
@@ -29,6 +125,15 @@ export interface ExtensionManifest {
     requiredFeatures?: string[];
     category?: Category["id"];
     tags?: string[];
+    /** Replaces the retention policy of the gallery config. */
+    retention?: RetentionPolicy;
+    translations?: Translations;
+    /** Path of a PNG or SVG icon, relative to the extension directory. */
+    icon?: string;
+    /** Paths of screenshots, relative to the extension directory. */
+    screenshots?: string[];
+    /** Path of a Markdown README to show in the gallery. */
+    readme?: string;
   };
   environment?: ExtensionEnvironment;
 }
@@ -40,6 +145,23 @@ export interface ExtensionVersion {
   minimumConnectVersion: string;
   requiredFeatures?: string[];
   requiredEnvironment?: ExtensionEnvironment;
+  /** Hex-encoded SHA-256 digest of the tarball at `url`. */
+  sha256?: string;
+  /** Size of the tarball at `url` in bytes. */
+  size?: number;
+  /**
+   * Release channel for prerelease versions, taken from the first prerelease
+   * identifier (e.g. `beta` for `2.0.0-beta.1`). Absent for stable versions.
+   */
+  channel?: string;
+  /**
+   * Release notes for the version, in Markdown, taken from the extension's
+   * CHANGELOG.md when it was released.
+   */
+  changelog?: string;
+  /** Set when the version was yanked in the gallery config. */
+  yanked?: boolean;
+  yankedReason?: string;
 }
 
 export interface Extension {
@@ -47,10 +169,44 @@ export interface Extension {
   title: string;
   description: string;
   homepage: string;
+  /** Newest stable version; prereleases are never chosen. */
   latestVersion: ExtensionVersion;
+  latestPrerelease?: ExtensionVersion;
   versions: ExtensionVersion[];
   tags: string[];
   category?: Category["id"];
+  translations?: Translations;
+  /** Download URL of the icon attached to the latest version's release. */
+  icon?: string;
+  /** Download URLs of the screenshots attached to the latest version's release. */
+  screenshots?: string[];
+  /**
+   * README of the latest version, rendered to HTML with raw HTML escaped and
+   * only http(s) and mailto links kept, so it can be inserted as is.
+   */
+  readme?: string;
+  /**
+   * Repository (`owner/name`) the extension was released from, or the URL of
+   * the feed it was copied from.
+   */
+  source?: string;
+  /** Set when the extension was deprecated in the gallery config. */
+  deprecated?: boolean;
+  deprecationReason?: string;
+  replacedBy?: string;
+}
+
+/** The extensions.json document produced by `buildOutput()`. */
+export interface GalleryOutput {
+  /**
+   * Version of `schemas/extensions.schema.json` the document follows. Absent
+   * in documents generated before the schema was published.
+   */
+  schemaVersion?: number;
+  categories: Category[];
+  tags: string[];
+  requiredFeatures: string[];
+  extensions: Extension[];
 }
 
 export interface GitHubReleaseAsset {
@@ -63,18 +219,256 @@ export interface GitHubRelease {
   publishedAt: string;
   assets: GitHubReleaseAsset[];
   body: string;
+  /** Whether the release is marked as a prerelease on GitHub. */
+  prerelease?: boolean;
+  /**
+   * README already rendered to HTML, from sources such as mirrors that only
+   * have the published gallery and not the Markdown. Never read from GitHub.
+   */
+  readmeHtml?: string;
 }
 
 export interface ReleaseMetadata {
   minimumConnectVersion: string;
   requiredFeatures: string[];
   requiredEnvironment: ExtensionEnvironment;
+  /** Absent on releases made before checksums were recorded. */
+  sha256?: string;
+  size?: number;
+  /** The README referenced by the manifest at release, in Markdown. */
+  readme?: string;
+}
+
+/**
+ * Metadata stored next to each tarball in a mirror directory, laid out as
+ * `{name}/{version}/metadata.json`.
+ */
+export interface MirrorMetadata extends ReleaseMetadata {
+  released: string;
+  /** Set when the version was marked as a prerelease on GitHub. */
+  prerelease?: boolean;
+  /** Release notes, in Markdown, from the release body. */
+  changelog?: string;
+  /** The rendered README of the mirrored gallery, for the latest version. */
+  readmeHtml?: string;
+}
+
+export type ReleaseAction = "release" | "skip" | "error";
+
+/** Decision made by `planRelease()` for the version in a manifest. */
+export interface ReleasePlan {
+  action: ReleaseAction;
+  /** Version in the manifest. */
+  version: string;
+  /** Highest released version by semver, or null if never released. */
+  latestVersion: string | null;
+  /** Release tag for `version`, e.g. `my-ext@v1.2.0`. */
+  tag: string;
+  reason: string;
+}
+
+/** Anything that can supply the releases the gallery is built from. */
+export interface ReleaseSource {
+  listReleases(): Promise<GitHubRelease[]>;
 }
 
 /** Shape returned by the GitHub REST API for a release. */
 export interface GitHubApiRelease {
   tag_name: string;
-  published_at: string;
+  /** Null for drafts, which are only listed for tokens with push access. */
+  published_at: string | null;
   assets: Array<{ name: string; browser_download_url: string }>;
   body: string;
+  prerelease?: boolean;
+  draft?: boolean;
+}
+
+export type ValidationSeverity = "error" | "warning";
+
+/** A single problem found while validating a manifest or the gallery. */
+export interface ValidationIssue {
+  /** Dotted path to the offending field, e.g. `extension.homepage`. */
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+  /** Directory name of the extension the issue belongs to, if any. */
+  extension?: string;
+}
+
+export type AssetVerificationStatus = "ok" | "mismatch" | "missing" | "unverified";
+
+/** Result of checking one released tarball against its recorded digest. */
+export interface AssetVerification {
+  extension: string;
+  version: string;
+  status: AssetVerificationStatus;
+  message: string;
+}
+
+export interface VersionRef {
+  extension: string;
+  version: string;
+}
+
+/** Semantic difference between two generated extensions.json documents. */
+export interface GalleryDiff {
+  addedExtensions: string[];
+  removedExtensions: string[];
+  /** Extensions whose top-level fields (title, tags, ...) changed. */
+  changedExtensions: Array<{ extension: string; fields: string[] }>;
+  addedVersions: VersionRef[];
+  removedVersions: VersionRef[];
+  /** Versions present in both documents whose entry changed. */
+  changedVersions: VersionRef[];
+  addedCategories: string[];
+  removedCategories: string[];
+  changedCategories: string[];
+  addedTags: string[];
+  removedTags: string[];
+  addedFeatures: string[];
+  removedFeatures: string[];
+}
+
+/** What a Connect server offers, to check which extension versions it can install. */
+export interface ServerProfile {
+  /** Connect version, e.g. `2025.04.0`. */
+  connectVersion: string;
+  /** Enabled features, e.g. `API Publishing`. Not checked when omitted. */
+  features?: string[];
+  /**
+   * Installed interpreter versions per language. A language that is omitted
+   * is not checked; an empty list means none is installed.
+   */
+  python?: string[];
+  r?: string[];
+  quarto?: string[];
+}
+
+/** A version passed over by `resolveCompatible()` and every reason why. */
+export interface ExcludedVersion {
+  version: string;
+  reasons: string[];
+}
+
+/** Newest version of one extension that a server can install. */
+export interface CompatibilityResult {
+  extension: string;
+  /** Null when no version can be installed. */
+  installable: string | null;
+  /** Versions newer than `installable`, newest first. */
+  excluded: ExcludedVersion[];
+}
+
+/** An interpreter version written down by one of an extension's files. */
+export interface RecordedVersion {
+  version: string;
+  /** File and field it was read from, e.g. `renv.lock R.Version`. */
+  source: string;
+}
+
+/** What an extension's own files say about one language it uses. */
+export interface LanguageEvidence {
+  /** Files showing the language is used, e.g. `requirements.txt`. */
+  files: string[];
+  /** Interpreter versions the bundle was deployed or locked with. */
+  recorded: RecordedVersion[];
+  /** Constraint the files ask for themselves, e.g. `quarto-required`. */
+  requires?: string;
+}
+
+/** Environment requirements inferred from the files of an extension. */
+export interface EnvironmentInference {
+  languages: Partial<Record<keyof ExtensionEnvironment, LanguageEvidence>>;
+  /** An `environment` section matching the evidence. */
+  suggested: ExtensionEnvironment;
+}
+
+/** Why an extension needs to be built, as found by `detect-changes`. */
+export interface ExtensionChange {
+  /** Directory name of the extension. */
+  extension: string;
+  /**
+   * Files under the extension's directory that differ from the base ref,
+   * relative to it. Empty when there is no base ref.
+   */
+  files: string[];
+  /** Set when the manifest version is ahead of the latest release. */
+  unreleased?: { version: string; latestVersion: string | null };
+}
+
+export interface ChangeDetection {
+  /** Git ref the extensions were diffed against, or null for none. */
+  base: string | null;
+  changes: ExtensionChange[];
+  /** Build matrix for `strategy.matrix`, one job per changed extension. */
+  matrix: { extension: string[] };
+}
+
+export type BumpLevel = "patch" | "minor" | "major";
+
+/** A change to a manifest field and the version bump it calls for. */
+export interface ManifestChange {
+  /** Dotted path of the field, e.g. `extension.minimumConnectVersion`. */
+  field: string;
+  description: string;
+  level: BumpLevel;
+}
+
+/** Result of `check-bump` for one extension. */
+export interface BumpCheck {
+  extension: string;
+  /** Manifest version at the base ref; null for a new extension. */
+  baseVersion: string | null;
+  version: string;
+  /** Highest released version, or null if never released or not checked. */
+  latestVersion: string | null;
+  /** Files that ship in the bundle and changed since the base ref. */
+  files: string[];
+  changes: ManifestChange[];
+  /** Bump the changes call for; null when nothing changed or it is new. */
+  suggested: BumpLevel | null;
+  /** `suggested` applied to the higher of the base and released versions. */
+  suggestedVersion: string | null;
+  issues: ValidationIssue[];
+}
+
+export type AuditKind =
+  /** The release has no `{name}.tar.gz` asset. */
+  | "missing-asset"
+  /** The version in the tag is not valid semver. */
+  | "invalid-version"
+  /** The tag names an extension that has no directory in this repository. */
+  | "orphaned-tag"
+  /** The tag starts with an extension's name but is not `{name}@v{version}`. */
+  | "malformed-tag"
+  /** More than one tag releases the same version, e.g. with build metadata. */
+  | "duplicate-version"
+  /** The release body's metadata cannot be used; the manifest is used instead. */
+  | "invalid-metadata"
+  /** The manifest version is 0.0.0, which is never published. */
+  | "unreleased"
+  /** The extension has no usable release. */
+  | "no-releases"
+  /** Every usable release is a prerelease or yanked, so there is no latest version. */
+  | "no-stable-release"
+  /** The release is usable but the retention policy does not keep it. */
+  | "retention";
+
+/** Something that kept a release or extension out of extensions.json, or may mislead. */
+export interface AuditDiagnostic {
+  kind: AuditKind;
+  /** Extension the diagnostic is about; for orphaned tags, the name in the tag. */
+  extension: string;
+  /** Tag of the release, for diagnostics about a single release. */
+  tag?: string;
+  message: string;
+  /** Whether the release or extension was left out of extensions.json. */
+  skipped: boolean;
+}
+
+/** Why releases and extensions of this repository are missing from extensions.json. */
+export interface GalleryAudit {
+  skippedReleases: number;
+  skippedExtensions: number;
+  diagnostics: AuditDiagnostic[];
 }
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+
+import { ExtensionManifest, GalleryConfig } from "./types";
+import { validateGallery } from "./validate-gallery";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeManifest(overrides: Partial<ExtensionManifest["extension"]> = {}): ExtensionManifest {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2024.01.0",
+      category: "extension",
+      tags: [],
+      ...overrides,
+    },
+  };
+}
+
+function makeConfig(overrides: Partial<GalleryConfig> = {}): GalleryConfig {
+  return {
+    categories: [{ id: "extension", title: "Extensions", description: "Extensions" }],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// validateGallery
+// ---------------------------------------------------------------------------
+
+describe("validateGallery", () => {
+  it("returns no issues for a consistent gallery", () => {
+    const manifests = new Map([
+      ["a", makeManifest({ name: "a", tags: ["python"] })],
+      ["b", makeManifest({ name: "b", tags: ["python", "r"] })],
+    ]);
+
+    expect(validateGallery(manifests, makeConfig())).toEqual([]);
+  });
+
+  it("reports a name that does not match its directory", () => {
+    const manifests = new Map([["a", makeManifest({ name: "b" })]]);
+
+    expect(validateGallery(manifests, makeConfig())).toEqual([
+      {
+        path: "extension.name",
+        message: "extension.name 'b' does not match the directory name 'a'",
+        severity: "error",
+        extension: "a",
+      },
+    ]);
+  });
+
+  it("reports manifests that are not valid and leaves them out of the other checks", () => {
+    const manifests = new Map([
+      ["a", {} as ExtensionManifest],
+      ["b", makeManifest({ name: "b" })],
+    ]);
+
+    expect(validateGallery(manifests, makeConfig())).toEqual([
+      { path: "extension", message: "Missing extension object", severity: "error", extension: "a" },
+    ]);
+  });
+
+  it("reports every directory declaring a duplicate name", () => {
+    const manifests = new Map([
+      ["a", makeManifest({ name: "a" })],
+      ["a-copy", makeManifest({ name: "a" })],
+    ]);
+
+    const issues = validateGallery(manifests, makeConfig());
+    const duplicates = issues.filter((i) => i.message.includes("multiple directories"));
+
+    expect(duplicates.map((i) => i.extension)).toEqual(["a", "a-copy"]);
+    expect(duplicates[0].message).toBe(
+      "Extension name 'a' is declared by multiple directories: a, a-copy"
+    );
+  });
+
+  it("reports unknown category ids", () => {
+    const manifests = new Map([["a", makeManifest({ name: "a", category: "tools" })]]);
+
+    const issues = validateGallery(manifests, makeConfig());
+
+    expect(issues).toContainEqual({
+      path: "extension.category",
+      message: "Unknown category 'tools' is not defined in the gallery config",
+      severity: "error",
+      extension: "a",
+    });
+  });
+
+  it("reports tags that differ only by case", () => {
+    const manifests = new Map([
+      ["a", makeManifest({ name: "a", tags: ["python"] })],
+      ["b", makeManifest({ name: "b", tags: ["Python"] })],
+    ]);
+
+    expect(validateGallery(manifests, makeConfig())).toEqual([
+      {
+        path: "extension.tags",
+        message: "Tags differ only by case: 'Python' (b), 'python' (a)",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("warns about categories with no extensions", () => {
+    const config = makeConfig({
+      categories: [
+        { id: "extension", title: "Extensions", description: "Extensions" },
+        { id: "example", title: "Examples", description: "Examples" },
+      ],
+    });
+    const manifests = new Map([["a", makeManifest({ name: "a" })]]);
+
+    expect(validateGallery(manifests, config)).toEqual([
+      { path: "categories", message: "Category 'example' has no extensions", severity: "warning" },
+    ]);
+  });
+
+  it("reports yanked versions that cannot match a release", () => {
+    const manifests = new Map([["a", makeManifest({ name: "a" })]]);
+    const config = makeConfig({
+      yanked: [
+        { extension: "a", version: "1.0.0", reason: "Broken" },
+        { extension: "b", version: "1.0.0", reason: "Broken" },
+        { extension: "a", version: "one", reason: "Broken" },
+        { extension: "a", version: "1.1.0", reason: " " },
+      ],
+    });
+
+    expect(validateGallery(manifests, config).map((i) => [i.path, i.message])).toEqual([
+      ["yanked", "Yanked version 'b@1.0.0' refers to an unknown extension"],
+      ["yanked", "Yanked version 'a@one' is not a valid semver version"],
+      ["yanked", "Yanked version 'a@1.1.0' must have a reason"],
+    ]);
+  });
+
+  it("reports deprecations of unknown extensions or with unknown replacements", () => {
+    const manifests = new Map([
+      ["a", makeManifest({ name: "a" })],
+      ["b", makeManifest({ name: "b" })],
+    ]);
+    const config = makeConfig({
+      deprecated: [
+        { extension: "a", replacedBy: "b" },
+        { extension: "b", replacedBy: "b" },
+        { extension: "c", replacedBy: "d" },
+      ],
+    });
+
+    expect(validateGallery(manifests, config)).toEqual([
+      {
+        path: "deprecated",
+        message: "Deprecated extension 'a' is replaced by 'b', which is also deprecated",
+        severity: "warning",
+      },
+      {
+        path: "deprecated",
+        message: "Deprecated extension 'b' is replaced by 'b', which is not another known extension",
+        severity: "error",
+      },
+      {
+        path: "deprecated",
+        message: "Deprecated extension 'c' is not a known extension",
+        severity: "error",
+      },
+      {
+        path: "deprecated",
+        message: "Deprecated extension 'c' is replaced by 'd', which is not another known extension",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("accepts yanked and deprecated extensions from other sources", () => {
+    const manifests = new Map([["a", makeManifest({ name: "a" })]]);
+    const config = makeConfig({
+      sources: [{ repo: "org/other" }],
+      yanked: [{ extension: "remote", version: "1.0.0", reason: "Broken" }],
+      deprecated: [{ extension: "a", replacedBy: "remote" }],
+    });
+
+    expect(validateGallery(manifests, config)).toEqual([]);
+  });
+
+  it("downgrades errors to warnings when strict is false", () => {
+    const manifests = new Map([["a", makeManifest({ name: "b", category: "tools" })]]);
+
+    const issues = validateGallery(manifests, makeConfig({ strict: false }));
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every((i) => i.severity === "warning")).toBe(true);
+  });
+});
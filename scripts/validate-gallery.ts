@@ -0,0 +1,171 @@
+import semverValid from "semver/functions/valid";
+
+import {
+  ExtensionManifest,
+  GalleryConfig,
+  ValidationIssue,
+  ValidationSeverity,
+} from "./types";
+import { validateManifest } from "./validate-manifest";
+
+/**
+ * Check the set of manifests as a whole against each other and the gallery
+ * config. These are the problems that only show up across extensions and that
+ * would otherwise silently produce a broken extensions.json.
+ *
+ * `manifests` is keyed by directory name. Problems that break the feed are
+ * errors when `config.strict` is true (the default) and warnings otherwise;
+ * categories with no extensions and extensions replaced by a deprecated one
+ * are always warnings. Manifests that are not valid on their own are reported
+ * with their errors and left out of the other checks.
+ */
+export function validateGallery(
+  manifests: Map<string, ExtensionManifest>,
+  config: GalleryConfig
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const breaking: ValidationSeverity =
+    config.strict === false ? "warning" : "error";
+
+  const dirsByName = new Map<string, string[]>();
+  const dirsByTag = new Map<string, string[]>();
+  const usedCategories = new Set<string>();
+  const knownCategories = new Set(config.categories.map((c) => c.id));
+
+  for (const [dir, manifest] of manifests) {
+    const manifestErrors = validateManifest(manifest).filter(
+      (issue) => issue.severity === "error"
+    );
+    if (manifestErrors.length > 0) {
+      issues.push(...manifestErrors.map((issue) => ({ ...issue, extension: dir })));
+      continue;
+    }
+    const { name, category, tags } = manifest.extension;
+
+    if (name !== dir) {
+      issues.push({
+        path: "extension.name",
+        message: `extension.name '${name}' does not match the directory name '${dir}'`,
+        severity: breaking,
+        extension: dir,
+      });
+    }
+    dirsByName.set(name, [...(dirsByName.get(name) || []), dir]);
+
+    if (category) {
+      usedCategories.add(category);
+      if (!knownCategories.has(category)) {
+        issues.push({
+          path: "extension.category",
+          message: `Unknown category '${category}' is not defined in the gallery config`,
+          severity: breaking,
+          extension: dir,
+        });
+      }
+    }
+
+    for (const tag of tags || []) {
+      dirsByTag.set(tag, [...(dirsByTag.get(tag) || []), dir]);
+    }
+  }
+
+  for (const [name, dirs] of dirsByName) {
+    if (dirs.length < 2) continue;
+    for (const dir of dirs) {
+      issues.push({
+        path: "extension.name",
+        message: `Extension name '${name}' is declared by multiple directories: ${dirs.join(", ")}`,
+        severity: breaking,
+        extension: dir,
+      });
+    }
+  }
+
+  // Group tags case-insensitively so "Python" and "python" are caught
+  const tagVariants = new Map<string, [string, string[]][]>();
+  for (const [tag, dirs] of dirsByTag) {
+    const key = tag.toLowerCase();
+    tagVariants.set(key, [...(tagVariants.get(key) || []), [tag, dirs]]);
+  }
+  for (const variants of tagVariants.values()) {
+    if (variants.length < 2) continue;
+    const described = variants
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([tag, dirs]) => `'${tag}' (${dirs.join(", ")})`)
+      .join(", ");
+    issues.push({
+      path: "extension.tags",
+      message: `Tags differ only by case: ${described}`,
+      severity: breaking,
+    });
+  }
+
+  // Yanked and deprecated entries that match nothing would silently have no
+  // effect, leaving a broken version or extension in the feed. With other
+  // sources configured they may name extensions not known here
+  const names = new Set(dirsByName.keys());
+  const isKnown = (name: string) =>
+    names.has(name) || (config.sources || []).length > 0;
+  for (const entry of config.yanked || []) {
+    const label = `Yanked version '${entry.extension}@${entry.version}'`;
+    if (!isKnown(entry.extension)) {
+      issues.push({
+        path: "yanked",
+        message: `${label} refers to an unknown extension`,
+        severity: breaking,
+      });
+    }
+    if (semverValid(entry.version) === null) {
+      issues.push({
+        path: "yanked",
+        message: `${label} is not a valid semver version`,
+        severity: breaking,
+      });
+    }
+    if (typeof entry.reason !== "string" || entry.reason.trim() === "") {
+      issues.push({
+        path: "yanked",
+        message: `${label} must have a reason`,
+        severity: breaking,
+      });
+    }
+  }
+
+  const deprecated = new Set((config.deprecated || []).map((d) => d.extension));
+  for (const entry of config.deprecated || []) {
+    const label = `Deprecated extension '${entry.extension}'`;
+    if (!isKnown(entry.extension)) {
+      issues.push({
+        path: "deprecated",
+        message: `${label} is not a known extension`,
+        severity: breaking,
+      });
+    }
+    if (entry.replacedBy === undefined) continue;
+    if (entry.replacedBy === entry.extension || !isKnown(entry.replacedBy)) {
+      issues.push({
+        path: "deprecated",
+        message: `${label} is replaced by '${entry.replacedBy}', which is not another known extension`,
+        severity: breaking,
+      });
+    } else if (deprecated.has(entry.replacedBy)) {
+      issues.push({
+        path: "deprecated",
+        message: `${label} is replaced by '${entry.replacedBy}', which is also deprecated`,
+        severity: "warning",
+      });
+    }
+  }
+
+  for (const category of config.categories) {
+    if (!usedCategories.has(category.id)) {
+      issues.push({
+        path: "categories",
+        message: `Category '${category.id}' has no extensions`,
+        severity: "warning",
+      });
+    }
+  }
+
+  return issues;
+}
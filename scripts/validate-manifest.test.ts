@@ -0,0 +1,365 @@
+import { describe, it, expect } from "vitest";
+
+import { GalleryConfig, ValidationIssue } from "./types";
+import {
+  formatAnnotation,
+  formatWorkflowCommand,
+  hasErrors,
+  isValidRequirement,
+  validateManifest,
+} from "./validate-manifest";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+function makeManifest(
+  extension: Record<string, unknown> = {},
+  rest: Record<string, unknown> = {}
+) {
+  return {
+    extension: {
+      name: "my-ext",
+      title: "My Extension",
+      description: "A test extension",
+      homepage: "https://example.com",
+      version: "1.0.0",
+      minimumConnectVersion: "2025.04.0",
+      ...extension,
+    },
+    ...rest,
+  };
+}
+
+const config: GalleryConfig = {
+  categories: [
+    { id: "extension", title: "Extensions", description: "Extensions" },
+    { id: "example", title: "Examples", description: "Examples" },
+  ],
+};
+
+function paths(issues: ValidationIssue[]): string[] {
+  return issues.map((i) => i.path);
+}
+
+// ---------------------------------------------------------------------------
+// validateManifest
+// ---------------------------------------------------------------------------
+
+describe("validateManifest", () => {
+  it("returns no issues for a valid manifest", () => {
+    const manifest = makeManifest(
+      { category: "extension", tags: ["python"], requiredFeatures: [] },
+      { environment: { python: { requires: "~=3.8" } } }
+    );
+
+    expect(validateManifest(manifest, { directoryName: "my-ext", config })).toEqual([]);
+  });
+
+  it("reports a non-object manifest", () => {
+    const issues = validateManifest([]);
+
+    expect(issues).toEqual([
+      { path: "", message: "manifest.json must contain a JSON object", severity: "error" },
+    ]);
+  });
+
+  it("reports a missing extension object", () => {
+    const issues = validateManifest({ environment: {} });
+
+    expect(paths(issues)).toEqual(["extension"]);
+  });
+
+  it("reports every missing required field at once", () => {
+    const issues = validateManifest({ extension: { name: "my-ext" } });
+
+    expect(paths(issues)).toEqual([
+      "extension.title",
+      "extension.description",
+      "extension.homepage",
+      "extension.minimumConnectVersion",
+      "extension.version",
+    ]);
+    expect(issues.every((i) => i.severity === "error")).toBe(true);
+  });
+
+  it("reports wrongly typed and empty required fields", () => {
+    const issues = validateManifest(makeManifest({ title: 42, description: "  " }));
+
+    expect(issues).toEqual([
+      { path: "extension.title", message: "extension.title must be a string", severity: "error" },
+      {
+        path: "extension.description",
+        message: "extension.description must not be empty",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports a name that does not match the directory", () => {
+    const issues = validateManifest(makeManifest(), { directoryName: "other-ext" });
+
+    expect(paths(issues)).toEqual(["extension.name"]);
+  });
+
+  it("reports an invalid version", () => {
+    const issues = validateManifest(makeManifest({ version: "1.0" }));
+
+    expect(paths(issues)).toEqual(["extension.version"]);
+    expect(issues[0].severity).toBe("error");
+  });
+
+  it("warns about the reserved 0.0.0 version", () => {
+    const issues = validateManifest(makeManifest({ version: "0.0.0" }));
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe("warning");
+    expect(hasErrors(issues)).toBe(false);
+  });
+
+  it("accepts Connect-style versions with leading zeros", () => {
+    expect(validateManifest(makeManifest({ minimumConnectVersion: "2024.09.1" }))).toEqual([]);
+  });
+
+  it("reports an invalid minimumConnectVersion", () => {
+    const issues = validateManifest(makeManifest({ minimumConnectVersion: "latest" }));
+
+    expect(paths(issues)).toEqual(["extension.minimumConnectVersion"]);
+  });
+
+  it("reports a homepage that is not an http(s) URL", () => {
+    expect(paths(validateManifest(makeManifest({ homepage: "not a url" })))).toEqual([
+      "extension.homepage",
+    ]);
+    expect(paths(validateManifest(makeManifest({ homepage: "ftp://example.com" })))).toEqual([
+      "extension.homepage",
+    ]);
+  });
+
+  it("reports non-array requiredFeatures and tags", () => {
+    const issues = validateManifest(makeManifest({ requiredFeatures: "gpu", tags: [1] }));
+
+    expect(paths(issues)).toEqual(["extension.requiredFeatures", "extension.tags"]);
+  });
+
+  it("warns about duplicate tags", () => {
+    const issues = validateManifest(makeManifest({ tags: ["python", "python"] }));
+
+    expect(issues).toEqual([
+      { path: "extension.tags", message: "Tag 'python' is listed more than once", severity: "warning" },
+    ]);
+  });
+
+  it("reports a category that is not in the gallery config", () => {
+    const issues = validateManifest(makeManifest({ category: "tools" }), { config });
+
+    expect(issues).toEqual([
+      {
+        path: "extension.category",
+        message: "Unknown category 'tools' (expected one of: extension, example)",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("skips the category check without a gallery config", () => {
+    expect(validateManifest(makeManifest({ category: "tools" }))).toEqual([]);
+  });
+
+  it("reports malformed retention policies", () => {
+    expect(validateManifest(makeManifest({ retention: { keepNewest: 3, keepLatestPatches: true } }))).toEqual([]);
+    expect(validateManifest(makeManifest({ retention: 5 }))).toEqual([
+      { path: "extension.retention", message: "extension.retention must be an object", severity: "error" },
+    ]);
+
+    const issues = validateManifest(
+      makeManifest({ retention: { keepNewest: 0, keepForOlderConnect: "yes", keepLast: 3 } })
+    );
+
+    expect(issues).toEqual([
+      {
+        path: "extension.retention.keepNewest",
+        message: "extension.retention.keepNewest must be a positive integer",
+        severity: "error",
+      },
+      {
+        path: "extension.retention.keepForOlderConnect",
+        message: "extension.retention.keepForOlderConnect must be a boolean",
+        severity: "error",
+      },
+      {
+        path: "extension.retention.keepLast",
+        message: "Unknown retention rule 'keepLast' (expected one of: keepNewest, keepLatestPatches, keepForOlderConnect)",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("reports media paths outside the extension directory", () => {
+    expect(
+      validateManifest(makeManifest({ icon: "images/icon.png", screenshots: ["a.png"], readme: "docs/../README.md" }))
+    ).toEqual([]);
+
+    const issues = validateManifest(
+      makeManifest({ icon: "../shared/icon.png", screenshots: ["/tmp/a.png", 3], readme: "C:\\README.md" })
+    );
+
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ["extension.icon", "'../shared/icon.png' is outside the extension directory"],
+      ["extension.readme", "'C:\\README.md' is outside the extension directory"],
+      ["extension.screenshots[0]", "'/tmp/a.png' is outside the extension directory"],
+      ["extension.screenshots[1]", "extension.screenshots[1] must be a non-empty path"],
+    ]);
+  });
+
+  it("reports incomplete translations", () => {
+    expect(
+      validateManifest(makeManifest({ translations: { fr: { title: "Mon extension", description: "Une extension" } } }))
+    ).toEqual([]);
+
+    const issues = validateManifest(
+      makeManifest({
+        translations: {
+          fr: { title: "Mon extension" },
+          de: { title: "", description: "Eine Erweiterung", homepage: "https://example.de" },
+          French: "Mon extension",
+        },
+      })
+    );
+
+    expect(issues).toEqual([
+      { path: "extension.translations.fr.description", message: "Missing extension.translations.fr.description", severity: "error" },
+      {
+        path: "extension.translations.de.title",
+        message: "extension.translations.de.title must be a non-empty string",
+        severity: "error",
+      },
+      {
+        path: "extension.translations.de.homepage",
+        message: "Unknown translated field 'homepage' (expected title or description)",
+        severity: "warning",
+      },
+      {
+        path: "extension.translations.French",
+        message: "'French' is not a locale code (expected e.g. fr or pt-BR)",
+        severity: "error",
+      },
+      {
+        path: "extension.translations.French",
+        message: "extension.translations.French must be an object",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports invalid environment requirements", () => {
+    const manifest = makeManifest(
+      {},
+      {
+        environment: {
+          python: { requires: "3.8" },
+          r: {},
+          julia: { requires: "~=1.9" },
+        },
+      }
+    );
+
+    const issues = validateManifest(manifest);
+
+    expect(issues).toEqual([
+      {
+        path: "environment.python.requires",
+        message: "Invalid version constraint '3.8': '3.8' has no comparison operator (e.g. ~=3.8 or >=3.8)",
+        severity: "error",
+      },
+      { path: "environment.r.requires", message: "Missing environment.r.requires", severity: "error" },
+      {
+        path: "environment.julia",
+        message: "Unknown environment 'julia' (expected one of: python, r, quarto)",
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("accepts ranges and exclusions", () => {
+    const manifest = makeManifest(
+      {},
+      { environment: { python: { requires: ">=3.9, <3.13, !=3.10.*" }, r: { requires: "==4.*" } } }
+    );
+
+    expect(validateManifest(manifest)).toEqual([]);
+  });
+
+  it("reports every malformed clause and ranges that exclude every version", () => {
+    const manifest = makeManifest(
+      {},
+      { environment: { python: { requires: "~=3, >=3.x" }, r: { requires: ">=4.3,<4.2" } } }
+    );
+
+    expect(validateManifest(manifest).map((i) => i.message)).toEqual([
+      "Invalid version constraint '~=3, >=3.x': '~=3' needs at least two version segments (e.g. ~=3.0)",
+      "Invalid version constraint '~=3, >=3.x': '>=3.x' is not a valid version (expected numbers separated by dots, e.g. 3.10)",
+      "Invalid version constraint '>=4.3,<4.2': '>=4.3,<4.2' excludes every version",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isValidRequirement
+// ---------------------------------------------------------------------------
+
+describe("isValidRequirement", () => {
+  it("accepts single and comma-joined clauses", () => {
+    expect(isValidRequirement("~=3.8")).toBe(true);
+    expect(isValidRequirement(">=3.9, <3.13")).toBe(true);
+    expect(isValidRequirement("==1.3.*")).toBe(true);
+  });
+
+  it("rejects clauses without an operator or version", () => {
+    expect(isValidRequirement("3.8")).toBe(false);
+    expect(isValidRequirement(">=")).toBe(false);
+    expect(isValidRequirement("")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatAnnotation
+// ---------------------------------------------------------------------------
+
+describe("formatAnnotation", () => {
+  it("formats an issue as a workflow command", () => {
+    const issue: ValidationIssue = {
+      path: "extension.version",
+      message: "'1.0' is not a valid semantic version",
+      severity: "error",
+    };
+
+    expect(formatAnnotation(issue, "extensions/my-ext/manifest.json")).toBe(
+      "::error file=extensions/my-ext/manifest.json,title=extension.version::'1.0' is not a valid semantic version"
+    );
+  });
+
+  it("escapes the message, file and title", () => {
+    const issue: ValidationIssue = {
+      path: "environment.python.requires",
+      message: "100% invalid:\r\nsee docs, please",
+      severity: "warning",
+    };
+
+    expect(formatAnnotation(issue, "extensions/a,b:c/manifest.json")).toBe(
+      "::warning file=extensions/a%2Cb%3Ac/manifest.json,title=environment.python.requires::100%25 invalid:%0D%0Asee docs, please"
+    );
+  });
+});
+
+describe("formatWorkflowCommand", () => {
+  it("formats a command without properties", () => {
+    expect(formatWorkflowCommand("notice", "Line one\nline two")).toBe("::notice::Line one%0Aline two");
+  });
+
+  it("escapes properties and leaves out empty ones", () => {
+    expect(
+      formatWorkflowCommand("error", "50% done", { file: undefined, title: "my-ext@v1.0.0, again: x" })
+    ).toBe("::error title=my-ext@v1.0.0%2C again%3A x::50%25 done");
+  });
+});
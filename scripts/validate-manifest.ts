@@ -0,0 +1,375 @@
+import path from "path";
+import semverValid from "semver/functions/valid";
+
+import {
+  ExtensionEnvironment,
+  GalleryConfig,
+  RetentionPolicy,
+  ValidationIssue,
+  ValidationSeverity,
+} from "./types";
+import { parseRequirement } from "./requirements";
+
+const REQUIRED_STRING_FIELDS = [
+  "name",
+  "title",
+  "description",
+  "homepage",
+  "minimumConnectVersion",
+  "version",
+] as const;
+
+const RETENTION_RULES: Array<keyof RetentionPolicy> = [
+  "keepNewest",
+  "keepLatestPatches",
+  "keepForOlderConnect",
+];
+
+// Locale codes such as `fr`, `pt-BR` or `zh-Hant`, as in the published schemas
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+const ENVIRONMENT_LANGUAGES: Array<keyof ExtensionEnvironment> = [
+  "python",
+  "r",
+  "quarto",
+];
+
+export interface ValidateManifestOptions {
+  /** Name of the directory the manifest was read from. */
+  directoryName?: string;
+  /** Gallery config used to check `extension.category`. */
+  config?: GalleryConfig;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/**
+ * Check whether a `requires` string is a comma-separated list of
+ * version specifiers, e.g. `~=3.8` or `>=3.9,<3.13`.
+ */
+export function isValidRequirement(requires: string): boolean {
+  return parseRequirement(requires).errors.length === 0;
+}
+
+/**
+ * Validate a parsed manifest.json and return every problem found, rather than
+ * stopping at the first one. An empty array means the manifest is valid.
+ */
+export function validateManifest(
+  manifest: unknown,
+  options: ValidateManifestOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (
+    severity: ValidationSeverity,
+    path: string,
+    message: string
+  ) => issues.push({ path, message, severity });
+
+  if (!isObject(manifest)) {
+    report("error", "", "manifest.json must contain a JSON object");
+    return issues;
+  }
+
+  const ext = manifest.extension;
+  if (!isObject(ext)) {
+    report("error", "extension", "Missing extension object");
+    return issues;
+  }
+
+  for (const field of REQUIRED_STRING_FIELDS) {
+    const value = ext[field];
+    if (value === undefined || value === null) {
+      report("error", `extension.${field}`, `Missing extension.${field}`);
+    } else if (typeof value !== "string") {
+      report("error", `extension.${field}`, `extension.${field} must be a string`);
+    } else if (value.trim() === "") {
+      report("error", `extension.${field}`, `extension.${field} must not be empty`);
+    }
+  }
+
+  if (
+    typeof ext.name === "string" &&
+    options.directoryName !== undefined &&
+    ext.name !== options.directoryName
+  ) {
+    report(
+      "error",
+      "extension.name",
+      `extension.name '${ext.name}' does not match the directory name '${options.directoryName}'`
+    );
+  }
+
+  if (typeof ext.version === "string" && ext.version !== "") {
+    if (semverValid(ext.version) === null) {
+      report(
+        "error",
+        "extension.version",
+        `'${ext.version}' is not a valid semantic version`
+      );
+    } else if (ext.version === "0.0.0") {
+      report(
+        "warning",
+        "extension.version",
+        "Version 0.0.0 is reserved and will never be released"
+      );
+    }
+  }
+
+  if (
+    typeof ext.minimumConnectVersion === "string" &&
+    ext.minimumConnectVersion !== "" &&
+    semverValid(ext.minimumConnectVersion, { loose: true }) === null
+  ) {
+    report(
+      "error",
+      "extension.minimumConnectVersion",
+      `'${ext.minimumConnectVersion}' is not a valid Connect version (expected e.g. 2025.04.0)`
+    );
+  }
+
+  if (typeof ext.homepage === "string" && ext.homepage !== "") {
+    let url: URL | null = null;
+    try {
+      url = new URL(ext.homepage);
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+      report(
+        "error",
+        "extension.homepage",
+        `'${ext.homepage}' is not a valid http(s) URL`
+      );
+    }
+  }
+
+  if (ext.requiredFeatures !== undefined && !isStringArray(ext.requiredFeatures)) {
+    report(
+      "error",
+      "extension.requiredFeatures",
+      "extension.requiredFeatures must be an array of strings"
+    );
+  }
+
+  if (ext.tags !== undefined) {
+    if (!isStringArray(ext.tags)) {
+      report("error", "extension.tags", "extension.tags must be an array of strings");
+    } else {
+      const tags = ext.tags;
+      const duplicates = tags.filter((t, i) => tags.indexOf(t) !== i);
+      for (const tag of new Set(duplicates)) {
+        report("warning", "extension.tags", `Tag '${tag}' is listed more than once`);
+      }
+    }
+  }
+
+  if (ext.category !== undefined) {
+    if (typeof ext.category !== "string") {
+      report("error", "extension.category", "extension.category must be a string");
+    } else if (
+      options.config &&
+      !options.config.categories.some((c) => c.id === ext.category)
+    ) {
+      const known = options.config.categories.map((c) => c.id).join(", ");
+      report(
+        "error",
+        "extension.category",
+        `Unknown category '${ext.category}' (expected one of: ${known})`
+      );
+    }
+  }
+
+  for (const field of ["icon", "readme"] as const) {
+    if (ext[field] !== undefined) {
+      validateMediaPath(ext[field], `extension.${field}`, report);
+    }
+  }
+  if (ext.screenshots !== undefined) {
+    if (!Array.isArray(ext.screenshots)) {
+      report("error", "extension.screenshots", "extension.screenshots must be an array of paths");
+    } else {
+      ext.screenshots.forEach((file, i) =>
+        validateMediaPath(file, `extension.screenshots[${i}]`, report)
+      );
+    }
+  }
+
+  validateRetention(ext.retention, report);
+  validateTranslations(ext.translations, report);
+  validateEnvironment(manifest.environment, report);
+
+  return issues;
+}
+
+// Media files are released from the extension directory, so they must be
+// inside it
+function validateMediaPath(
+  file: unknown,
+  field: string,
+  report: (severity: ValidationSeverity, path: string, message: string) => void
+): void {
+  if (typeof file !== "string" || file.trim() === "") {
+    report("error", field, `${field} must be a non-empty path`);
+  } else if (
+    path.posix.isAbsolute(file) ||
+    path.win32.isAbsolute(file) ||
+    path.posix.normalize(file.replace(/\\/g, "/")).split("/")[0] === ".."
+  ) {
+    report("error", field, `'${file}' is outside the extension directory`);
+  }
+}
+
+function validateRetention(
+  retention: unknown,
+  report: (severity: ValidationSeverity, path: string, message: string) => void
+): void {
+  if (retention === undefined) return;
+  if (!isObject(retention)) {
+    report("error", "extension.retention", "extension.retention must be an object");
+    return;
+  }
+
+  for (const [rule, value] of Object.entries(retention)) {
+    const path = `extension.retention.${rule}`;
+    if (!RETENTION_RULES.includes(rule as keyof RetentionPolicy)) {
+      report(
+        "warning",
+        path,
+        `Unknown retention rule '${rule}' (expected one of: ${RETENTION_RULES.join(", ")})`
+      );
+    } else if (rule === "keepNewest") {
+      if (!Number.isInteger(value) || (value as number) < 1) {
+        report("error", path, `${path} must be a positive integer`);
+      }
+    } else if (typeof value !== "boolean") {
+      report("error", path, `${path} must be a boolean`);
+    }
+  }
+}
+
+function validateTranslations(
+  translations: unknown,
+  report: (severity: ValidationSeverity, path: string, message: string) => void
+): void {
+  if (translations === undefined) return;
+  if (!isObject(translations)) {
+    report("error", "extension.translations", "extension.translations must be an object");
+    return;
+  }
+
+  for (const [locale, translation] of Object.entries(translations)) {
+    const path = `extension.translations.${locale}`;
+    if (!LOCALE_PATTERN.test(locale)) {
+      report(
+        "error",
+        path,
+        `'${locale}' is not a locale code (expected e.g. fr or pt-BR)`
+      );
+    }
+    if (!isObject(translation)) {
+      report("error", path, `${path} must be an object`);
+      continue;
+    }
+    for (const field of ["title", "description"]) {
+      const value = translation[field];
+      if (value === undefined) {
+        report("error", `${path}.${field}`, `Missing ${path}.${field}`);
+      } else if (typeof value !== "string" || value.trim() === "") {
+        report("error", `${path}.${field}`, `${path}.${field} must be a non-empty string`);
+      }
+    }
+    for (const field of Object.keys(translation)) {
+      if (field !== "title" && field !== "description") {
+        report(
+          "warning",
+          `${path}.${field}`,
+          `Unknown translated field '${field}' (expected title or description)`
+        );
+      }
+    }
+  }
+}
+
+function validateEnvironment(
+  environment: unknown,
+  report: (severity: ValidationSeverity, path: string, message: string) => void
+): void {
+  if (environment === undefined) return;
+  if (!isObject(environment)) {
+    report("error", "environment", "environment must be an object");
+    return;
+  }
+
+  for (const [language, requirement] of Object.entries(environment)) {
+    const path = `environment.${language}`;
+    if (!ENVIRONMENT_LANGUAGES.includes(language as keyof ExtensionEnvironment)) {
+      report(
+        "warning",
+        path,
+        `Unknown environment '${language}' (expected one of: ${ENVIRONMENT_LANGUAGES.join(", ")})`
+      );
+      continue;
+    }
+    if (!isObject(requirement) || typeof requirement.requires !== "string") {
+      report("error", `${path}.requires`, `Missing ${path}.requires`);
+      continue;
+    }
+    for (const error of parseRequirement(requirement.requires).errors) {
+      report(
+        "error",
+        `${path}.requires`,
+        `Invalid version constraint '${requirement.requires}': ${error}`
+      );
+    }
+  }
+}
+
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some((i) => i.severity === "error");
+}
+
+// Workflow command escaping, as done by @actions/core: data may not contain
+// line breaks, and property values may not contain the `,` and `:` that
+// separate them either
+function escapeData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+/**
+ * Format a GitHub Actions workflow command such as `::warning title=x::text`,
+ * escaping the message and the properties given. Empty properties are left
+ * out.
+ */
+export function formatWorkflowCommand(
+  command: string,
+  message: string,
+  properties: Record<string, string | undefined> = {}
+): string {
+  const list = Object.entries(properties)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${escapeProperty(value)}`)
+    .join(",");
+  return `::${command}${list ? ` ${list}` : ""}::${escapeData(message)}`;
+}
+
+/**
+ * Format an issue as a GitHub Actions workflow command so it shows up as an
+ * annotation, attached to `file` when given.
+ */
+export function formatAnnotation(issue: ValidationIssue, file?: string): string {
+  return formatWorkflowCommand(issue.severity, issue.message, {
+    file,
+    title: issue.path || "manifest.json",
+  });
+}
@@ -0,0 +1,157 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { ExtensionVersion, GalleryOutput } from "./types";
+import { compareDigest, sha256, verifyGallery } from "./verify-lib";
+
+// ---------------------------------------------------------------------------
+// Helpers to build test fixtures
+// ---------------------------------------------------------------------------
+
+const TARBALL = Buffer.from("tarball bytes");
+const TARBALL_URL = "https://example.com/my-ext.tar.gz";
+
+function makeOutput(overrides: Partial<ExtensionVersion> = {}): GalleryOutput {
+  const version: ExtensionVersion = {
+    version: "1.0.0",
+    released: "2024-06-01T00:00:00Z",
+    url: TARBALL_URL,
+    minimumConnectVersion: "2024.01.0",
+    sha256: sha256(TARBALL),
+    size: TARBALL.length,
+    ...overrides,
+  };
+  return {
+    categories: [],
+    tags: [],
+    requiredFeatures: [],
+    extensions: [
+      {
+        name: "my-ext",
+        title: "My Extension",
+        description: "A test extension",
+        homepage: "https://example.com",
+        latestVersion: version,
+        versions: [version],
+        tags: [],
+      },
+    ],
+  };
+}
+
+function fetchReturning(body: Buffer | string, init?: ResponseInit) {
+  const bytes = typeof body === "string" ? body : new Uint8Array(body);
+  return (async () => new Response(bytes, init)) as typeof fetch;
+}
+
+// ---------------------------------------------------------------------------
+// sha256 / compareDigest
+// ---------------------------------------------------------------------------
+
+describe("sha256", () => {
+  it("returns the hex digest", () => {
+    expect(sha256(Buffer.from(""))).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+  });
+});
+
+describe("compareDigest", () => {
+  it("returns null when digest and size match", () => {
+    expect(compareDigest(TARBALL, { sha256: sha256(TARBALL), size: TARBALL.length })).toBeNull();
+  });
+
+  it("describes a digest mismatch", () => {
+    expect(compareDigest(TARBALL, { sha256: "abc" })).toBe(`sha256 is ${sha256(TARBALL)}, expected abc`);
+  });
+
+  it("describes a size mismatch", () => {
+    expect(compareDigest(TARBALL, { size: 1 })).toBe(`size is ${TARBALL.length} bytes, expected 1`);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// verifyGallery
+// ---------------------------------------------------------------------------
+
+describe("verifyGallery", () => {
+  it("reports ok when the downloaded tarball matches", async () => {
+    const results = await verifyGallery(makeOutput(), { fetch: fetchReturning(TARBALL) });
+
+    expect(results).toEqual([
+      { extension: "my-ext", version: "1.0.0", status: "ok", message: sha256(TARBALL) },
+    ]);
+  });
+
+  it("reports a mismatch when the tarball has changed", async () => {
+    const results = await verifyGallery(makeOutput(), { fetch: fetchReturning("other bytes") });
+
+    expect(results[0].status).toBe("mismatch");
+  });
+
+  it("reports a missing tarball when the download fails", async () => {
+    const results = await verifyGallery(makeOutput(), {
+      fetch: fetchReturning("", { status: 404, statusText: "Not Found" }),
+    });
+
+    expect(results[0].status).toBe("missing");
+    expect(results[0].message).toBe(`Failed to download ${TARBALL_URL}: 404 Not Found`);
+  });
+
+  it("reports a missing tarball when the request fails", async () => {
+    const fakeFetch = (async () => {
+      throw new TypeError("fetch failed");
+    }) as typeof fetch;
+
+    const results = await verifyGallery(makeOutput(), { fetch: fakeFetch });
+
+    expect(results).toEqual([
+      {
+        extension: "my-ext",
+        version: "1.0.0",
+        status: "missing",
+        message: `Failed to download ${TARBALL_URL}: fetch failed`,
+      },
+    ]);
+  });
+
+  it("reports versions without a recorded digest as unverified", async () => {
+    const results = await verifyGallery(makeOutput({ sha256: undefined }), {
+      fetch: fetchReturning(TARBALL),
+    });
+
+    expect(results[0].status).toBe("unverified");
+  });
+
+  describe("with a mirror directory", () => {
+    let mirrorDir: string;
+
+    beforeEach(() => {
+      mirrorDir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(mirrorDir, { recursive: true, force: true });
+    });
+
+    it("reads tarballs from the mirror instead of downloading", async () => {
+      fs.mkdirSync(path.join(mirrorDir, "my-ext", "1.0.0"), { recursive: true });
+      fs.writeFileSync(path.join(mirrorDir, "my-ext", "1.0.0", "my-ext.tar.gz"), TARBALL);
+      const noFetch = (async () => {
+        throw new Error("should not fetch");
+      }) as typeof fetch;
+
+      const results = await verifyGallery(makeOutput(), { mirrorDir, fetch: noFetch });
+
+      expect(results[0].status).toBe("ok");
+    });
+
+    it("reports tarballs missing from the mirror", async () => {
+      const results = await verifyGallery(makeOutput(), { mirrorDir });
+
+      expect(results[0].status).toBe("missing");
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { AssetVerification, ExtensionVersion, GalleryOutput } from "./types";
+
+export interface VerifyOptions {
+  /** Read tarballs from this mirror directory instead of downloading them. */
+  mirrorDir?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Hex-encoded SHA-256 digest of `data`.
+ */
+export function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Compare tarball bytes against the digest and size recorded for a version,
+ * returning a description of the difference or null if they match.
+ */
+export function compareDigest(
+  data: Buffer,
+  version: Pick<ExtensionVersion, "sha256" | "size">
+): string | null {
+  const actual = sha256(data);
+  if (version.sha256 && actual !== version.sha256) {
+    return `sha256 is ${actual}, expected ${version.sha256}`;
+  }
+  if (version.size !== undefined && data.length !== version.size) {
+    return `size is ${data.length} bytes, expected ${version.size}`;
+  }
+  return null;
+}
+
+/**
+ * Re-read every tarball referenced by extensions.json, from its URL or from a
+ * local mirror, and check it against the recorded sha256 and size. Versions
+ * released before checksums were recorded are reported as unverified.
+ */
+export async function verifyGallery(
+  output: GalleryOutput,
+  options: VerifyOptions = {}
+): Promise<AssetVerification[]> {
+  const doFetch = options.fetch || fetch;
+  const results: AssetVerification[] = [];
+
+  for (const extension of output.extensions) {
+    for (const version of extension.versions) {
+      const result = (
+        status: AssetVerification["status"],
+        message: string
+      ) =>
+        results.push({
+          extension: extension.name,
+          version: version.version,
+          status,
+          message,
+        });
+
+      if (!version.sha256) {
+        result("unverified", "No sha256 recorded for this version");
+        continue;
+      }
+
+      let data: Buffer;
+      if (options.mirrorDir) {
+        const tarball = path.join(
+          options.mirrorDir,
+          extension.name,
+          version.version,
+          `${extension.name}.tar.gz`
+        );
+        if (!fs.existsSync(tarball)) {
+          result("missing", `${tarball} does not exist`);
+          continue;
+        }
+        data = fs.readFileSync(tarball);
+      } else {
+        // A network failure only means this version could not be checked
+        try {
+          const response = await doFetch(version.url);
+          if (!response.ok) {
+            result(
+              "missing",
+              `Failed to download ${version.url}: ${response.status} ${response.statusText}`
+            );
+            continue;
+          }
+          data = Buffer.from(await response.arrayBuffer());
+        } catch (err) {
+          result("missing", `Failed to download ${version.url}: ${(err as Error).message}`);
+          continue;
+        }
+      }
+
+      const difference = compareDigest(data, version);
+      if (difference) {
+        result("mismatch", difference);
+      } else {
+        result("ok", version.sha256);
+      }
+    }
+  }
+
+  return results;
+}